@@ -10,8 +10,8 @@ function actionInputBlock(inputName: string): string {
 }
 
 function actionOutputBlock(outputName: string): string {
-  const action = readFileSync('action.yml', 'utf8');
-  const match = action.match(new RegExp(`^  ${outputName}:\\n([\\s\\S]*?)(?=^  [A-Za-z][A-Za-z0-9_]*:|^runs:)`, 'm'));
+  const outputs = readFileSync('action.yml', 'utf8').split(/^outputs:$/m)[1] ?? '';
+  const match = outputs.match(new RegExp(`^  ${outputName}:\\n([\\s\\S]*?)(?=^  [A-Za-z][A-Za-z0-9_]*:|^runs:)`, 'm'));
   if (!match) throw new Error(`Missing action output ${outputName}`);
   const block = match[1];
   if (!block) throw new Error(`Missing action output block ${outputName}`);
@@ -45,7 +45,17 @@ describe('action runtime contract', () => {
     expect(mainSource()).toContain("core.getBooleanInput('useApplicationDefaultCredentials', { required: false })");
   });
 
-  test.each(['dryRun', 'internalSharingDownloadUrls'])('declares runtime output %s in action.yml', outputName => {
+  test.each([
+    'dryRun',
+    'internalSharingDownloadUrls',
+    'rolloutBefore',
+    'rolloutAfter',
+    'editId',
+    'versionCodes',
+    'track',
+    'releaseStatus',
+    'userFraction',
+  ])('declares runtime output %s in action.yml', outputName => {
     expect(runtimeSource()).toContain(`core.setOutput('${outputName}'`);
     expect(actionOutputBlock(outputName)).toContain('description:');
   });
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readAppDetails } from '../src/app-details';
+
+describe('readAppDetails', () => {
+  let tempDir: string;
+
+  function writeDetails(fileName: string, content: string): string {
+    const filePath = path.join(tempDir, fileName);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'app-details-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('returns undefined when nothing is set', async () => {
+    await expect(readAppDetails(undefined, { contactEmail: undefined })).resolves.toBeUndefined();
+  });
+
+  test('reads a JSON file and lets inputs override it', async () => {
+    const filePath = writeDetails('details.json', JSON.stringify({ contactEmail: ' old@example.com ', defaultLanguage: 'en-US' }));
+
+    await expect(readAppDetails(filePath, { contactEmail: 'dev@example.com', contactWebsite: 'https://example.com/support' })).resolves.toEqual({
+      contactEmail: 'dev@example.com',
+      contactWebsite: 'https://example.com/support',
+      defaultLanguage: 'en-US',
+    });
+  });
+
+  test('reads a flat YAML file with comments and quoted values', async () => {
+    const filePath = writeDetails(
+      'details.yml',
+      ['---', '# 앱 연락처', 'contactEmail: dev@example.com # support inbox', '', 'contactPhone: "+82 2 1234 5678"', "defaultLanguage: 'ko-KR'"].join(
+        '\n'
+      )
+    );
+
+    await expect(readAppDetails(filePath, {})).resolves.toEqual({
+      contactEmail: 'dev@example.com',
+      contactPhone: '+82 2 1234 5678',
+      defaultLanguage: 'ko-KR',
+    });
+  });
+
+  test.each([
+    ['details.json', '{', 'appDetails is not valid JSON'],
+    ['details.json', '[]', 'appDetails must be an object with contactEmail, contactPhone, contactWebsite, defaultLanguage'],
+    ['details.json', '{"contactName":"Dev"}', "appDetails has an unknown field 'contactName'"],
+    ['details.json', '{"contactEmail":1}', "appDetails field 'contactEmail' must be a non-empty string"],
+    ['details.yaml', 'contactEmail:', "appDetails field 'contactEmail' must be a non-empty string"],
+    ['details.yaml', 'contact:\n  email: dev@example.com', "appDetails line 2 must be a 'key: value' pair; only flat YAML mappings are supported"],
+    ['details.txt', 'contactEmail: dev@example.com', 'appDetails must use one of these extensions: .json, .yml, .yaml'],
+  ])('rejects invalid %s content %j', async (fileName, content, message) => {
+    await expect(readAppDetails(writeDetails(fileName, content), {})).rejects.toThrow(message);
+  });
+
+  test.each([
+    [{ contactEmail: 'not-an-email' }, 'contactEmail is not a valid email address: not-an-email'],
+    [{ contactPhone: 'call us' }, 'contactPhone is not a valid phone number: call us'],
+    [{ contactWebsite: 'ftp://example.com' }, 'contactWebsite must be an http or https URL: ftp://example.com'],
+    [{ contactWebsite: 'example.com' }, 'contactWebsite must be an http or https URL: example.com'],
+    [{ defaultLanguage: 'english' }, 'defaultLanguage must be a language code such as en-US: english'],
+  ])('rejects invalid values %o', async (inputs, message) => {
+    await expect(readAppDetails(undefined, inputs)).rejects.toThrow(message);
+  });
+
+  test('accepts http websites', async () => {
+    await expect(readAppDetails(undefined, { contactWebsite: 'http://example.com' })).resolves.toEqual({ contactWebsite: 'http://example.com' });
+  });
+});
@@ -0,0 +1,377 @@
+jest.mock('../src/utils/logger', () => ({
+  d: jest.fn(),
+}));
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { __testables, preflightArtifactMetadata, readArtifactMetadata } from '../src/artifact-metadata';
+
+const ANDROID_NS = 'http://schemas.android.com/apk/res/android';
+const VERSION_CODE_ID = 0x0101021b;
+const VERSION_NAME_ID = 0x0101021c;
+const MIN_SDK_ID = 0x0101020c;
+const TARGET_SDK_ID = 0x01010270;
+
+type BinaryAttribute = { name: number; rawValue?: number; dataType: number; data: number };
+
+function u16(value: number): Buffer {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer;
+}
+
+function u32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value >>> 0);
+  return buffer;
+}
+
+function chunk(type: number, headerSize: number, body: Buffer): Buffer {
+  return Buffer.concat([u16(type), u16(headerSize), u32(8 + body.length), body]);
+}
+
+function encodePoolString(value: string, utf8: boolean): Buffer {
+  if (utf8) {
+    const bytes = Buffer.from(value, 'utf8');
+    const length = (size: number) => (size > 0x7f ? Buffer.from([0x80 | (size >> 8), size & 0xff]) : Buffer.from([size]));
+    return Buffer.concat([length(value.length), length(bytes.length), bytes, Buffer.from([0])]);
+  }
+  const chars = Buffer.from(value, 'utf16le');
+  const length = value.length > 0x7fff ? Buffer.concat([u16(0x8000 | (value.length >> 16)), u16(value.length & 0xffff)]) : u16(value.length);
+  return Buffer.concat([length, chars, u16(0)]);
+}
+
+function stringPool(strings: string[], utf8: boolean): Buffer {
+  const encoded = strings.map(value => encodePoolString(value, utf8));
+  const offsets: Buffer[] = [];
+  let offset = 0;
+  for (const value of encoded) {
+    offsets.push(u32(offset));
+    offset += value.length;
+  }
+  let data = Buffer.concat(encoded);
+  data = Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4)]);
+  const header = Buffer.concat([u32(strings.length), u32(0), u32(utf8 ? 0x100 : 0), u32(28 + strings.length * 4), u32(0)]);
+  return chunk(0x0001, 28, Buffer.concat([header, ...offsets, data]));
+}
+
+function resourceMap(ids: number[]): Buffer {
+  return chunk(0x0180, 8, Buffer.concat(ids.map(u32)));
+}
+
+function startElement(name: number, attributes: BinaryAttribute[]): Buffer {
+  const ext = Buffer.concat([u32(0xffffffff), u32(name), u16(20), u16(20), u16(attributes.length), u16(0), u16(0), u16(0)]);
+  const encodedAttributes = attributes.map(attribute =>
+    Buffer.concat([
+      u32(0xffffffff),
+      u32(attribute.name),
+      u32(attribute.rawValue ?? 0xffffffff),
+      u16(8),
+      Buffer.from([0, attribute.dataType]),
+      u32(attribute.data),
+    ])
+  );
+  return chunk(0x0102, 16, Buffer.concat([u32(1), u32(0xffffffff), ext, ...encodedAttributes]));
+}
+
+function binaryXml(chunks: Buffer[]): Buffer {
+  return chunk(0x0003, 8, Buffer.concat(chunks));
+}
+
+// 0: versionCode 1: versionName 2: minSdkVersion 3: targetSdkVersion 4: package 5: manifest 6: uses-sdk 7: com.example.app 8: 1.2.3
+const MANIFEST_STRINGS = [
+  'versionCode',
+  'versionName',
+  'minSdkVersion',
+  'targetSdkVersion',
+  'package',
+  'manifest',
+  'uses-sdk',
+  'com.example.app',
+  '1.2.3',
+];
+
+function apkManifest(options: { utf8?: boolean; strings?: string[]; versionCode?: number } = {}): Buffer {
+  return binaryXml([
+    stringPool(options.strings ?? MANIFEST_STRINGS, options.utf8 ?? false),
+    resourceMap([VERSION_CODE_ID, VERSION_NAME_ID, MIN_SDK_ID, TARGET_SDK_ID]),
+    chunk(0x0100, 16, Buffer.alloc(16)),
+    startElement(5, [
+      { name: 0, dataType: 0x10, data: options.versionCode ?? 42 },
+      { name: 1, rawValue: 8, dataType: 0x03, data: 8 },
+      { name: 4, rawValue: 7, dataType: 0x03, data: 7 },
+    ]),
+    startElement(6, [
+      { name: 2, dataType: 0x11, data: 24 },
+      { name: 3, rawValue: 8, dataType: 0x12, data: 0 },
+    ]),
+  ]);
+}
+
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+  return Buffer.from(bytes);
+}
+
+function field(fieldNumber: number, value: Buffer | string | number): Buffer {
+  if (typeof value === 'number') {
+    return Buffer.concat([varint(fieldNumber * 8), varint(value)]);
+  }
+  const bytes = Buffer.isBuffer(value) ? value : Buffer.from(value, 'utf8');
+  return Buffer.concat([varint(fieldNumber * 8 + 2), varint(bytes.length), bytes]);
+}
+
+function protoAttribute(name: string, value: string, resourceId?: number, compiledInt?: number): Buffer {
+  return Buffer.concat([
+    field(1, ANDROID_NS),
+    field(2, name),
+    field(3, value),
+    resourceId === undefined ? Buffer.alloc(0) : field(5, resourceId),
+    compiledInt === undefined ? Buffer.alloc(0) : field(6, field(7, field(6, compiledInt))),
+  ]);
+}
+
+function protoElement(name: string, attributes: Buffer[], children: Buffer[] = []): Buffer {
+  return Buffer.concat([field(3, name), ...attributes.map(attribute => field(4, attribute)), ...children.map(child => field(5, child))]);
+}
+
+function protoNode(element: Buffer): Buffer {
+  return field(1, element);
+}
+
+function aabManifest(packageName = 'com.example.app', versionCode = 43): Buffer {
+  return protoNode(
+    protoElement(
+      'manifest',
+      [
+        protoAttribute('versionCode', String(versionCode), VERSION_CODE_ID, versionCode),
+        protoAttribute('versionName', '1.2.4', VERSION_NAME_ID),
+        protoAttribute('package', packageName),
+      ],
+      [
+        field(2, 'text node'),
+        protoNode(
+          protoElement('uses-sdk', [protoAttribute('minSdkVersion', '23', MIN_SDK_ID), protoAttribute('targetSdkVersion', '34', TARGET_SDK_ID, 34)])
+        ),
+      ]
+    )
+  );
+}
+
+describe('artifact metadata', () => {
+  let tempDir: string;
+
+  async function writeArtifact(fileName: string, entries: Record<string, Buffer>): Promise<string> {
+    const zip = new JSZip();
+    for (const [entryName, content] of Object.entries(entries)) {
+      zip.file(entryName, content);
+    }
+    const artifactPath = path.join(tempDir, fileName);
+    fs.writeFileSync(artifactPath, await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }));
+    return artifactPath;
+  }
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'artifact-metadata-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('readArtifactMetadata', () => {
+    test('reads the binary manifest of an APK', async () => {
+      const apk = await writeArtifact('app.apk', { 'AndroidManifest.xml': apkManifest() });
+
+      await expect(readArtifactMetadata(apk)).resolves.toEqual({
+        releaseFile: apk,
+        packageName: 'com.example.app',
+        versionCode: 42,
+        versionName: '1.2.3',
+        minSdk: 24,
+        targetSdk: undefined,
+      });
+    });
+
+    test('reads the protobuf manifest of an AAB', async () => {
+      const aab = await writeArtifact('app.aab', { 'base/manifest/AndroidManifest.xml': aabManifest() });
+
+      await expect(readArtifactMetadata(aab)).resolves.toEqual({
+        releaseFile: aab,
+        packageName: 'com.example.app',
+        versionCode: 43,
+        versionName: '1.2.4',
+        minSdk: 23,
+        targetSdk: 34,
+      });
+    });
+
+    test('leaves optional fields undefined when the manifest omits them', async () => {
+      const manifest = protoNode(protoElement('manifest', [protoAttribute('package', 'com.example.app'), protoAttribute('versionCode', '7')]));
+      const aab = await writeArtifact('app.aab', { 'base/manifest/AndroidManifest.xml': manifest });
+
+      await expect(readArtifactMetadata(aab)).resolves.toEqual({
+        releaseFile: aab,
+        packageName: 'com.example.app',
+        versionCode: 7,
+        versionName: undefined,
+        minSdk: undefined,
+        targetSdk: undefined,
+      });
+    });
+
+    test('rejects artifacts without a manifest', async () => {
+      const aab = await writeArtifact('app.aab', { 'AndroidManifest.xml': apkManifest() });
+
+      await expect(readArtifactMetadata(aab)).rejects.toThrow('Unable to read manifest from app.aab: base/manifest/AndroidManifest.xml not found');
+    });
+
+    test('rejects oversized manifests', async () => {
+      const apk = await writeArtifact('app.apk', { 'AndroidManifest.xml': Buffer.alloc(4 * 1024 * 1024 + 1) });
+
+      await expect(readArtifactMetadata(apk)).rejects.toThrow('AndroidManifest.xml is too large: 4194305 bytes exceeds 4194304');
+    });
+
+    test('rejects files that are not zip archives', async () => {
+      const apk = path.join(tempDir, 'broken.apk');
+      fs.writeFileSync(apk, 'not a zip');
+
+      await expect(readArtifactMetadata(apk)).rejects.toThrow('Unable to read manifest from broken.apk');
+    });
+
+    test.each([
+      [protoNode(protoElement('application', [])), 'manifest element not found'],
+      [protoNode(protoElement('manifest', [protoAttribute('versionCode', '1')])), 'manifest has no package attribute'],
+      [protoNode(protoElement('manifest', [protoAttribute('package', '')])), 'manifest has no package attribute'],
+      [protoNode(protoElement('manifest', [protoAttribute('package', 'com.example.app')])), 'manifest has no positive android:versionCode'],
+      [
+        protoNode(protoElement('manifest', [protoAttribute('package', 'com.example.app'), protoAttribute('versionCode', '0', VERSION_CODE_ID)])),
+        'manifest has no positive android:versionCode',
+      ],
+      [
+        protoNode(protoElement('manifest', [protoAttribute('package', 'com.example.app'), protoAttribute('versionCode', 'abc', VERSION_CODE_ID)])),
+        'manifest has no positive android:versionCode',
+      ],
+    ])('rejects incomplete manifests (%#)', async (manifest, message) => {
+      const aab = await writeArtifact('app.aab', { 'base/manifest/AndroidManifest.xml': manifest });
+
+      await expect(readArtifactMetadata(aab)).rejects.toThrow(message);
+    });
+  });
+
+  describe('preflightArtifactMetadata', () => {
+    test('returns metadata for every release file in order', async () => {
+      const apk = await writeArtifact('app.apk', { 'AndroidManifest.xml': apkManifest() });
+      const aab = await writeArtifact('app.aab', { 'base/manifest/AndroidManifest.xml': aabManifest() });
+
+      const metadata = await preflightArtifactMetadata('com.example.app', [apk, aab]);
+
+      expect(metadata.map(({ versionCode }) => versionCode)).toEqual([42, 43]);
+    });
+
+    test('rejects artifacts built for another package', async () => {
+      const aab = await writeArtifact('app.aab', { 'base/manifest/AndroidManifest.xml': aabManifest('com.other.app') });
+
+      await expect(preflightArtifactMetadata('com.example.app', [aab])).rejects.toThrow(
+        "app.aab is built for package com.other.app, but 'packageName' is com.example.app"
+      );
+    });
+
+    test('rejects version codes reused across release files', async () => {
+      const apk = await writeArtifact('app.apk', { 'AndroidManifest.xml': apkManifest({ versionCode: 43 }) });
+      const aab = await writeArtifact('app.aab', { 'base/manifest/AndroidManifest.xml': aabManifest() });
+
+      await expect(preflightArtifactMetadata('com.example.app', [apk, aab])).rejects.toThrow('versionCode 43 is used by both app.apk and app.aab');
+    });
+  });
+
+  describe('__testables.parseBinaryManifest', () => {
+    test('reads UTF-8 string pools with long strings', () => {
+      const longName = `com.example.${'a'.repeat(200)}`;
+      const strings = [...MANIFEST_STRINGS.slice(0, 7), longName, 'é'.repeat(130)];
+
+      const elements = __testables.parseBinaryManifest(apkManifest({ utf8: true, strings }));
+
+      expect(elements[0]).toEqual({
+        name: 'manifest',
+        attributes: { versionCode: 42, versionName: 'é'.repeat(130), package: longName },
+      });
+    });
+
+    test('reads UTF-16 string pools with long strings', () => {
+      const longName = `com.example.${'b'.repeat(0x8000)}`;
+      const strings = [...MANIFEST_STRINGS.slice(0, 7), longName, '1.2.3'];
+
+      const elements = __testables.parseBinaryManifest(apkManifest({ strings }));
+
+      expect(elements[0]?.attributes.package).toBe(longName);
+    });
+
+    test('skips attributes whose names cannot be resolved', () => {
+      const elements = __testables.parseBinaryManifest(
+        binaryXml([
+          stringPool(['package', 'com.example.app'], true),
+          startElement(9, [
+            { name: 0, rawValue: 1, dataType: 0x03, data: 1 },
+            { name: 9, dataType: 0x10, data: 1 },
+          ]),
+        ])
+      );
+
+      expect(elements).toEqual([{ name: '', attributes: { package: 'com.example.app' } }]);
+    });
+
+    test.each([
+      [Buffer.alloc(4), 'not a binary XML document'],
+      [chunk(0x0001, 8, Buffer.alloc(0)), 'not a binary XML document'],
+      [Buffer.concat([u16(0x0003), u16(8), u32(16), u16(0x0102), u16(16), u32(4)]), 'truncated binary XML chunk at offset 8'],
+      [Buffer.concat([u16(0x0003), u16(8), u32(16), u16(0x0102), u16(16), u32(64)]), 'truncated binary XML chunk at offset 8'],
+    ])('rejects malformed documents (%#)', (buffer, message) => {
+      expect(() => __testables.parseBinaryManifest(buffer)).toThrow(message);
+    });
+  });
+
+  describe('__testables.parseProtoManifest', () => {
+    test('ignores unknown fields and wire types it can skip', () => {
+      const fixed64 = Buffer.concat([varint(4 * 8 + 1), Buffer.alloc(8)]);
+      const fixed32 = Buffer.concat([varint(4 * 8 + 5), Buffer.alloc(4)]);
+      const element = Buffer.concat([
+        field(1, 7),
+        field(3, 7),
+        fixed64,
+        fixed32,
+        field(
+          4,
+          Buffer.concat([field(2, 7), field(3, 7), field(5, Buffer.from('x')), field(6, 7), field(2, 'package'), field(3, 'com.example.app')])
+        ),
+        field(4, Buffer.concat([field(2, 'versionCode'), field(6, Buffer.concat([field(1, 'ref'), field(7, 1), field(7, field(8, 1))]))])),
+        field(5, 7),
+      ]);
+
+      expect(__testables.parseProtoManifest(Buffer.concat([field(1, 7), field(1, element)]))).toEqual([
+        { name: '', attributes: { package: 'com.example.app', versionCode: undefined } },
+      ]);
+    });
+
+    test.each([
+      [Buffer.alloc(0), 'not a protobuf XML document'],
+      [Buffer.from([0x80]), 'truncated protobuf varint'],
+      [Buffer.from([0x0a, 0x05, 0x01]), 'truncated protobuf field'],
+      [Buffer.from([0x0b]), 'unsupported protobuf wire type 3'],
+    ])('rejects malformed documents (%#)', (buffer, message) => {
+      expect(() => __testables.parseProtoManifest(buffer)).toThrow(message);
+    });
+
+    test('decodes multi-byte varints', () => {
+      expect(__testables.readProtoFields(field(5, VERSION_CODE_ID))).toEqual([{ field: 5, value: VERSION_CODE_ID }]);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { mapWithConcurrency } from '../src/utils/concurrency';
+
+function deferred<T>() {
+  let resolve: (value: T) => void = () => undefined;
+  let reject: (reason: unknown) => void = () => undefined;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+async function flushPromises(): Promise<void> {
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+describe('mapWithConcurrency', () => {
+  test('returns results in input order regardless of completion order', async () => {
+    const tasks = [deferred<string>(), deferred<string>(), deferred<string>()];
+    const running = mapWithConcurrency(['a', 'b', 'c'], 3, async (_item, index) => tasks[index]!.promise);
+
+    tasks[2]!.resolve('third');
+    tasks[0]!.resolve('first');
+    tasks[1]!.resolve('second');
+
+    await expect(running).resolves.toEqual(['first', 'second', 'third']);
+  });
+
+  test('never runs more tasks than the concurrency limit', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await flushPromises();
+      active--;
+      return item * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(maxActive).toBe(2);
+  });
+
+  test('stops starting tasks after a failure and waits for running ones', async () => {
+    const tasks = [deferred<number>(), deferred<number>(), deferred<number>()];
+    const started: number[] = [];
+    const running = mapWithConcurrency([0, 1, 2], 2, async item => {
+      started.push(item);
+      return tasks[item]!.promise;
+    });
+    let settled = false;
+    running.catch(() => undefined).finally(() => (settled = true));
+
+    tasks[0]!.reject(new Error('first failed'));
+    await flushPromises();
+    expect(settled).toBe(false);
+
+    tasks[1]!.reject(new Error('second failed'));
+    await expect(running).rejects.toThrow('first failed');
+    expect(started).toEqual([0, 1]);
+  });
+
+  test('returns an empty list for no items', async () => {
+    const fn = jest.fn();
+
+    await expect(mapWithConcurrency([], 4, fn)).resolves.toEqual([]);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+jest.mock('../src/utils/logger', () => ({
+  d: jest.fn(),
+  w: jest.fn(),
+}));
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as logger from '../src/utils/logger';
+import { deobfuscationManifestKey, readDeobfuscationManifest } from '../src/deobfuscation-manifest';
+
+describe('readDeobfuscationManifest', () => {
+  let tempDir: string;
+
+  function writeManifest(content: unknown, fileName = 'manifest.json'): string {
+    const manifestPath = path.join(tempDir, fileName);
+    fs.writeFileSync(manifestPath, typeof content === 'string' ? content : JSON.stringify(content));
+    return manifestPath;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'deobfuscation-manifest-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('pairs every release file with its own mapping and debug symbols', async () => {
+    const manifestPath = writeManifest([
+      { releaseFile: './phone.aab', mappingFile: './phone/mapping.txt', debugSymbols: './phone/symbols.zip' },
+      { releaseFile: './wear.aab', mappingFile: './wear/mapping.txt' },
+    ]);
+
+    await expect(readDeobfuscationManifest(manifestPath, ['phone.aab', 'wear.aab'])).resolves.toEqual({
+      [deobfuscationManifestKey('phone.aab')]: { mappingFile: './phone/mapping.txt', debugSymbols: './phone/symbols.zip' },
+      [deobfuscationManifestKey('wear.aab')]: { mappingFile: './wear/mapping.txt', debugSymbols: undefined },
+    });
+  });
+
+  test('ignores entries that do not match any release file', async () => {
+    const manifestPath = writeManifest([
+      { releaseFile: 'phone.aab', mappingFile: 'mapping.txt' },
+      { releaseFile: 'tv.aab', debugSymbols: 'symbols' },
+    ]);
+
+    await expect(readDeobfuscationManifest(manifestPath, ['phone.aab'])).resolves.toEqual({
+      [deobfuscationManifestKey('phone.aab')]: { mappingFile: 'mapping.txt', debugSymbols: undefined },
+    });
+    expect(logger.w).toHaveBeenCalledWith('deobfuscationManifest entry for tv.aab does not match any release file; ignoring it');
+  });
+
+  test('fails when a release file has no pair', async () => {
+    const manifestPath = writeManifest([{ releaseFile: 'phone.aab', mappingFile: 'mapping.txt' }]);
+
+    await expect(readDeobfuscationManifest(manifestPath, ['phone.aab', 'build/wear.aab'])).rejects.toThrow(
+      'deobfuscationManifest has no entry for release file(s): wear.aab'
+    );
+  });
+
+  test('rejects duplicate release file entries', async () => {
+    const manifestPath = writeManifest([
+      { releaseFile: 'phone.aab', mappingFile: 'a.txt' },
+      { releaseFile: './phone.aab', mappingFile: 'b.txt' },
+    ]);
+
+    await expect(readDeobfuscationManifest(manifestPath, ['phone.aab'])).rejects.toThrow('deobfuscationManifest lists phone.aab more than once');
+  });
+
+  test.each([
+    ['{', 'deobfuscationManifest is not valid JSON'],
+    [{ releaseFile: 'phone.aab' }, 'deobfuscationManifest must be a JSON array of { releaseFile, mappingFile, debugSymbols } entries'],
+    [['phone.aab'], 'deobfuscationManifest entry #0 must be an object'],
+    [[null], 'deobfuscationManifest entry #0 must be an object'],
+    [[[]], 'deobfuscationManifest entry #0 must be an object'],
+    [[{ mappingFile: 'mapping.txt' }], "deobfuscationManifest entry #0 must have a non-empty 'releaseFile'"],
+    [[{ releaseFile: ' ', mappingFile: 'mapping.txt' }], "deobfuscationManifest entry #0 must have a non-empty 'releaseFile'"],
+    [[{ releaseFile: 'phone.aab', mappingFile: 1 }], "deobfuscationManifest entry #0 has an invalid 'mappingFile'"],
+    [[{ releaseFile: 'phone.aab', debugSymbols: '' }], "deobfuscationManifest entry #0 has an invalid 'debugSymbols'"],
+    [[{ releaseFile: 'phone.aab' }], "deobfuscationManifest entry #0 must set 'mappingFile' or 'debugSymbols'"],
+  ])('rejects malformed manifest %j', async (content, message) => {
+    const manifestPath = writeManifest(content);
+
+    await expect(readDeobfuscationManifest(manifestPath, ['phone.aab'])).rejects.toThrow(message);
+  });
+
+  test('only accepts .json manifest files', async () => {
+    const manifestPath = writeManifest([], 'manifest.yaml');
+
+    await expect(readDeobfuscationManifest(manifestPath, [])).rejects.toThrow('deobfuscationManifest must use one of these extensions: .json');
+  });
+});
@@ -1,18 +1,37 @@
 const mockAndroidPublisher = {
   edits: {
+    get: jest.fn(),
     delete: jest.fn(),
     commit: jest.fn(),
+    validate: jest.fn(),
     tracks: {
+      get: jest.fn(),
       list: jest.fn(),
       update: jest.fn(),
     },
+    listings: {
+      list: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    details: {
+      get: jest.fn(),
+      patch: jest.fn(),
+    },
+    images: {
+      list: jest.fn(),
+      deleteall: jest.fn(),
+      upload: jest.fn(),
+    },
     deobfuscationfiles: {
       upload: jest.fn(),
     },
     apks: {
+      list: jest.fn(),
       upload: jest.fn(),
     },
     bundles: {
+      list: jest.fn(),
       upload: jest.fn(),
     },
     insert: jest.fn(),
@@ -43,6 +62,14 @@ jest.mock('../src/whatsnew', () => ({
   readLocalizedReleaseNotes: jest.fn(),
 }));
 
+jest.mock('../src/artifact-metadata', () => ({
+  preflightArtifactMetadata: jest.fn(),
+}));
+
+jest.mock('../src/job-summary', () => ({
+  writeUploadSummary: jest.fn(),
+}));
+
 jest.mock('../src/utils/logger', () => ({
   d: jest.fn(),
   i: jest.fn(),
@@ -50,6 +77,26 @@ jest.mock('../src/utils/logger', () => ({
   e: jest.fn(),
 }));
 
+jest.mock('../src/run-state', () => ({
+  openRunState: jest.fn(),
+  saveRunState: jest.fn(),
+  removeRunState: jest.fn(),
+}));
+
+jest.mock('../src/utils/file-hash', () => ({
+  sha256File: jest.fn(),
+}));
+
+jest.mock('../src/utils/shutdown', () => ({
+  registerShutdownCleanup: jest.fn(),
+}));
+
+jest.mock('../src/resumable-upload', () => ({
+  ...jest.requireActual<object>('../src/resumable-upload'),
+  startResumableUpload: jest.fn(),
+  continueResumableUpload: jest.fn(),
+}));
+
 jest.mock('fs', () => ({
   __esModule: true,
   accessSync: jest.fn(),
@@ -64,8 +111,17 @@ jest.mock('fs', () => ({
 
 import * as core from '@actions/core';
 import * as fs from 'fs';
+import * as path from 'path';
+import * as logger from '../src/utils/logger';
 import { readLocalizedReleaseNotes } from '../src/whatsnew';
-import { __testables, EditOptions, runUpload } from '../src/edits';
+import { __testables, EditOptions, runCommit, runDiscard, runPromote, runPruneListingsPreview, runRollout, runUpload } from '../src/edits';
+import { deobfuscationManifestKey } from '../src/deobfuscation-manifest';
+import { preflightArtifactMetadata } from '../src/artifact-metadata';
+import { writeUploadSummary } from '../src/job-summary';
+import { sha256File } from '../src/utils/file-hash';
+import { registerShutdownCleanup } from '../src/utils/shutdown';
+import { openRunState, removeRunState, RunState, RunStateFile, saveRunState } from '../src/run-state';
+import { continueResumableUpload, RESUMABLE_UPLOAD_CHUNK_BYTES, startResumableUpload } from '../src/resumable-upload';
 
 type TrackUpdateRequest = {
   requestBody: {
@@ -88,6 +144,19 @@ function lastTrackUpdateRequest(): TrackUpdateRequest {
   return call[0];
 }
 
+// Play API 호출마다 중단 신호가 두 번째 인자로 전달됨
+const WITH_SIGNAL: { signal: unknown } = { signal: expect.any(AbortSignal) };
+
+// 테스트에서는 재시도 사이에 실제로 대기하지 않음
+const NO_DELAY_RETRY_POLICY = { maxAttempts: 3, baseDelayMs: 0 };
+
+function runState(state: Partial<RunState> = {}): RunStateFile {
+  return {
+    path: '/tmp/upload-state.json',
+    state: { packageName: 'com.example.app', track: 'production', artifacts: {}, trackUpdated: false, ...state },
+  };
+}
+
 function options(overrides: Partial<EditOptions> = {}): EditOptions {
   return {
     auth: { auth: true } as never,
@@ -95,6 +164,7 @@ function options(overrides: Partial<EditOptions> = {}): EditOptions {
     track: 'production',
     inAppUpdatePriority: 3,
     status: 'completed',
+    retryPolicy: NO_DELAY_RETRY_POLICY,
     ...overrides,
   };
 }
@@ -112,6 +182,30 @@ describe('edits module', () => {
       statusText: 'OK',
       data: { tracks: [{ track: 'production' }, { track: 'internal' }] },
     });
+    mockAndroidPublisher.edits.tracks.get.mockImplementation(({ track }: { track: string }) =>
+      Promise.resolve({
+        status: 200,
+        statusText: 'OK',
+        data:
+          track === 'internal'
+            ? {
+                track,
+                releases: [
+                  { name: 'older', status: 'completed', versionCodes: ['99'] },
+                  {
+                    name: '1.0.1',
+                    status: 'completed',
+                    inAppUpdatePriority: 2,
+                    releaseNotes: [{ language: 'en-US', text: 'fixes' }],
+                    versionCodes: ['101', '102'],
+                  },
+                ],
+              }
+            : { track },
+      })
+    );
+    mockAndroidPublisher.edits.apks.list.mockResolvedValue({ status: 200, statusText: 'OK', data: { apks: [{ versionCode: 101 }] } });
+    mockAndroidPublisher.edits.bundles.list.mockResolvedValue({ status: 200, statusText: 'OK', data: { bundles: [{ versionCode: 202 }] } });
     mockAndroidPublisher.edits.apks.upload.mockResolvedValue({ data: { versionCode: 101 } });
     mockAndroidPublisher.edits.bundles.upload.mockResolvedValue({ data: { versionCode: 202 } });
     mockAndroidPublisher.edits.tracks.update.mockResolvedValue({
@@ -120,10 +214,16 @@ describe('edits module', () => {
       data: { track: 'production', releases: [{ versionCodes: ['101', '102', '201', '202'] }] },
     });
     mockAndroidPublisher.edits.commit.mockResolvedValue({ data: { id: 'edit-1' }, status: 200, statusText: 'OK' });
+    mockAndroidPublisher.edits.validate.mockResolvedValue({ data: { id: 'new-edit' }, status: 200, statusText: 'OK' });
     mockAndroidPublisher.edits.insert.mockResolvedValue({ data: { id: 'new-edit' } });
+    mockAndroidPublisher.edits.get.mockImplementation(({ editId }: { editId: string }) =>
+      Promise.resolve({ status: 200, statusText: 'OK', data: { id: editId, expiryTimeSeconds: '4102444800' } })
+    );
     mockAndroidPublisher.edits.delete.mockResolvedValue({});
     mockAndroidPublisher.edits.deobfuscationfiles.upload.mockResolvedValue({});
+    (sha256File as jest.Mock).mockResolvedValue('local-sha256');
     (readLocalizedReleaseNotes as jest.Mock).mockResolvedValue([{ language: 'en-US', text: 'notes' }]);
+    (preflightArtifactMetadata as jest.Mock).mockResolvedValue([]);
     (fs.accessSync as jest.Mock).mockReturnValue(undefined);
     (fs.readFileSync as jest.Mock).mockReturnValue(Buffer.from('file'));
     (fs.realpathSync as unknown as jest.Mock).mockImplementation((filePath: string) => filePath);
@@ -141,7 +241,10 @@ describe('edits module', () => {
     logSpy.mockRestore();
   });
 
-  test('runUpload logs completed edit id when commit succeeds', async () => {
+  test('runUpload opens the state file for the package and track', async () => {
+    const state = runState();
+    (openRunState as jest.Mock).mockReturnValue(state);
+
     await runUpload({
       packageName: 'com.example.app',
       track: 'production',
@@ -156,12 +259,86 @@ describe('edits module', () => {
       status: 'completed',
       releaseFiles: ['app.aab'],
       releaseNotes: undefined,
+      listings: undefined,
+      images: undefined,
+      appDetails: undefined,
+      pruneListings: false,
+      existingDrafts: 'replace',
+      retainedVersionCodes: undefined,
+      deobfuscationFiles: undefined,
+      releaseNameTemplate: undefined,
+      validateOnly: false,
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+      uploadConcurrency: 1,
+      stateFile: './upload-state.json',
+      commit: true,
+      changesNotSentForReviewFallback: false,
+    });
+
+    expect(openRunState).toHaveBeenCalledWith('./upload-state.json', 'com.example.app', 'production');
+    expect(removeRunState).toHaveBeenCalledWith(state);
+  });
+
+  test('runUpload sets release outputs and logs completed edit id when commit succeeds', async () => {
+    await runUpload({
+      packageName: 'com.example.app',
+      track: 'production',
+      inAppUpdatePriority: 3,
+      userFraction: undefined,
+      whatsNewDir: undefined,
+      mappingFile: undefined,
+      debugSymbols: undefined,
+      name: undefined,
+      changesNotSentForReview: false,
+      existingEditId: undefined,
+      status: 'completed',
+      releaseFiles: ['app.aab'],
+      releaseNotes: undefined,
+      listings: undefined,
+      images: undefined,
+      appDetails: undefined,
+      pruneListings: false,
+      existingDrafts: 'replace',
+      retainedVersionCodes: undefined,
+      deobfuscationFiles: undefined,
+      releaseNameTemplate: undefined,
+      validateOnly: false,
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+      uploadConcurrency: 1,
+      stateFile: undefined,
+      commit: true,
+      changesNotSentForReviewFallback: false,
     });
 
     expect(googleAuthCtor).toHaveBeenCalledWith({
       scopes: ['https://www.googleapis.com/auth/androidpublisher'],
     });
+    expect(core.setOutput).toHaveBeenCalledWith('editId', 'edit-1');
+    expect(core.setOutput).toHaveBeenCalledWith('versionCodes', '["101","102","201","202"]');
+    expect(core.setOutput).toHaveBeenCalledWith('track', 'production');
+    expect(core.setOutput).toHaveBeenCalledWith('releaseStatus', undefined);
+    expect(core.setOutput).toHaveBeenCalledWith('userFraction', undefined);
+    expect(core.setOutput).toHaveBeenCalledWith('reusedVersionCodes', '[]');
+    expect(core.setOutput).toHaveBeenCalledWith('changesNotSentForReviewFallback', false);
     expect(logSpy).toHaveBeenCalledWith('Finished uploading to the Play Store: edit-1');
+    expect(writeUploadSummary).toHaveBeenCalledWith({
+      packageName: 'com.example.app',
+      track: 'production',
+      releaseFiles: ['app.aab'],
+      validateOnly: false,
+      uncommitted: false,
+      kind: 'edit',
+      editId: 'edit-1',
+      release: { status: undefined, userFraction: undefined, versionCodes: ['101', '102', '201', '202'] },
+      releaseNoteLocales: [],
+      downloadUrls: ['https://play.google.com/apps/test/com.example.app/202'],
+      reusedVersionCodes: [],
+      changesNotSentForReviewFallback: false,
+    });
   });
 
   test('runUpload handles internalsharing track without final edit id log', async () => {
@@ -179,10 +356,121 @@ describe('edits module', () => {
       status: 'completed',
       releaseFiles: ['artifact.apk', 'artifact.aab'],
       releaseNotes: undefined,
+      listings: undefined,
+      images: undefined,
+      appDetails: undefined,
+      pruneListings: false,
+      existingDrafts: 'replace',
+      retainedVersionCodes: undefined,
+      deobfuscationFiles: undefined,
+      releaseNameTemplate: undefined,
+      validateOnly: false,
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+      uploadConcurrency: 1,
+      stateFile: undefined,
+      commit: true,
+      changesNotSentForReviewFallback: false,
     });
 
     expect(core.setOutput).toHaveBeenCalledWith('internalSharingDownloadUrls', '["https://download/apk","https://download/aab"]');
     expect(core.exportVariable).toHaveBeenCalledWith('INTERNAL_SHARING_DOWNLOAD_URLS', '["https://download/apk","https://download/aab"]');
+    expect(writeUploadSummary).toHaveBeenCalledWith({
+      packageName: 'com.example.app',
+      track: 'internalsharing',
+      releaseFiles: ['artifact.apk', 'artifact.aab'],
+      validateOnly: false,
+      uncommitted: false,
+      kind: 'internalsharing',
+      downloadUrls: ['https://download/apk', 'https://download/aab'],
+    });
+  });
+
+  test('runUpload names the release from the artifact metadata template', async () => {
+    (preflightArtifactMetadata as jest.Mock).mockResolvedValue([
+      { releaseFile: 'app.aab', packageName: 'com.example.app', versionCode: 202, versionName: '2.0.2' },
+    ]);
+
+    await runUpload({
+      packageName: 'com.example.app',
+      track: 'production',
+      inAppUpdatePriority: undefined,
+      userFraction: undefined,
+      whatsNewDir: undefined,
+      mappingFile: undefined,
+      debugSymbols: undefined,
+      name: undefined,
+      changesNotSentForReview: false,
+      existingEditId: undefined,
+      status: 'completed',
+      releaseFiles: ['app.aab'],
+      releaseNotes: undefined,
+      listings: undefined,
+      images: undefined,
+      appDetails: undefined,
+      pruneListings: false,
+      existingDrafts: 'replace',
+      retainedVersionCodes: undefined,
+      deobfuscationFiles: undefined,
+      releaseNameTemplate: '{versionName} ({versionCode})',
+      validateOnly: false,
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+      uploadConcurrency: 1,
+      stateFile: undefined,
+      commit: true,
+      changesNotSentForReviewFallback: false,
+    });
+
+    expect(lastTrackUpdateRequest().requestBody.releases).toMatchObject([{ name: '2.0.2 (202)' }]);
+  });
+
+  test('runUpload validates and deletes the edit instead of committing in validate-only mode', async () => {
+    await runUpload({
+      packageName: 'com.example.app',
+      track: 'production',
+      inAppUpdatePriority: undefined,
+      userFraction: undefined,
+      whatsNewDir: undefined,
+      mappingFile: undefined,
+      debugSymbols: undefined,
+      name: undefined,
+      changesNotSentForReview: false,
+      existingEditId: undefined,
+      status: 'completed',
+      releaseFiles: ['app.aab'],
+      releaseNotes: undefined,
+      listings: undefined,
+      images: undefined,
+      appDetails: undefined,
+      pruneListings: false,
+      existingDrafts: 'replace',
+      retainedVersionCodes: undefined,
+      deobfuscationFiles: undefined,
+      releaseNameTemplate: undefined,
+      validateOnly: true,
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+      uploadConcurrency: 1,
+      stateFile: undefined,
+      commit: true,
+      changesNotSentForReviewFallback: false,
+    });
+
+    expect(mockAndroidPublisher.edits.validate).toHaveBeenCalledWith(
+      expect.objectContaining({ editId: 'new-edit', packageName: 'com.example.app' }),
+      WITH_SIGNAL
+    );
+    expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+    expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+    expect(logger.i).toHaveBeenCalledWith("Validated changes for track 'production' (not committed):");
+    expect(logger.i).toHaveBeenCalledWith('  <unnamed> status=undefined versionCodes=101,102,201,202 userFraction=none');
+    expect(core.setOutput).not.toHaveBeenCalledWith('editId', expect.anything());
+    expect(writeUploadSummary).toHaveBeenCalledWith(expect.objectContaining({ validateOnly: true, editId: 'new-edit' }));
+    expect(logSpy).toHaveBeenCalledWith('Finished validating the upload without committing: new-edit');
   });
 
   test('runUpload defaults inAppUpdatePriority to zero when undefined', async () => {
@@ -200,11 +488,397 @@ describe('edits module', () => {
       status: 'completed',
       releaseFiles: ['app.aab'],
       releaseNotes: undefined,
+      listings: undefined,
+      images: undefined,
+      appDetails: undefined,
+      pruneListings: false,
+      existingDrafts: 'replace',
+      retainedVersionCodes: undefined,
+      deobfuscationFiles: undefined,
+      releaseNameTemplate: undefined,
+      validateOnly: false,
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+      uploadConcurrency: 1,
+      stateFile: undefined,
+      commit: true,
+      changesNotSentForReviewFallback: false,
     });
 
     expect(lastTrackUpdateRequest().requestBody.releases).toMatchObject([{ inAppUpdatePriority: 0 }]);
   });
 
+  test('runUpload leaves the edit open and reports its id when commit is false', async () => {
+    await runUpload({
+      packageName: 'com.example.app',
+      track: 'production',
+      inAppUpdatePriority: undefined,
+      userFraction: undefined,
+      whatsNewDir: undefined,
+      mappingFile: undefined,
+      debugSymbols: undefined,
+      name: undefined,
+      changesNotSentForReview: false,
+      existingEditId: 'shared-edit',
+      status: 'completed',
+      releaseFiles: ['app.aab'],
+      releaseNotes: undefined,
+      listings: undefined,
+      images: undefined,
+      appDetails: undefined,
+      pruneListings: false,
+      existingDrafts: 'replace',
+      retainedVersionCodes: undefined,
+      deobfuscationFiles: undefined,
+      releaseNameTemplate: undefined,
+      validateOnly: false,
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+      uploadConcurrency: 1,
+      stateFile: undefined,
+      commit: false,
+      changesNotSentForReviewFallback: false,
+    });
+
+    expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+    expect(mockAndroidPublisher.edits.delete).not.toHaveBeenCalled();
+    expect(core.setOutput).toHaveBeenCalledWith('editId', 'shared-edit');
+    expect(logger.i).toHaveBeenCalledWith(
+      "Leaving edit shared-edit open without committing; commit it with type 'commit' or discard it with type 'discard'"
+    );
+    expect(writeUploadSummary).toHaveBeenCalledWith(expect.objectContaining({ uncommitted: true, editId: 'shared-edit' }));
+    expect(logSpy).toHaveBeenCalledWith('Finished uploading without committing edit shared-edit');
+  });
+
+  test('runPruneListingsPreview lists the store listings to prune in a temporary edit and deletes it', async () => {
+    const previewOptions = {
+      packageName: 'com.example.app',
+      listings: [{ language: 'en-US', title: 'App', shortDescription: 'Short', fullDescription: 'Full' }],
+      existingEditId: undefined,
+      retryPolicy: { maxAttempts: 1, baseDelayMs: 0 },
+      apiCallTimeoutMs: 1000,
+      signal: new AbortController().signal,
+    };
+    mockAndroidPublisher.edits.listings.list.mockResolvedValueOnce({
+      status: 200,
+      data: { listings: [{ language: 'en-US' }, { language: 'fr-FR' }] },
+    });
+    mockAndroidPublisher.edits.details.get.mockResolvedValueOnce({ status: 200, data: { defaultLanguage: 'en-US' } });
+    const unregister = jest.fn();
+    (registerShutdownCleanup as jest.Mock).mockReturnValueOnce(unregister);
+
+    await runPruneListingsPreview(previewOptions);
+
+    expect(logger.i).toHaveBeenCalledWith('Would delete store listings for: fr-FR');
+    expect(mockAndroidPublisher.edits.listings.delete).not.toHaveBeenCalled();
+    expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+    expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+    expect(registerShutdownCleanup).toHaveBeenCalledWith('delete edit new-edit', expect.any(Function));
+    expect(unregister).toHaveBeenCalledTimes(1);
+    const [[, cleanup]] = (registerShutdownCleanup as jest.Mock).mock.calls as [[string, () => Promise<void>]];
+    await cleanup();
+    expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledTimes(2);
+
+    jest.clearAllMocks();
+    mockAndroidPublisher.edits.listings.list.mockResolvedValueOnce({ status: 200, data: { listings: [{ language: 'en-US' }] } });
+
+    await runPruneListingsPreview({ ...previewOptions, existingEditId: 'shared-edit' });
+
+    expect(logger.i).toHaveBeenCalledWith('No store listings to prune');
+    expect(mockAndroidPublisher.edits.listings.list).toHaveBeenCalledWith(expect.objectContaining({ editId: 'shared-edit' }), WITH_SIGNAL);
+    expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+    expect(mockAndroidPublisher.edits.delete).not.toHaveBeenCalled();
+    expect(registerShutdownCleanup).not.toHaveBeenCalled();
+  });
+
+  test('runCommit checks and commits the given edit', async () => {
+    await runCommit({
+      packageName: 'com.example.app',
+      editId: 'shared-edit',
+      changesNotSentForReview: true,
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+    });
+
+    expect(mockAndroidPublisher.edits.get).toHaveBeenCalledWith(expect.objectContaining({ editId: 'shared-edit' }), WITH_SIGNAL);
+    expect(mockAndroidPublisher.edits.commit).toHaveBeenCalledWith(
+      { auth: { googleAuth: true }, editId: 'shared-edit', packageName: 'com.example.app', changesNotSentForReview: true },
+      WITH_SIGNAL
+    );
+    expect(core.setOutput).toHaveBeenCalledWith('editId', 'edit-1');
+    expect(logSpy).toHaveBeenCalledWith('Finished committing edit: edit-1');
+  });
+
+  test('runCommit fails before committing an edit that does not exist', async () => {
+    mockAndroidPublisher.edits.get.mockRejectedValueOnce(Object.assign(new Error('Edit not found'), { code: 404 }));
+
+    await expect(
+      runCommit({
+        packageName: 'com.example.app',
+        editId: 'missing-edit',
+        changesNotSentForReview: false,
+        retryPolicy: NO_DELAY_RETRY_POLICY,
+        apiCallTimeoutMs: 600000,
+        signal: new AbortController().signal,
+      })
+    ).rejects.toThrow('existingEditId missing-edit was not found');
+    expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+  });
+
+  test('runDiscard deletes the given edit and reports failures', async () => {
+    const discardOptions = {
+      packageName: 'com.example.app',
+      editId: 'shared-edit',
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+    };
+
+    await runDiscard(discardOptions);
+
+    expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(
+      { auth: { googleAuth: true }, editId: 'shared-edit', packageName: 'com.example.app' },
+      WITH_SIGNAL
+    );
+    expect(logSpy).toHaveBeenCalledWith('Finished discarding edit: shared-edit');
+
+    mockAndroidPublisher.edits.delete.mockRejectedValueOnce(Object.assign(new Error('Forbidden'), { code: 403 }));
+    await expect(runDiscard(discardOptions)).rejects.toThrow('edits.delete failed (packageName=com.example.app, editId=shared-edit): Forbidden');
+  });
+
+  test('runPromote logs completed edit id when commit succeeds', async () => {
+    await runPromote({
+      packageName: 'com.example.app',
+      fromTrack: 'internal',
+      track: 'production',
+      userFraction: undefined,
+      name: undefined,
+      changesNotSentForReview: false,
+      existingEditId: undefined,
+      status: 'completed',
+      existingDrafts: 'replace',
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+    });
+
+    expect(mockAndroidPublisher.edits.tracks.get).toHaveBeenCalledWith(
+      expect.objectContaining({ editId: 'new-edit', track: 'internal' }),
+      WITH_SIGNAL
+    );
+    expect(logSpy).toHaveBeenCalledWith('Finished promoting internal release to production: edit-1');
+  });
+
+  describe('__testables.promoteRelease', () => {
+    test('copies version codes, notes and name from the highest source release', async () => {
+      await expect(__testables.promoteRelease(options({ status: 'inProgress', userFraction: 0.2 }), 'internal')).resolves.toBe('edit-1');
+
+      expect(mockAndroidPublisher.edits.tracks.list).toHaveBeenCalledTimes(2);
+      expect(readLocalizedReleaseNotes).not.toHaveBeenCalled();
+      expect(lastTrackUpdateRequest().requestBody.releases).toEqual([
+        {
+          name: '1.0.1',
+          userFraction: 0.2,
+          status: 'inProgress',
+          inAppUpdatePriority: 2,
+          releaseNotes: [{ language: 'en-US', text: 'fixes' }],
+          versionCodes: ['101', '102'],
+        },
+      ]);
+    });
+
+    test('prefers an explicit release name and keeps defaults when the source omits optional fields', async () => {
+      mockAndroidPublisher.edits.tracks.get.mockResolvedValueOnce({
+        status: 200,
+        data: { track: 'internal', releases: [{ status: 'draft', versionCodes: ['101'] }] },
+      });
+
+      await __testables.promoteRelease(options({ name: 'Promoted' }), 'internal');
+
+      expect(lastTrackUpdateRequest().requestBody.releases).toMatchObject([
+        { name: 'Promoted', inAppUpdatePriority: 3, releaseNotes: [], versionCodes: ['101'] },
+      ]);
+    });
+
+    test('leaves the release name unset when neither the input nor the source provides one', async () => {
+      mockAndroidPublisher.edits.tracks.get.mockResolvedValueOnce({
+        status: 200,
+        data: { track: 'internal', releases: [{ name: null, status: 'completed', versionCodes: ['101'] }] },
+      });
+
+      await __testables.promoteRelease(options(), 'internal');
+
+      expect(lastTrackUpdateRequest().requestBody.releases[0]).toHaveProperty('name', undefined);
+    });
+
+    test('rejects promoting to the same track before opening an edit', async () => {
+      await expect(__testables.promoteRelease(options(), 'production')).rejects.toThrow(
+        "'fromTrack' and 'track' must be different tracks. Got production"
+      );
+      expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+    });
+
+    test.each([
+      ['internalsharing', 'production'],
+      ['internal', 'internalsharing'],
+    ])('rejects internal sharing as a promotion track (%s -> %s)', async (fromTrack, track) => {
+      await expect(__testables.promoteRelease(options({ track }), fromTrack)).rejects.toThrow(
+        'Internal app sharing artifacts cannot be promoted'
+      );
+    });
+
+    test('cleans up the new edit when the source track has no releases', async () => {
+      mockAndroidPublisher.edits.tracks.get.mockResolvedValueOnce({ status: 200, data: { track: 'internal' } });
+
+      await expect(__testables.promoteRelease(options(), 'internal')).rejects.toThrow(
+        'Track "internal" has no release with versionCodes to promote (packageName=com.example.app, editId=new-edit)'
+      );
+      expect(mockAndroidPublisher.edits.tracks.update).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+    });
+  });
+
+  test('runRollout exposes before and after rollout state', async () => {
+    mockAndroidPublisher.edits.tracks.get.mockResolvedValueOnce({
+      status: 200,
+      data: { track: 'production', releases: [{ status: 'inProgress', userFraction: 0.1, versionCodes: ['101'] }] },
+    });
+
+    await runRollout({
+      packageName: 'com.example.app',
+      track: 'production',
+      userFraction: 0.5,
+      status: 'inProgress',
+      force: false,
+      changesNotSentForReview: false,
+      existingEditId: undefined,
+      retryPolicy: NO_DELAY_RETRY_POLICY,
+      apiCallTimeoutMs: 600000,
+      signal: new AbortController().signal,
+    });
+
+    expect(core.setOutput).toHaveBeenCalledWith('rolloutBefore', '{"status":"inProgress","userFraction":0.1,"versionCodes":["101"]}');
+    expect(core.setOutput).toHaveBeenCalledWith('rolloutAfter', '{"status":"inProgress","userFraction":0.5,"versionCodes":["101"]}');
+    expect(logSpy).toHaveBeenCalledWith('Finished updating the rollout on production: edit-1');
+  });
+
+  describe('__testables.updateRollout', () => {
+    function stagedTrack(releases: unknown[]) {
+      mockAndroidPublisher.edits.tracks.get.mockResolvedValueOnce({ status: 200, data: { track: 'production', releases } });
+    }
+
+    test('advances the staged release and keeps other releases on the track', async () => {
+      const completed = { name: '1.0.0', status: 'completed', versionCodes: ['100'] };
+      stagedTrack([completed, { name: '1.0.1', status: 'inProgress', userFraction: 0.1, versionCodes: ['101'] }]);
+
+      const result = await __testables.updateRollout(options({ status: 'inProgress', userFraction: 0.2 }), false);
+
+      expect(result.editId).toBe('edit-1');
+      expect(lastTrackUpdateRequest().requestBody.releases).toEqual([
+        completed,
+        { name: '1.0.1', status: 'inProgress', userFraction: 0.2, versionCodes: ['101'] },
+      ]);
+    });
+
+    test('halts a staged release while keeping its current fraction', async () => {
+      stagedTrack([{ status: 'inProgress', userFraction: 0.3 }]);
+
+      const result = await __testables.updateRollout(options({ status: 'halted' }), false);
+
+      expect(result.after).toEqual({ status: 'halted', userFraction: 0.3, versionCodes: [] });
+    });
+
+    test('completes a halted release and replaces the previous completed release', async () => {
+      stagedTrack([
+        { status: 'completed', versionCodes: ['100'] },
+        { status: 'halted', userFraction: 0.3, versionCodes: ['101'] },
+      ]);
+
+      const result = await __testables.updateRollout(options({ status: 'completed', userFraction: 0.5 }), false);
+
+      expect(result.before).toEqual({ status: 'halted', userFraction: 0.3, versionCodes: ['101'] });
+      expect(lastTrackUpdateRequest().requestBody.releases).toEqual([{ status: 'completed', userFraction: undefined, versionCodes: ['101'] }]);
+    });
+
+    test('rejects lowering the fraction unless forced', async () => {
+      stagedTrack([{ status: 'inProgress', userFraction: 0.5, versionCodes: ['101'] }]);
+
+      await expect(__testables.updateRollout(options({ status: 'inProgress', userFraction: 0.2 }), false)).rejects.toThrow(
+        "'userFraction' can only increase (current=0.5, requested=0.2). Set 'forceRollout' to lower it."
+      );
+      expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalled();
+
+      stagedTrack([{ status: 'inProgress', userFraction: 0.5, versionCodes: ['101'] }]);
+      await expect(__testables.updateRollout(options({ status: 'inProgress', userFraction: 0.2 }), true)).resolves.toMatchObject({
+        after: { userFraction: 0.2 },
+      });
+    });
+
+    test('rejects staged statuses when neither the input nor the release has a fraction', async () => {
+      stagedTrack([{ status: 'halted', userFraction: null }]);
+
+      await expect(__testables.updateRollout(options({ status: 'inProgress' }), false)).rejects.toThrow(
+        "Status 'inProgress' requires a 'userFraction' to be set"
+      );
+    });
+
+    test('rejects tracks without a staged release', async () => {
+      stagedTrack([{ status: 'completed', versionCodes: ['100'] }]);
+
+      await expect(__testables.updateRollout(options({ status: 'completed' }), false)).rejects.toThrow(
+        'Track "production" has no inProgress or halted release to update (packageName=com.example.app, editId=new-edit)'
+      );
+    });
+
+    test('rejects tracks without releases', async () => {
+      stagedTrack(undefined as never);
+
+      await expect(__testables.updateRollout(options({ status: 'completed' }), false)).rejects.toThrow('has no inProgress or halted release');
+    });
+
+    test('rejects internal sharing before opening an edit', async () => {
+      await expect(__testables.updateRollout(options({ track: 'internalsharing' }), false)).rejects.toThrow(
+        'Internal app sharing has no staged rollouts to update'
+      );
+      expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('__testables.assertRolloutTransition', () => {
+    test('rejects moving a staged release back to draft', () => {
+      expect(() => __testables.assertRolloutTransition({ status: 'halted' }, 'draft', undefined, true)).toThrow(
+        'A halted release cannot be moved back to draft'
+      );
+    });
+
+    test('accepts any fraction when the current release has none', () => {
+      expect(() => __testables.assertRolloutTransition({ status: 'halted', userFraction: null }, 'inProgress', 0.01, false)).not.toThrow();
+    });
+  });
+
+  describe('__testables.getPromotableRelease', () => {
+    test('ignores releases without version codes', async () => {
+      mockAndroidPublisher.edits.tracks.get.mockResolvedValueOnce({
+        status: 200,
+        data: { track: 'internal', releases: [{ name: 'empty', status: 'draft' }, { name: 'real', status: 'completed', versionCodes: ['7'] }] },
+      });
+
+      await expect(__testables.getPromotableRelease('edit-1', options(), 'internal')).resolves.toMatchObject({ name: 'real' });
+    });
+
+    test('wraps tracks.get failures with context', async () => {
+      mockAndroidPublisher.edits.tracks.get.mockResolvedValueOnce({ status: 404, statusText: 'Not Found' });
+
+      await expect(__testables.getPromotableRelease('edit-1', options(), 'internal')).rejects.toThrow(
+        'tracks.get failed (packageName=com.example.app, editId=edit-1, track=internal, status=404, statusText=Not Found)'
+      );
+    });
+  });
+
   describe('__testables.uploadToPlayStore', () => {
     test('rejects when commit response has no edit id', async () => {
       mockAndroidPublisher.edits.commit.mockResolvedValueOnce({ data: {}, status: 500, statusText: 'FAIL' });
@@ -217,46 +891,638 @@ describe('edits module', () => {
         expect.objectContaining({
           editId: 'new-edit',
           packageName: 'com.example.app',
-        })
+        }),
+        WITH_SIGNAL
+      );
+    });
+
+    test('logs cleanup failure when deleting a new edit fails', async () => {
+      mockAndroidPublisher.edits.commit.mockResolvedValueOnce({ data: {}, status: 500, statusText: 'FAIL' });
+      mockAndroidPublisher.edits.delete.mockRejectedValue(new Error('delete unavailable'));
+
+      await expect(__testables.uploadToPlayStore(options(), ['app.aab'])).rejects.toThrow('edits.commit failed');
+      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalled();
+    });
+
+    test('rejects successful commit responses that omit the edit id', async () => {
+      mockAndroidPublisher.edits.commit.mockResolvedValueOnce({ data: {}, status: 200, statusText: 'OK' });
+
+      await expect(__testables.uploadToPlayStore(options(), ['app.aab'])).rejects.toThrow(
+        'Commit response missing edit id (packageName=com.example.app, editId=new-edit, track=production, status=200, statusText=OK)'
+      );
+      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalled();
+    });
+
+    test('does not delete caller-owned existing edit on failure', async () => {
+      mockAndroidPublisher.edits.tracks.list.mockResolvedValueOnce({ status: 404, statusText: 'Not Found', data: {} });
+
+      await expect(__testables.uploadToPlayStore(options({ existingEditId: 'caller-edit' }), ['app.aab'])).rejects.toThrow(
+        'Failed to list tracks'
+      );
+      expect(mockAndroidPublisher.edits.delete).not.toHaveBeenCalled();
+    });
+
+    test('deletes the new edit on shutdown signals until the edit is finished', async () => {
+      const unregister = jest.fn();
+      (registerShutdownCleanup as jest.Mock).mockReturnValueOnce(unregister);
+
+      await __testables.uploadToPlayStore(options(), ['app.aab']);
+
+      expect(registerShutdownCleanup).toHaveBeenCalledWith('delete edit new-edit', expect.any(Function));
+      expect(unregister).toHaveBeenCalledTimes(1);
+      const [[, cleanup]] = (registerShutdownCleanup as jest.Mock).mock.calls as [[string, () => Promise<void>]];
+      await cleanup();
+      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+    });
+
+    test.each([
+      ['caller-owned', { existingEditId: 'caller-edit' }],
+      ['resumable', { runState: runState() }],
+    ])('does not delete %s edits on shutdown signals', async (_case, overrides) => {
+      await __testables.uploadToPlayStore(options(overrides), ['app.aab']);
+
+      expect(registerShutdownCleanup).not.toHaveBeenCalled();
+    });
+
+    test('checks artifact metadata against the package name before creating an edit', async () => {
+      (preflightArtifactMetadata as jest.Mock).mockRejectedValueOnce(new Error('versionCode 101 is used by both one.apk and two.aab'));
+
+      await expect(__testables.uploadToPlayStore(options(), ['one.apk', 'two.aab'])).rejects.toThrow(
+        'versionCode 101 is used by both one.apk and two.aab'
+      );
+      expect(preflightArtifactMetadata).toHaveBeenCalledWith('com.example.app', [
+        expect.stringMatching(/one\.apk$/),
+        expect.stringMatching(/two\.aab$/),
+      ]);
+      expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+    });
+
+    test('reports staged rollout fractions in validate-only mode', async () => {
+      mockAndroidPublisher.edits.tracks.update.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        data: {
+          track: 'production',
+          releases: [
+            {
+              name: 'v1',
+              status: 'inProgress',
+              versionCodes: ['202'],
+              userFraction: 0.1,
+              releaseNotes: [{ language: 'en-US', text: 'notes' }, { text: 'no language' }],
+            },
+          ],
+        },
+      });
+
+      await expect(__testables.uploadToPlayStore(options({ validateOnly: true }), ['app.aab'])).resolves.toEqual({
+        kind: 'edit',
+        editId: 'new-edit',
+        release: { status: 'inProgress', userFraction: 0.1, versionCodes: ['202'] },
+        releaseNoteLocales: ['en-US'],
+        downloadUrls: ['https://play.google.com/apps/test/com.example.app/202'],
+        reusedVersionCodes: [],
+        changesNotSentForReviewFallback: false,
+      });
+      expect(logger.i).toHaveBeenCalledWith('  v1 status=inProgress versionCodes=202 userFraction=0.1');
+    });
+
+    test('deletes the edit when server-side validation fails', async () => {
+      mockAndroidPublisher.edits.validate.mockRejectedValue(
+        Object.assign(new Error('APK specifies a version code that has already been used.'), { code: 403 })
+      );
+
+      await expect(__testables.uploadToPlayStore(options({ validateOnly: true }), ['app.aab'])).rejects.toThrow(
+        'edits.validate failed (packageName=com.example.app, editId=new-edit, track=production): APK specifies a version code that has already been used.'
+      );
+      expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+    });
+
+    test.each([
+      [{ track: 'internalsharing' }, "dryRun 'validate-remote' is not supported for internalsharing uploads, which are published immediately."],
+      [{ existingEditId: 'caller-edit' }, "dryRun 'validate-remote' creates and deletes its own edit; remove 'existingEditId' to use it."],
+    ])('rejects validate-only uploads that cannot be rolled back (%o)', async (overrides, message) => {
+      await expect(__testables.uploadToPlayStore(options({ validateOnly: true, ...overrides }), ['app.aab'])).rejects.toThrow(message);
+      expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.internalappsharingartifacts.uploadbundle).not.toHaveBeenCalled();
+    });
+
+    test('rejects leaving the edit open in validate-only mode and ignores it for internal sharing', async () => {
+      await expect(__testables.uploadToPlayStore(options({ validateOnly: true, commit: false }), ['app.aab'])).rejects.toThrow(
+        "dryRun 'validate-remote' never commits its edit; remove 'commit: false' to use it."
+      );
+      expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+
+      await __testables.uploadToPlayStore(options({ commit: false, track: 'internalsharing' }), ['app.aab']);
+      expect(logger.w).toHaveBeenCalledWith(`'commit: false' is ignored for internal app sharing uploads, which are published immediately`);
+    });
+
+    test('updates store listings in the same edit before the track', async () => {
+      const listings = [
+        { language: 'en-US', title: 'App', shortDescription: 'Short', fullDescription: 'Full' },
+        { language: 'ko-KR', title: '앱', shortDescription: '짧은 설명', fullDescription: '자세한 설명' },
+      ];
+      mockAndroidPublisher.edits.listings.update.mockImplementation(({ requestBody }: { requestBody: unknown }) =>
+        Promise.resolve({ status: 200, data: requestBody })
+      );
+
+      await __testables.uploadToPlayStore(options({ listings }), ['app.aab']);
+
+      expect(mockAndroidPublisher.edits.listings.update).toHaveBeenCalledTimes(2);
+      expect(mockAndroidPublisher.edits.listings.update).toHaveBeenCalledWith(
+        { auth: { auth: true }, editId: 'new-edit', packageName: 'com.example.app', language: 'ko-KR', requestBody: listings[1] },
+        WITH_SIGNAL
+      );
+      expect(logger.i).toHaveBeenCalledWith('Updating store listing for en-US');
+      expect(mockAndroidPublisher.edits.listings.update.mock.invocationCallOrder[1]).toBeLessThan(
+        mockAndroidPublisher.edits.tracks.update.mock.invocationCallOrder[0] as number
+      );
+    });
+
+    test('deletes the new edit when a store listing update fails and ignores listings for internal sharing', async () => {
+      const listings = [{ language: 'en-US', title: 'App', shortDescription: 'Short', fullDescription: 'Full' }];
+      mockAndroidPublisher.edits.listings.update.mockResolvedValueOnce({ status: 400, statusText: 'Bad Request', data: {} });
+
+      await expect(__testables.uploadToPlayStore(options({ listings }), ['app.aab'])).rejects.toThrow(
+        'listings.update failed (packageName=com.example.app, editId=new-edit, language=en-US, status=400, statusText=Bad Request)'
+      );
+      expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+
+      await __testables.uploadToPlayStore(options({ listings, track: 'internalsharing' }), ['app.aab']);
+      expect(logger.w).toHaveBeenCalledWith(`'listingsDirectory' is ignored for internal app sharing uploads`);
+    });
+
+    test('patches only the app details that changed and logs the diff', async () => {
+      mockAndroidPublisher.edits.details.get.mockResolvedValueOnce({
+        status: 200,
+        data: { contactEmail: 'old@example.com', contactWebsite: 'https://example.com', defaultLanguage: 'en-US' },
+      });
+      mockAndroidPublisher.edits.details.patch.mockResolvedValueOnce({ status: 200, data: {} });
+
+      await __testables.uploadToPlayStore(
+        options({ appDetails: { contactEmail: 'dev@example.com', contactWebsite: 'https://example.com', contactPhone: '+82 2 1234 5678' } }),
+        ['app.aab']
+      );
+
+      expect(logger.i).toHaveBeenCalledWith('  contactEmail: old@example.com -> dev@example.com');
+      expect(logger.i).toHaveBeenCalledWith('  contactPhone: (not set) -> +82 2 1234 5678');
+      expect(mockAndroidPublisher.edits.details.patch).toHaveBeenCalledWith(
+        {
+          auth: { auth: true },
+          editId: 'new-edit',
+          packageName: 'com.example.app',
+          requestBody: { contactEmail: 'dev@example.com', contactPhone: '+82 2 1234 5678' },
+        },
+        WITH_SIGNAL
+      );
+    });
+
+    test('skips details.patch when the app details are unchanged and ignores them for internal sharing', async () => {
+      mockAndroidPublisher.edits.details.get.mockResolvedValueOnce({ status: 200, data: { defaultLanguage: 'en-US' } });
+
+      await __testables.uploadToPlayStore(options({ appDetails: { defaultLanguage: 'en-US' } }), ['app.aab']);
+
+      expect(logger.i).toHaveBeenCalledWith('App details are already up to date');
+      expect(mockAndroidPublisher.edits.details.patch).not.toHaveBeenCalled();
+
+      await __testables.uploadToPlayStore(options({ appDetails: { defaultLanguage: 'en-US' }, track: 'internalsharing' }), ['app.aab']);
+      expect(logger.w).toHaveBeenCalledWith('App details are ignored for internal app sharing uploads');
+    });
+
+    test('prunes store listings that are not in listingsDirectory', async () => {
+      const listings = [{ language: 'en-US', title: 'App', shortDescription: 'Short', fullDescription: 'Full' }];
+      mockAndroidPublisher.edits.listings.update.mockResolvedValue({ status: 200, data: {} });
+      mockAndroidPublisher.edits.listings.list.mockResolvedValueOnce({
+        status: 200,
+        data: { listings: [{ language: 'en-US' }, { language: 'fr-FR' }, { title: 'no language' }, { language: 'de-DE' }] },
+      });
+      mockAndroidPublisher.edits.details.get.mockResolvedValueOnce({ status: 200, data: { defaultLanguage: 'en-US' } });
+      mockAndroidPublisher.edits.listings.delete.mockResolvedValue({ status: 204, data: '' });
+
+      await __testables.uploadToPlayStore(options({ listings, pruneListings: true }), ['app.aab']);
+
+      expect(logger.i).toHaveBeenCalledWith('Deleting store listings for: fr-FR, de-DE');
+      expect(mockAndroidPublisher.edits.listings.delete).toHaveBeenCalledTimes(2);
+      expect(mockAndroidPublisher.edits.listings.delete).toHaveBeenCalledWith(
+        { auth: { auth: true }, editId: 'new-edit', packageName: 'com.example.app', language: 'de-DE' },
+        WITH_SIGNAL
+      );
+    });
+
+    test('lists the store listings it would prune when validating', async () => {
+      mockAndroidPublisher.edits.listings.list.mockResolvedValueOnce({ status: 200, data: { listings: [{ language: 'fr-FR' }] } });
+      mockAndroidPublisher.edits.details.get.mockResolvedValueOnce({ status: 200, data: {} });
+      mockAndroidPublisher.edits.listings.delete.mockResolvedValueOnce({ status: 204, data: '' });
+
+      await __testables.uploadToPlayStore(options({ listings: [], pruneListings: true, validateOnly: true }), ['app.aab']);
+
+      expect(logger.i).toHaveBeenCalledWith('Would delete store listings for: fr-FR');
+      expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+    });
+
+    test('does nothing when every store listing exists locally and ignores pruning for internal sharing', async () => {
+      mockAndroidPublisher.edits.listings.list.mockResolvedValueOnce({ status: 200, data: {} });
+
+      await __testables.uploadToPlayStore(options({ pruneListings: true }), ['app.aab']);
+
+      expect(logger.i).toHaveBeenCalledWith('No store listings to prune');
+      expect(mockAndroidPublisher.edits.details.get).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.listings.delete).not.toHaveBeenCalled();
+
+      await __testables.uploadToPlayStore(options({ pruneListings: true, track: 'internalsharing' }), ['app.aab']);
+      expect(logger.w).toHaveBeenCalledWith(`'pruneListings' is ignored for internal app sharing uploads`);
+    });
+
+    test('refuses to prune the default language listing', async () => {
+      mockAndroidPublisher.edits.listings.list.mockResolvedValueOnce({
+        status: 200,
+        data: { listings: [{ language: 'en-US' }, { language: 'ko-KR' }] },
+      });
+      mockAndroidPublisher.edits.details.get.mockResolvedValueOnce({ status: 200, data: { defaultLanguage: 'en-US' } });
+
+      await expect(
+        __testables.uploadToPlayStore(
+          options({ listings: [{ language: 'ko-KR', title: '앱', shortDescription: '짧은 설명', fullDescription: '설명' }], pruneListings: true }),
+          ['app.aab']
+        )
+      ).rejects.toThrow(
+        'pruneListings refuses to delete the store listing for the default language en-US; add it to listingsDirectory or change defaultLanguage'
+      );
+      expect(mockAndroidPublisher.edits.listings.delete).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+    });
+
+    test('replaces changed store images and skips unchanged ones', async () => {
+      const images = [
+        {
+          language: 'en-US',
+          imageType: 'icon' as const,
+          images: [{ filePath: '/metadata/en-US/images/icon/icon.png', sha256: 'aaa', mimeType: 'image/png' }],
+        },
+        {
+          language: 'en-US',
+          imageType: 'phoneScreenshots' as const,
+          images: [
+            { filePath: '/metadata/en-US/images/phoneScreenshots/1.png', sha256: 'bbb', mimeType: 'image/png' },
+            { filePath: '/metadata/en-US/images/phoneScreenshots/2.jpg', sha256: 'ccc', mimeType: 'image/jpeg' },
+          ],
+        },
+      ];
+      mockAndroidPublisher.edits.images.list
+        .mockResolvedValueOnce({ status: 200, data: { images: [{ id: 'icon-1', sha256: 'AAA' }] } })
+        .mockResolvedValueOnce({ status: 200, data: { images: [{ id: 'shot-1', sha256: 'bbb' }, { id: 'shot-2' }] } });
+      mockAndroidPublisher.edits.images.deleteall.mockResolvedValue({ status: 200, data: { deleted: [] } });
+      mockAndroidPublisher.edits.images.upload.mockResolvedValue({ status: 200, data: { image: { id: 'uploaded' } } });
+
+      await __testables.uploadToPlayStore(options({ images }), ['app.aab']);
+
+      expect(logger.i).toHaveBeenCalledWith('Skipping icon for en-US: 1 image(s) unchanged');
+      expect(logger.i).toHaveBeenCalledWith('Replacing 2 phoneScreenshots image(s) for en-US with 2 image(s)');
+      expect(mockAndroidPublisher.edits.images.deleteall).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.images.deleteall).toHaveBeenCalledWith(
+        { auth: { auth: true }, editId: 'new-edit', packageName: 'com.example.app', language: 'en-US', imageType: 'phoneScreenshots' },
+        WITH_SIGNAL
+      );
+      expect(mockAndroidPublisher.edits.images.upload).toHaveBeenCalledTimes(2);
+      expect(mockAndroidPublisher.edits.images.upload).toHaveBeenLastCalledWith(
+        {
+          auth: { auth: true },
+          packageName: 'com.example.app',
+          editId: 'new-edit',
+          language: 'en-US',
+          imageType: 'phoneScreenshots',
+          media: { mimeType: 'image/jpeg', body: 'stream' },
+        },
+        WITH_SIGNAL
+      );
+      expect(fs.createReadStream).toHaveBeenCalledWith('/metadata/en-US/images/phoneScreenshots/2.jpg');
+    });
+
+    test('fails the upload when deleting store images fails and ignores images for internal sharing', async () => {
+      const images = [
+        {
+          language: 'en-US',
+          imageType: 'featureGraphic' as const,
+          images: [{ filePath: '/metadata/feature.png', sha256: 'aaa', mimeType: 'image/png' }],
+        },
+      ];
+      mockAndroidPublisher.edits.images.list.mockResolvedValueOnce({ status: 200, data: {} });
+      mockAndroidPublisher.edits.images.deleteall.mockResolvedValueOnce({ status: 403, statusText: 'Forbidden', data: {} });
+
+      await expect(__testables.uploadToPlayStore(options({ images }), ['app.aab'])).rejects.toThrow(
+        'images.deleteall failed (packageName=com.example.app, editId=new-edit, language=en-US, imageType=featureGraphic, status=403, statusText=Forbidden)'
+      );
+      expect(mockAndroidPublisher.edits.images.upload).not.toHaveBeenCalled();
+
+      await __testables.uploadToPlayStore(options({ images, track: 'internalsharing' }), ['app.aab']);
+      expect(logger.w).toHaveBeenCalledWith(`'syncImages' is ignored for internal app sharing uploads`);
+    });
+
+    test('rejects empty release file arrays before Play API calls', async () => {
+      await expect(__testables.uploadToPlayStore(options(), [])).rejects.toThrow('At least one release file is required for upload.');
+      expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+    });
+
+    const REVIEW_REQUIRED_ERROR = Object.assign(
+      new Error(
+        'Changes cannot be sent for review automatically. Please set the query parameter changesNotSentForReview to true. Once committed, the changes in this edit can be sent for review from the Google Play Console UI.'
+      ),
+      { code: 400 }
+    );
+
+    test('commits again with changesNotSentForReview when Play requires it and the fallback is allowed', async () => {
+      mockAndroidPublisher.edits.commit.mockRejectedValueOnce(REVIEW_REQUIRED_ERROR);
+
+      await expect(__testables.uploadToPlayStore(options({ changesNotSentForReviewFallback: true }), ['app.aab'])).resolves.toMatchObject({
+        editId: 'edit-1',
+        changesNotSentForReviewFallback: true,
+      });
+
+      expect(mockAndroidPublisher.edits.commit).toHaveBeenCalledTimes(2);
+      expect(mockAndroidPublisher.edits.commit).toHaveBeenLastCalledWith(expect.objectContaining({ changesNotSentForReview: true }), WITH_SIGNAL);
+      expect(mockAndroidPublisher.edits.delete).not.toHaveBeenCalled();
+      expect(logger.w).toHaveBeenCalledWith(
+        'Google Play requires changesNotSentForReview for edit new-edit; retrying the commit once with changesNotSentForReview=true. Send the changes for review from the Google Play Console.'
+      );
+    });
+
+    test.each([
+      ['the fallback is not allowed', {}, REVIEW_REQUIRED_ERROR],
+      ['changesNotSentForReview was already set', { changesNotSentForReviewFallback: true, changesNotSentForReview: true }, REVIEW_REQUIRED_ERROR],
+      ['the commit failed for another reason', { changesNotSentForReviewFallback: true }, Object.assign(new Error('Invalid track'), { code: 400 })],
+    ])('does not retry the commit when %s', async (_case, overrides, error) => {
+      mockAndroidPublisher.edits.commit.mockRejectedValueOnce(error);
+
+      await expect(__testables.uploadToPlayStore(options(overrides), ['app.aab'])).rejects.toThrow('edits.commit failed');
+
+      expect(mockAndroidPublisher.edits.commit).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+    });
+
+    test('wraps rejected commit promises and cleans up new edits', async () => {
+      mockAndroidPublisher.edits.commit.mockRejectedValue(new Error('commit network failed'));
+
+      await expect(__testables.uploadToPlayStore(options(), ['app.aab'])).rejects.toThrow('edits.commit failed');
+      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+    });
+
+    test('aborts the in-flight upload and deletes the new edit when the run times out', async () => {
+      const run = new AbortController();
+      let uploadSignal: AbortSignal | undefined;
+      mockAndroidPublisher.edits.bundles.upload.mockImplementationOnce(async (_params: unknown, { signal }: { signal: AbortSignal }) => {
+        uploadSignal = signal;
+        run.abort(new Error('Upload timed out after 60000ms'));
+        return new Promise(() => undefined);
+      });
+
+      await expect(__testables.uploadToPlayStore(options({ signal: run.signal }), ['app.aab'])).rejects.toThrow(
+        'bundles.upload failed (packageName=com.example.app, editId=new-edit, releaseFile=app.aab): Upload timed out after 60000ms'
+      );
+
+      expect(uploadSignal?.aborted).toBe(true);
+      expect(mockAndroidPublisher.edits.bundles.upload).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+      const [, deleteOptions] = mockAndroidPublisher.edits.delete.mock.lastCall as [unknown, { signal: AbortSignal }];
+      expect(deleteOptions.signal.aborted).toBe(false);
+      expect(logger.i).toHaveBeenCalledWith('Deleted uncommitted edit new-edit');
+    });
+
+    test('adds retained version codes to the release after checking the edit', async () => {
+      await expect(__testables.uploadToPlayStore(options({ retainedVersionCodes: [101, 202] }), ['app.aab'])).resolves.toEqual({
+        kind: 'edit',
+        editId: 'edit-1',
+        release: { status: undefined, userFraction: undefined, versionCodes: ['101', '102', '201', '202'] },
+        releaseNoteLocales: [],
+        downloadUrls: ['https://play.google.com/apps/test/com.example.app/202'],
+        reusedVersionCodes: [],
+        changesNotSentForReviewFallback: false,
+      });
+
+      expect(mockAndroidPublisher.edits.apks.list).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+      expect(mockAndroidPublisher.edits.bundles.list).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+      expect(lastTrackUpdateRequest().requestBody.releases).toMatchObject([{ versionCodes: ['202', '101'] }]);
+    });
+
+    test('rejects retained version codes missing from the edit before updating the track', async () => {
+      await expect(__testables.uploadToPlayStore(options({ retainedVersionCodes: [101, 90] }), ['app.aab'])).rejects.toThrow(
+        'retainedVersionCodes not found in edit new-edit (packageName=com.example.app, missingVersionCodes=90)'
+      );
+      expect(mockAndroidPublisher.edits.tracks.update).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.commit).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+    });
+
+    test('records each finished step in the state file and removes it after the commit', async () => {
+      const state = runState();
+      const savedStates: string[] = [];
+      (saveRunState as jest.Mock).mockImplementation((file: RunStateFile) => savedStates.push(JSON.stringify(file.state)));
+
+      await __testables.uploadToPlayStore(options({ runState: state, mappingFile: './mapping.txt' }), ['app.aab']);
+
+      expect(savedStates.map(saved => JSON.parse(saved) as RunState)).toEqual([
+        expect.objectContaining({ editId: 'new-edit', artifacts: {}, trackUpdated: false }),
+        expect.objectContaining({
+          artifacts: { [path.resolve('app.aab')]: { sha256: 'local-sha256', versionCode: 202, mappingUploaded: false, debugSymbolsUploaded: false } },
+        }),
+        expect.objectContaining({
+          artifacts: { [path.resolve('app.aab')]: { sha256: 'local-sha256', versionCode: 202, mappingUploaded: true, debugSymbolsUploaded: false } },
+        }),
+        expect.objectContaining({
+          artifacts: { [path.resolve('app.aab')]: { sha256: 'local-sha256', versionCode: 202, mappingUploaded: true, debugSymbolsUploaded: true } },
+        }),
+        expect.objectContaining({ trackUpdated: true }),
+      ]);
+      expect(removeRunState).toHaveBeenCalledWith(state);
+    });
+
+    test('resumes the recorded edit and skips the steps the previous run finished', async () => {
+      const state = runState({
+        editId: 'resumed-edit',
+        artifacts: { [path.resolve('app.aab')]: { sha256: 'local-sha256', versionCode: 202, mappingUploaded: true, debugSymbolsUploaded: false } },
+        trackUpdated: true,
+      });
+      mockAndroidPublisher.edits.tracks.get.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        data: { track: 'production', releases: [{ status: 'completed', versionCodes: ['202'] }] },
+      });
+
+      await expect(
+        __testables.uploadToPlayStore(options({ runState: state, mappingFile: './mapping.txt', debugSymbols: './symbols.zip' }), ['app.aab'])
+      ).resolves.toMatchObject({ editId: 'edit-1', release: { versionCodes: ['202'] }, reusedVersionCodes: [202] });
+
+      expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.bundles.upload).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenCalledWith(
+        expect.objectContaining({ editId: 'resumed-edit', deobfuscationFileType: 'nativeCode' }),
+        WITH_SIGNAL
+      );
+      expect(mockAndroidPublisher.edits.tracks.update).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.commit).toHaveBeenCalledWith(expect.objectContaining({ editId: 'resumed-edit' }), WITH_SIGNAL);
+      expect(mockAndroidPublisher.edits.get).toHaveBeenCalledWith(expect.objectContaining({ editId: 'resumed-edit' }), WITH_SIGNAL);
+      expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+      expect(logger.i).toHaveBeenCalledWith('Resuming edit resumed-edit recorded in stateFile');
+      expect(logger.i).toHaveBeenCalledWith('Skipping upload of app.aab: the previous run already uploaded it as versionCode=202');
+      expect(logger.i).toHaveBeenCalledWith('Skipping track update: track production already has versionCodes=202 from the previous run');
+    });
+
+    test('uploads files again when they changed since the recorded run', async () => {
+      const state = runState({
+        editId: 'resumed-edit',
+        artifacts: { [path.resolve('app.aab')]: { sha256: 'old-sha256', versionCode: 201, mappingUploaded: true, debugSymbolsUploaded: true } },
+        trackUpdated: true,
+      });
+
+      await __testables.uploadToPlayStore(options({ runState: state }), ['app.aab']);
+
+      expect(mockAndroidPublisher.edits.bundles.upload).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.tracks.update).toHaveBeenCalledTimes(1);
+      expect(state.state.artifacts[path.resolve('app.aab')]).toEqual({
+        sha256: 'local-sha256',
+        versionCode: 202,
+        mappingUploaded: true,
+        debugSymbolsUploaded: true,
+      });
+    });
+
+    test.each([
+      [
+        'has expired',
+        () => mockAndroidPublisher.edits.get.mockResolvedValueOnce({ status: 200, data: { id: 'resumed-edit', expiryTimeSeconds: '946684800' } }),
+      ],
+      ['no longer exists', () => mockAndroidPublisher.edits.get.mockRejectedValueOnce(Object.assign(new Error('Edit not found'), { code: 404 }))],
+    ])('discards the recorded state and starts a new edit when the recorded edit %s', async (_, mockEdit) => {
+      mockEdit();
+      const state = runState({
+        editId: 'resumed-edit',
+        artifacts: { [path.resolve('app.aab')]: { sha256: 'local-sha256', versionCode: 202, mappingUploaded: true, debugSymbolsUploaded: true } },
+        trackUpdated: true,
+      });
+
+      await __testables.uploadToPlayStore(options({ runState: state }), ['app.aab']);
+
+      expect(mockAndroidPublisher.edits.get).toHaveBeenCalledWith(expect.objectContaining({ editId: 'resumed-edit' }), WITH_SIGNAL);
+      expect(mockAndroidPublisher.edits.insert).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.bundles.upload).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+      expect(mockAndroidPublisher.edits.tracks.update).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.commit).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }), WITH_SIGNAL);
+      expect(logger.w).toHaveBeenCalledWith(
+        'Edit resumed-edit recorded in stateFile no longer exists or has expired; discarding the recorded progress and starting a new edit'
+      );
+      expect(state.state.editId).toBe('new-edit');
+    });
+
+    test('keeps the edit for a re-run when the state file is used', async () => {
+      mockAndroidPublisher.edits.tracks.update.mockRejectedValue(new Error('track update failed'));
+
+      await expect(__testables.uploadToPlayStore(options({ runState: runState() }), ['app.aab'])).rejects.toThrow('tracks.update failed');
+
+      expect(mockAndroidPublisher.edits.delete).not.toHaveBeenCalled();
+      expect(removeRunState).not.toHaveBeenCalled();
+      expect(logger.w).toHaveBeenCalledWith(expect.stringContaining('keeping the edit so a re-run with the same stateFile can resume it'));
+    });
+
+    test('starts a fresh state when existingEditId differs from the recorded edit', async () => {
+      const state = runState({
+        editId: 'old-edit',
+        artifacts: { [path.resolve('app.aab')]: { sha256: 'local-sha256', versionCode: 202, mappingUploaded: true, debugSymbolsUploaded: true } },
+        trackUpdated: true,
+      });
+
+      await __testables.uploadToPlayStore(options({ runState: state, existingEditId: 'caller-edit' }), ['app.aab']);
+
+      expect(state.state.editId).toBe('caller-edit');
+      expect(mockAndroidPublisher.edits.bundles.upload).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.tracks.update).toHaveBeenCalledTimes(1);
+    });
+
+    test('keeps the recorded state when existingEditId matches it', async () => {
+      const state = runState({ editId: 'caller-edit', trackUpdated: true });
+      mockAndroidPublisher.edits.tracks.get.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        data: { track: 'production', releases: [{ status: 'draft' }] },
+      });
+
+      await __testables.uploadToPlayStore(options({ runState: state, existingEditId: 'caller-edit' }), ['app.aab']);
+
+      expect(mockAndroidPublisher.edits.tracks.get).toHaveBeenCalledWith(
+        expect.objectContaining({ editId: 'caller-edit', track: 'production' }),
+        WITH_SIGNAL
       );
+      expect(mockAndroidPublisher.edits.tracks.update).toHaveBeenCalledTimes(1);
     });
 
-    test('logs cleanup failure when deleting a new edit fails', async () => {
-      mockAndroidPublisher.edits.commit.mockResolvedValueOnce({ data: {}, status: 500, statusText: 'FAIL' });
-      mockAndroidPublisher.edits.delete.mockRejectedValue(new Error('delete unavailable'));
+    test('rejects the state file for remote validation and ignores it for internal sharing', async () => {
+      await expect(__testables.uploadToPlayStore(options({ runState: runState(), validateOnly: true }), ['app.aab'])).rejects.toThrow(
+        "dryRun 'validate-remote' deletes its edit, so there is nothing to resume; remove 'stateFile' to use it."
+      );
 
-      await expect(__testables.uploadToPlayStore(options(), ['app.aab'])).rejects.toThrow('edits.commit failed');
-      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalled();
+      await __testables.uploadToPlayStore(options({ runState: runState(), track: 'internalsharing' }), ['app.aab']);
+      expect(logger.w).toHaveBeenCalledWith(`'stateFile' is ignored for internal app sharing uploads`);
+      expect(saveRunState).not.toHaveBeenCalled();
     });
 
-    test('rejects successful commit responses that omit the edit id', async () => {
-      mockAndroidPublisher.edits.commit.mockResolvedValueOnce({ data: {}, status: 200, statusText: 'OK' });
+    test('reports reused version codes and releases them on the track', async () => {
+      mockAndroidPublisher.edits.bundles.list.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: { bundles: [{ versionCode: 202, sha256: 'local-sha256' }] },
+      });
 
-      await expect(__testables.uploadToPlayStore(options(), ['app.aab'])).rejects.toThrow(
-        'Commit response missing edit id (packageName=com.example.app, editId=new-edit, track=production, status=200, statusText=OK)'
-      );
-      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalled();
+      await expect(__testables.uploadToPlayStore(options(), ['app.aab'])).resolves.toMatchObject({ reusedVersionCodes: [202] });
+
+      expect(mockAndroidPublisher.edits.bundles.upload).not.toHaveBeenCalled();
+      expect(lastTrackUpdateRequest().requestBody.releases).toMatchObject([{ versionCodes: ['202'] }]);
     });
 
-    test('does not delete caller-owned existing edit on failure', async () => {
-      mockAndroidPublisher.edits.tracks.list.mockResolvedValueOnce({ status: 404, statusText: 'Not Found', data: {} });
+    test('lists only the artifact types it uploads for the reuse check when no version codes are retained', async () => {
+      await __testables.uploadToPlayStore(options({ retainedVersionCodes: [] }), ['app.aab']);
 
-      await expect(__testables.uploadToPlayStore(options({ existingEditId: 'caller-edit' }), ['app.aab'])).rejects.toThrow(
-        'Failed to list tracks'
-      );
-      expect(mockAndroidPublisher.edits.delete).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.apks.list).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.bundles.list).toHaveBeenCalledTimes(1);
     });
 
-    test('rejects empty release file arrays before Play API calls', async () => {
-      await expect(__testables.uploadToPlayStore(options(), [])).rejects.toThrow('At least one release file is required for upload.');
-      expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+    test('lists artifacts once per type for concurrent uploads and not at all when every file is resumed', async () => {
+      await __testables.uploadReleaseFiles('edit-1', options({ uploadConcurrency: 3 }), ['one.apk', 'two.apk', 'three.aab']);
+
+      expect(mockAndroidPublisher.edits.apks.list).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.bundles.list).toHaveBeenCalledTimes(1);
+
+      jest.clearAllMocks();
+      const state = runState({
+        editId: 'edit-1',
+        artifacts: { [path.resolve('app.aab')]: { sha256: 'local-sha256', versionCode: 202, mappingUploaded: true, debugSymbolsUploaded: true } },
+      });
+
+      await __testables.uploadReleaseFiles('edit-1', options({ runState: state }), ['app.aab']);
+
+      expect(mockAndroidPublisher.edits.apks.list).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.bundles.list).not.toHaveBeenCalled();
     });
 
-    test('wraps rejected commit promises and cleans up new edits', async () => {
-      mockAndroidPublisher.edits.commit.mockRejectedValue(new Error('commit network failed'));
+    test('uploads internal sharing artifacts concurrently in input order', async () => {
+      let resolveApk: (value: unknown) => void = () => undefined;
+      mockAndroidPublisher.internalappsharingartifacts.uploadapk.mockReturnValueOnce(new Promise(resolve => (resolveApk = resolve)));
 
-      await expect(__testables.uploadToPlayStore(options(), ['app.aab'])).rejects.toThrow('edits.commit failed');
-      expect(mockAndroidPublisher.edits.delete).toHaveBeenCalledWith(expect.objectContaining({ editId: 'new-edit' }));
+      const uploading = __testables.uploadToPlayStore(options({ track: 'internalsharing', uploadConcurrency: 2 }), ['app.apk', 'app.aab']);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(mockAndroidPublisher.internalappsharingartifacts.uploadbundle).toHaveBeenCalledTimes(1);
+
+      resolveApk({ data: { downloadUrl: 'https://download/apk' } });
+      await expect(uploading).resolves.toEqual({ kind: 'internalsharing', downloadUrls: ['https://download/apk', 'https://download/aab'] });
+      expect(core.setOutput).toHaveBeenCalledWith('internalSharingDownloadUrl', 'https://download/aab');
+    });
+
+    test('ignores retained version codes for internal app sharing', async () => {
+      await expect(__testables.uploadToPlayStore(options({ track: 'internalsharing', retainedVersionCodes: [101] }), ['app.aab'])).resolves.toEqual(
+        expect.objectContaining({ kind: 'internalsharing' })
+      );
+      expect(logger.w).toHaveBeenCalledWith(`'retainedVersionCodes' is ignored for internal app sharing uploads`);
+      expect(mockAndroidPublisher.edits.apks.list).not.toHaveBeenCalled();
     });
 
     test('wraps rejected tracks.update promises and skips commit', async () => {
@@ -319,6 +1585,59 @@ describe('edits module', () => {
     });
   });
 
+  describe('__testables.buildReleaseName', () => {
+    const metadata = [
+      { releaseFile: '/work/phone.aab', packageName: 'com.example.app', versionCode: 301, versionName: '3.0.1' },
+      { releaseFile: '/work/wear.aab', packageName: 'com.example.app', versionCode: 302, versionName: '3.0.1-wear' },
+    ];
+
+    test('fills the template from the artifact with the highest version code', () => {
+      expect(__testables.buildReleaseName(options({ releaseNameTemplate: 'v{versionName} build {versionCode}' }), metadata)).toBe(
+        'v3.0.1-wear build 302'
+      );
+      expect(logger.d).toHaveBeenCalledWith("Generated release name 'v3.0.1-wear build 302' from wear.aab");
+    });
+
+    test('returns undefined without a template or artifact metadata', () => {
+      expect(__testables.buildReleaseName(options(), metadata)).toBeUndefined();
+      expect(__testables.buildReleaseName(options({ releaseNameTemplate: '{versionCode}' }), [])).toBeUndefined();
+    });
+
+    test('falls back to the Play default when the artifact has no versionName', () => {
+      const withoutVersionName = { releaseFile: '/work/phone.aab', packageName: 'com.example.app', versionCode: 301 };
+
+      expect(__testables.buildReleaseName(options({ releaseNameTemplate: '{versionName} ({versionCode})' }), [withoutVersionName])).toBeUndefined();
+      expect(logger.w).toHaveBeenCalledWith(
+        "Unable to fill {versionName} in 'releaseNameTemplate' from phone.aab; using the Play Console default release name"
+      );
+    });
+
+    test('keeps an explicit release name over the template', async () => {
+      (preflightArtifactMetadata as jest.Mock).mockResolvedValue(metadata);
+
+      await __testables.uploadToPlayStore(options({ name: 'Manual name', releaseNameTemplate: '{versionCode}' }), ['app.aab']);
+
+      expect(lastTrackUpdateRequest().requestBody.releases).toMatchObject([{ name: 'Manual name' }]);
+    });
+  });
+
+  describe('__testables.listEditArtifacts', () => {
+    test('treats missing artifact lists as empty', async () => {
+      mockAndroidPublisher.edits.apks.list.mockResolvedValueOnce({ status: 200, statusText: 'OK', data: {} });
+      mockAndroidPublisher.edits.bundles.list.mockResolvedValueOnce({ status: 200, statusText: 'OK', data: {} });
+
+      await expect(__testables.listEditArtifacts('edit', options())).resolves.toEqual({ apks: [], bundles: [] });
+    });
+
+    test('wraps rejected list calls with context', async () => {
+      mockAndroidPublisher.edits.bundles.list.mockRejectedValue(new Error('list unavailable'));
+
+      await expect(__testables.assertRetainedVersionCodesExist('edit', options({ retainedVersionCodes: [101] }))).rejects.toThrow(
+        'bundles.list failed'
+      );
+    });
+  });
+
   describe('__testables.addReleasesToTrack', () => {
     test('uses explicit release notes and filtered version codes', async () => {
       const explicitNotes = [{ language: 'ko-KR', text: '직접 입력' }];
@@ -328,7 +1647,10 @@ describe('edits module', () => {
         [101, 0, 102]
       );
 
-      expect(result).toEqual({ track: 'production', releases: [{ versionCodes: ['101', '102', '201', '202'] }] });
+      expect(result).toEqual({
+        releases: [{ versionCodes: ['101', '102', '201', '202'] }],
+        release: { versionCodes: ['101', '102', '201', '202'] },
+      });
       expect(readLocalizedReleaseNotes).not.toHaveBeenCalled();
       expect(lastTrackUpdateRequest().requestBody.releases).toMatchObject([
         {
@@ -339,6 +1661,19 @@ describe('edits module', () => {
       ]);
     });
 
+    test('merges the new release with releases already on the track', async () => {
+      const completed = { name: '1.0.0', status: 'completed', versionCodes: ['100'] };
+      mockAndroidPublisher.edits.tracks.get.mockResolvedValueOnce({ status: 200, data: { track: 'production', releases: [completed] } });
+
+      await __testables.addReleasesToTrack('edit-1', options({ status: 'inProgress', userFraction: 0.1, releaseNotes: [] }), [101]);
+
+      expect(mockAndroidPublisher.edits.tracks.get).toHaveBeenCalledWith(
+        expect.objectContaining({ editId: 'edit-1', track: 'production' }),
+        WITH_SIGNAL
+      );
+      expect(lastTrackUpdateRequest().requestBody.releases).toMatchObject([completed, { status: 'inProgress', versionCodes: ['101'] }]);
+    });
+
     test('loads localized release notes when explicit notes are missing', async () => {
       await __testables.addReleasesToTrack(
         'edit-1',
@@ -367,6 +1702,34 @@ describe('edits module', () => {
       ).rejects.toThrow('tracks.update response mismatch');
     });
 
+    test('returns the release that holds every requested version code', async () => {
+      const completed = { status: 'completed', versionCodes: ['100'] };
+      const staged = { status: 'inProgress', userFraction: 0.2, versionCodes: ['101', '102'] };
+      mockAndroidPublisher.edits.tracks.update.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        data: { track: 'production', releases: [{}, completed, staged] },
+      });
+
+      await expect(
+        __testables.addReleasesToTrack('edit-1', options({ releaseNotes: [{ language: 'en-US', text: 'notes' }] }), [101, 102])
+      ).resolves.toEqual({ releases: [{}, completed, staged], release: staged });
+    });
+
+    test('rejects when tracks.update response splits requested version codes across releases', async () => {
+      mockAndroidPublisher.edits.tracks.update.mockResolvedValueOnce({
+        status: 200,
+        statusText: 'OK',
+        data: { track: 'production', releases: [{ versionCodes: ['101'] }, { versionCodes: ['202'] }] },
+      });
+
+      await expect(
+        __testables.addReleasesToTrack('edit-1', options({ releaseNotes: [{ language: 'en-US', text: 'notes' }] }), [101, 202])
+      ).rejects.toThrow(
+        'tracks.update response mismatch (packageName=com.example.app, editId=edit-1, requestedTrack=production, returnedTrack=production, missingVersionCodes=)'
+      );
+    });
+
     test('rejects when tracks.update response omits release versionCodes', async () => {
       mockAndroidPublisher.edits.tracks.update.mockResolvedValueOnce({
         status: 200,
@@ -410,6 +1773,44 @@ describe('edits module', () => {
     });
   });
 
+  describe('__testables.mergeTrackReleases', () => {
+    const completed = { name: '1.0.0', status: 'completed', versionCodes: ['100'] };
+    const staged = { name: '1.0.1', status: 'inProgress', userFraction: 0.1, versionCodes: ['101'] };
+    const halted = { name: '1.0.1', status: 'halted', userFraction: 0.1, versionCodes: ['101'] };
+    const draft = { name: '1.0.2', status: 'draft', versionCodes: ['102'] };
+    const unknown = { status: 'statusUnspecified', versionCodes: ['90'] };
+
+    test('a completed release replaces completed and staged releases', () => {
+      const release = { status: 'completed', versionCodes: ['103'] };
+      expect(__testables.mergeTrackReleases(options(), [completed, staged, unknown], release)).toEqual([release]);
+    });
+
+    test('a staged release keeps the completed release and replaces the previous staged release', () => {
+      const release = { status: 'inProgress', userFraction: 0.05, versionCodes: ['103'] };
+      expect(__testables.mergeTrackReleases(options(), [completed, halted], release)).toEqual([completed, release]);
+    });
+
+    test('a draft release keeps every live release', () => {
+      const release = { status: 'draft', versionCodes: ['103'] };
+      expect(__testables.mergeTrackReleases(options(), [completed, staged, halted], release)).toEqual([completed, staged, halted, release]);
+    });
+
+    test('existing drafts are replaced by default and kept on request', () => {
+      const release = { status: 'halted', userFraction: 0.05, versionCodes: ['103'] };
+      expect(__testables.mergeTrackReleases(options(), [draft], release)).toEqual([release]);
+      expect(__testables.mergeTrackReleases(options({ existingDrafts: 'keep' }), [draft], release)).toEqual([draft, release]);
+    });
+
+    test('existing drafts are rejected on request', () => {
+      expect(() =>
+        __testables.mergeTrackReleases(options({ existingDrafts: 'reject' }), [draft, { status: 'draft' }], { status: 'completed' })
+      ).toThrow(
+        "Track \"production\" already has 2 draft release(s) (1.0.2 status=draft versionCodes=102; <unnamed> status=draft versionCodes=). Set 'existingDrafts' to 'keep' or 'replace' to continue."
+      );
+      expect(__testables.mergeTrackReleases(options({ existingDrafts: 'reject' }), [completed], { status: 'draft' })).toHaveLength(2);
+    });
+  });
+
   describe('__testables.uploadMappingFile', () => {
     test('does nothing when mapping file path is absent', async () => {
       await __testables.uploadMappingFile('edit-1', 101, options({ mappingFile: undefined }));
@@ -429,7 +1830,8 @@ describe('edits module', () => {
         expect.objectContaining({
           apkVersionCode: 101,
           deobfuscationFileType: 'proguard',
-        })
+        }),
+        WITH_SIGNAL
       );
     });
 
@@ -470,7 +1872,8 @@ describe('edits module', () => {
         expect.objectContaining({
           apkVersionCode: 101,
           deobfuscationFileType: 'nativeCode',
-        })
+        }),
+        WITH_SIGNAL
       );
     });
 
@@ -489,7 +1892,8 @@ describe('edits module', () => {
         expect.objectContaining({
           apkVersionCode: 102,
           deobfuscationFileType: 'nativeCode',
-        })
+        }),
+        WITH_SIGNAL
       );
     });
 
@@ -708,6 +2112,65 @@ describe('edits module', () => {
       expect(res).toEqual({ versionCode: 202 });
     });
 
+    test('uploads files larger than one chunk through a resumable session', async () => {
+      (fs.statSync as jest.Mock).mockReturnValue({ isDirectory: () => false, size: RESUMABLE_UPLOAD_CHUNK_BYTES + 1 });
+      (startResumableUpload as jest.Mock).mockResolvedValue({ sessionUrl: 'https://upload/session' });
+      (continueResumableUpload as jest.Mock).mockResolvedValue({ versionCode: 202 });
+
+      await expect(__testables.uploadBundle('edit-1', options(), 'app.aab')).resolves.toEqual({ versionCode: 202 });
+
+      expect(startResumableUpload).toHaveBeenCalledWith(
+        { auth: true },
+        'https://androidpublisher.googleapis.com/upload/androidpublisher/v3/applications/com.example.app/edits/edit-1/bundles',
+        expect.objectContaining({ size: RESUMABLE_UPLOAD_CHUNK_BYTES + 1 }),
+        'application/octet-stream',
+        'app.aab',
+        expect.any(AbortSignal)
+      );
+      expect(mockAndroidPublisher.edits.bundles.upload).not.toHaveBeenCalled();
+    });
+
+    test('resumes the same upload session when a chunk fails', async () => {
+      (fs.statSync as jest.Mock).mockReturnValue({ isDirectory: () => false, size: RESUMABLE_UPLOAD_CHUNK_BYTES + 1 });
+      const session = { sessionUrl: 'https://upload/session' };
+      (startResumableUpload as jest.Mock).mockResolvedValue(session);
+      (continueResumableUpload as jest.Mock)
+        .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+        .mockResolvedValueOnce({ downloadUrl: 'https://download/apk' });
+
+      await expect(__testables.internalSharingUploadApk(options(), 'app.apk')).resolves.toEqual({ downloadUrl: 'https://download/apk' });
+
+      expect(startResumableUpload).toHaveBeenCalledTimes(1);
+      expect(startResumableUpload).toHaveBeenCalledWith(
+        { auth: true },
+        'https://androidpublisher.googleapis.com/upload/androidpublisher/v3/applications/internalappsharing/com.example.app/artifacts/apk',
+        expect.anything(),
+        'application/vnd.android.package-archive',
+        'app.apk',
+        expect.any(AbortSignal)
+      );
+      expect(continueResumableUpload).toHaveBeenNthCalledWith(2, { auth: true }, session, RESUMABLE_UPLOAD_CHUNK_BYTES, expect.any(AbortSignal));
+      expect(mockAndroidPublisher.internalappsharingartifacts.uploadapk).not.toHaveBeenCalled();
+    });
+
+    test('uploads large in-memory debug symbols through a resumable session', async () => {
+      (fs.readFileSync as jest.Mock).mockReturnValueOnce(Buffer.alloc(RESUMABLE_UPLOAD_CHUNK_BYTES + 1));
+      (startResumableUpload as jest.Mock).mockResolvedValue({ sessionUrl: 'https://upload/session' });
+      (continueResumableUpload as jest.Mock).mockResolvedValue({});
+
+      await __testables.uploadDebugSymbolsFile('edit-1', 102, options({ debugSymbols: '/tmp/symbols.zip' }));
+
+      expect(startResumableUpload).toHaveBeenCalledWith(
+        { auth: true },
+        'https://androidpublisher.googleapis.com/upload/androidpublisher/v3/applications/com.example.app/edits/edit-1/apks/102/deobfuscationFiles/nativeCode',
+        expect.objectContaining({ size: RESUMABLE_UPLOAD_CHUNK_BYTES + 1 }),
+        'application/octet-stream',
+        'symbols.zip',
+        expect.any(AbortSignal)
+      );
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).not.toHaveBeenCalled();
+    });
+
     test('wraps rejected apk upload promises', async () => {
       mockAndroidPublisher.edits.apks.upload.mockRejectedValue(new Error('apk upload failed'));
 
@@ -749,9 +2212,73 @@ describe('edits module', () => {
     });
 
     test('wraps google api failures with context', async () => {
-      await expect(__testables.withGoogleApiGuard('custom.operation', {}, async () => Promise.reject('bad'))).rejects.toThrow(
-        'custom.operation failed: bad'
+      await expect(
+        __testables.withGoogleApiGuard('custom.operation', {}, async () => Promise.reject('bad'), { retryPolicy: NO_DELAY_RETRY_POLICY })
+      ).rejects.toThrow('custom.operation failed: bad');
+    });
+
+    test('logs each retry with its backoff delay', async () => {
+      const call = jest
+        .fn()
+        .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+        .mockResolvedValueOnce('ok');
+
+      await expect(__testables.withGoogleApiGuard('flaky.operation', {}, call, { retryPolicy: { maxAttempts: 2, baseDelayMs: 0 } })).resolves.toBe(
+        'ok'
+      );
+
+      expect(call).toHaveBeenCalledTimes(2);
+      expect(logger.w).toHaveBeenCalledWith('flaky.operation failed on attempt 1/2: socket hang up; retrying in 0ms');
+    });
+
+    test('uses the default retry policy when none is given', async () => {
+      await expect(__testables.withGoogleApiGuard('quick.operation', {}, async () => Promise.resolve('done'))).resolves.toBe('done');
+    });
+
+    test('stops after the configured number of attempts', async () => {
+      const call = jest.fn().mockRejectedValue({ status: 503 });
+
+      await expect(__testables.withGoogleApiGuard('busy.operation', {}, call, { retryPolicy: { maxAttempts: 1, baseDelayMs: 0 } })).rejects.toThrow(
+        'busy.operation failed'
+      );
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    test('aborts calls that exceed the per-call timeout', async () => {
+      let callSignal: AbortSignal | undefined;
+      const call = jest.fn(async (signal: AbortSignal) => {
+        callSignal = signal;
+        return new Promise(() => undefined);
+      });
+
+      await expect(
+        __testables.withGoogleApiGuard('slow.operation', {}, call, { retryPolicy: { maxAttempts: 1, baseDelayMs: 0 }, apiCallTimeoutMs: 5 })
+      ).rejects.toThrow('slow.operation failed: slow.operation timed out after 5ms');
+      expect(callSignal?.aborted).toBe(true);
+    });
+
+    test('does not call the api once the run has been aborted', async () => {
+      const run = new AbortController();
+      run.abort(new Error('Upload timed out after 60000ms'));
+      const call = jest.fn();
+
+      await expect(__testables.withGoogleApiGuard('late.operation', {}, call, { signal: run.signal })).rejects.toThrow(
+        'late.operation failed: Upload timed out after 60000ms'
       );
+      expect(call).not.toHaveBeenCalled();
+    });
+
+    test('stops waiting for a retry when the run is aborted', async () => {
+      const run = new AbortController();
+      const call = jest.fn(async () => {
+        setTimeout(() => run.abort(new Error('Rollout update timed out after 60000ms')), 5);
+        return Promise.reject({ status: 503 });
+      });
+
+      await expect(
+        __testables.withGoogleApiGuard('busy.operation', {}, call, { retryPolicy: { maxAttempts: 3, baseDelayMs: 60000 }, signal: run.signal })
+      ).rejects.toThrow('busy.operation failed: Rollout update timed out after 60000ms');
+      expect(call).toHaveBeenCalledTimes(1);
     });
 
     test('classifies retryable google api errors', () => {
@@ -760,18 +2287,61 @@ describe('edits module', () => {
       expect(__testables.isRetryableError({ code: 408 })).toBe(true);
       expect(__testables.isRetryableError({ response: { status: 429 } })).toBe(true);
       expect(__testables.isRetryableError({ status: 400 })).toBe(false);
+      expect(__testables.isRetryableError({ response: { status: 404 } })).toBe(false);
+      expect(__testables.isRetryableError({ code: 'ECONNRESET' })).toBe(true);
+      expect(__testables.isRetryableError({ code: 'ETIMEDOUT' })).toBe(true);
+      expect(__testables.isRetryableError({ code: 'ENOTFOUND' })).toBe(false);
+    });
+
+    describe('computeRetryDelayMs', () => {
+      const policy = { maxAttempts: 5, baseDelayMs: 1000 };
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      test('applies exponential backoff with jitter', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        expect(__testables.computeRetryDelayMs(1, policy, {})).toBe(500);
+        expect(__testables.computeRetryDelayMs(3, policy, {})).toBe(2000);
+
+        jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+        expect(__testables.computeRetryDelayMs(1, policy, {})).toBe(1000);
+        expect(__testables.computeRetryDelayMs(3, policy, {})).toBe(4000);
+      });
+
+      test('honors Retry-After seconds and HTTP dates', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        expect(__testables.computeRetryDelayMs(1, policy, { response: { headers: { 'retry-after': '30' } } })).toBe(30000);
+
+        jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2024-01-01T00:00:00Z'));
+        expect(__testables.computeRetryDelayMs(1, policy, { response: { headers: { 'retry-after': 'Mon, 01 Jan 2024 00:00:12 GMT' } } })).toBe(12000);
+      });
+
+      test('ignores unparsable Retry-After values', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        expect(__testables.computeRetryDelayMs(1, policy, null)).toBe(500);
+        expect(__testables.computeRetryDelayMs(1, policy, { response: { headers: { 'retry-after': 'soon' } } })).toBe(500);
+      });
+
+      test('caps the delay at five minutes', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        expect(__testables.computeRetryDelayMs(1, policy, { response: { headers: { 'retry-after': '3600' } } })).toBe(5 * 60 * 1000);
+        expect(__testables.computeRetryDelayMs(20, policy, {})).toBe(5 * 60 * 1000);
+      });
     });
 
     test('times out stalled google api calls', async () => {
       jest.useFakeTimers();
       try {
         const guarded = expect(
-          __testables.withGoogleApiGuard('slow.operation', {}, async () => new Promise(() => undefined))
+          __testables.withGoogleApiGuard('slow.operation', {}, async () => new Promise(() => undefined), { retryPolicy: NO_DELAY_RETRY_POLICY })
         ).rejects.toThrow('slow.operation failed: slow.operation timed out after 600000ms');
 
-        await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
-        await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
-        await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+        // 시도마다 시간 초과와 재시도 대기 타이머가 이어서 등록되므로 충분히 여러 번 진행
+        for (let tick = 0; tick < 6; tick++) {
+          await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+        }
 
         await guarded;
       } finally {
@@ -781,13 +2351,63 @@ describe('edits module', () => {
   });
 
   describe('__testables.getOrCreateEdit', () => {
-    test('returns existing edit id when provided', async () => {
+    test('returns existing edit id after checking it with edits.get', async () => {
       await expect(__testables.getOrCreateEdit(options({ existingEditId: 'existing-edit' }))).resolves.toBe('existing-edit');
+
+      expect(mockAndroidPublisher.edits.get).toHaveBeenCalledWith(
+        { auth: { auth: true }, packageName: 'com.example.app', editId: 'existing-edit' },
+        WITH_SIGNAL
+      );
+      expect(core.setOutput).toHaveBeenCalledWith('editExpiryTimeSeconds', '4102444800');
+      expect(logger.d).toHaveBeenCalledWith('Edit existing-edit expires at 2100-01-01T00:00:00.000Z');
+    });
+
+    test('warns when the existing edit expires soon', async () => {
+      const expiryTimeSeconds = Math.floor(Date.now() / 1000) + 10 * 60;
+      mockAndroidPublisher.edits.get.mockResolvedValueOnce({ status: 200, data: { id: 'existing-edit', expiryTimeSeconds: `${expiryTimeSeconds}` } });
+
+      await expect(__testables.getOrCreateEdit(options({ existingEditId: 'existing-edit' }))).resolves.toBe('existing-edit');
+
+      expect(logger.w).toHaveBeenCalledWith(
+        expect.stringMatching(/^Edit existing-edit expires in 10 minute\(s\) at .*; the upload fails if it is not committed by then$/)
+      );
+    });
+
+    test('rejects an existing edit that has already expired', async () => {
+      mockAndroidPublisher.edits.get.mockResolvedValueOnce({ status: 200, data: { id: 'existing-edit', expiryTimeSeconds: '946684800' } });
+
+      await expect(__testables.getOrCreateEdit(options({ existingEditId: 'existing-edit' }))).rejects.toThrow(
+        'Edit existing-edit expired at 2000-01-01T00:00:00.000Z; create a new edit and try again'
+      );
+    });
+
+    test.each([
+      ['a 404 error', () => mockAndroidPublisher.edits.get.mockRejectedValueOnce(Object.assign(new Error('Edit not found'), { code: 404 }))],
+      ['a 404 response', () => mockAndroidPublisher.edits.get.mockResolvedValueOnce({ status: 404, statusText: 'Not Found' })],
+    ])('fails early when edits.get returns %s for the existing edit', async (_case, arrange) => {
+      arrange();
+
+      await expect(__testables.uploadToPlayStore(options({ existingEditId: 'expired-edit' }), ['app.aab'])).rejects.toThrow(
+        'existingEditId expired-edit was not found (packageName=com.example.app); it may have expired, been committed or deleted, or be mistyped'
+      );
+      expect(mockAndroidPublisher.edits.get).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.bundles.upload).not.toHaveBeenCalled();
+    });
+
+    test('wraps other edits.get failures with context', async () => {
+      mockAndroidPublisher.edits.get.mockRejectedValueOnce(Object.assign(new Error('Forbidden'), { code: 403 }));
+
+      await expect(__testables.getOrCreateEdit(options({ existingEditId: 'existing-edit' }))).rejects.toThrow(
+        'edits.get failed (packageName=com.example.app, editId=existing-edit): Forbidden'
+      );
     });
 
     test('creates a new edit when existing id is absent', async () => {
-      mockAndroidPublisher.edits.insert.mockResolvedValueOnce({ data: { id: 'new-edit-id' } });
+      mockAndroidPublisher.edits.insert.mockResolvedValueOnce({ data: { id: 'new-edit-id', expiryTimeSeconds: '4102444800' } });
       await expect(__testables.getOrCreateEdit(options())).resolves.toBe('new-edit-id');
+
+      expect(mockAndroidPublisher.edits.get).not.toHaveBeenCalled();
+      expect(core.setOutput).toHaveBeenCalledWith('editExpiryTimeSeconds', '4102444800');
     });
 
     test('throws when new edit id is missing', async () => {
@@ -813,8 +2433,170 @@ describe('edits module', () => {
 
       const result = await __testables.uploadReleaseFiles('edit-1', releaseOptions, ['one.apk', 'two.aab']);
 
-      expect(result).toEqual([101, 202]);
+      expect(result).toEqual({ versionCodes: [101, 202], reusedVersionCodes: [] });
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenCalledTimes(4);
+      for (const versionCode of [101, 202]) {
+        expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenCalledWith(
+          expect.objectContaining({ apkVersionCode: versionCode, deobfuscationFileType: 'proguard' }),
+          WITH_SIGNAL
+        );
+        expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenCalledWith(
+          expect.objectContaining({ apkVersionCode: versionCode, deobfuscationFileType: 'nativeCode' }),
+          WITH_SIGNAL
+        );
+      }
+    });
+
+    test('reuses version codes of artifacts Play already has with the same SHA-256', async () => {
+      mockAndroidPublisher.edits.apks.list.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: { apks: [{ versionCode: 90, binary: { sha256: 'APK-SHA256' } }, { binary: { sha256: 'no-version' } }, { versionCode: 91 }] },
+      });
+      mockAndroidPublisher.edits.bundles.list.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: { bundles: [{ versionCode: 92, sha256: 'aab-sha256' }] },
+      });
+      (sha256File as jest.Mock).mockImplementation((filePath: string) => Promise.resolve(filePath.endsWith('.apk') ? 'apk-sha256' : 'aab-sha256'));
+      (fs.readFileSync as jest.Mock).mockReturnValue('mapping-file');
+
+      await expect(
+        __testables.uploadReleaseFiles('edit-1', options({ mappingFile: './mapping.txt' }), ['one.apk', 'two.aab', 'three.apk'])
+      ).resolves.toEqual({ versionCodes: [90, 92, 90], reusedVersionCodes: [90, 92, 90] });
+
+      expect(mockAndroidPublisher.edits.apks.upload).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.bundles.upload).not.toHaveBeenCalled();
+      expect(logger.i).toHaveBeenCalledWith('Skipping upload of two.aab: Play already has this AAB as versionCode=92 (sha256=aab-sha256)');
+    });
+
+    test('re-sends mapping and debug symbols for version codes reused from Play', async () => {
+      // Play에 올라간 난독화 해제 파일을 확인할 수 없으므로 재사용한 버전 코드에도 다시 보내 교체
+      mockAndroidPublisher.edits.bundles.list.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: { bundles: [{ versionCode: 92, sha256: 'local-sha256' }] },
+      });
+      (fs.readFileSync as jest.Mock).mockReturnValue('mapping-file');
+
+      await expect(
+        __testables.uploadReleaseFiles('edit-1', options({ mappingFile: './mapping.txt', debugSymbols: './symbols.zip' }), ['two.aab'])
+      ).resolves.toEqual({ versionCodes: [92], reusedVersionCodes: [92] });
+
+      expect(mockAndroidPublisher.edits.bundles.upload).not.toHaveBeenCalled();
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenCalledWith(
+        expect.objectContaining({ apkVersionCode: 92, deobfuscationFileType: 'proguard' }),
+        WITH_SIGNAL
+      );
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenCalledWith(
+        expect.objectContaining({ apkVersionCode: 92, deobfuscationFileType: 'nativeCode' }),
+        WITH_SIGNAL
+      );
+    });
+
+    test('uploads only the files Play does not already have', async () => {
+      mockAndroidPublisher.edits.bundles.list.mockResolvedValue({
+        status: 200,
+        statusText: 'OK',
+        data: { bundles: [{ versionCode: 92, sha256: 'aab-sha256' }] },
+      });
+      (sha256File as jest.Mock).mockImplementation((filePath: string) =>
+        Promise.resolve(filePath.endsWith('.aab') ? 'aab-sha256' : 'new-apk-sha256')
+      );
+
+      await expect(__testables.uploadReleaseFiles('edit-1', options(), ['one.apk', 'two.aab'])).resolves.toEqual({
+        versionCodes: [101, 92],
+        reusedVersionCodes: [92],
+      });
+
+      expect(mockAndroidPublisher.edits.apks.upload).toHaveBeenCalledTimes(1);
+      expect(mockAndroidPublisher.edits.bundles.upload).not.toHaveBeenCalled();
+      expect(sha256File).toHaveBeenCalledWith(expect.stringMatching(/two\.aab$/));
+    });
+
+    test('uploads mapping and debug symbols for aab-only releases', async () => {
+      (fs.readFileSync as jest.Mock).mockReturnValue('mapping-file');
+
+      await expect(
+        __testables.uploadReleaseFiles('edit-1', options({ mappingFile: './mapping.txt', debugSymbols: './symbols.zip' }), ['two.aab'])
+      ).resolves.toEqual({ versionCodes: [202], reusedVersionCodes: [] });
+
       expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenCalledTimes(2);
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ editId: 'edit-1', apkVersionCode: 202, deobfuscationFileType: 'proguard' }),
+        WITH_SIGNAL
+      );
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ editId: 'edit-1', apkVersionCode: 202, deobfuscationFileType: 'nativeCode' }),
+        WITH_SIGNAL
+      );
+    });
+
+    test('uploads the paired mapping and debug symbols for each artifact', async () => {
+      (fs.readFileSync as jest.Mock).mockReturnValue('mapping-file');
+      const releaseOptions = options({
+        deobfuscationFiles: {
+          [deobfuscationManifestKey('phone.apk')]: { mappingFile: './phone-mapping.txt', debugSymbols: './phone-symbols.zip' },
+          [deobfuscationManifestKey('wear.aab')]: { mappingFile: './wear-mapping.txt' },
+        },
+      });
+
+      await expect(__testables.uploadReleaseFiles('edit-1', releaseOptions, ['phone.apk', 'wear.aab'])).resolves.toEqual({
+        versionCodes: [101, 202],
+        reusedVersionCodes: [],
+      });
+
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenCalledTimes(3);
+      expect(fs.createReadStream).toHaveBeenNthCalledWith(2, expect.stringContaining('phone-mapping.txt'));
+      expect(fs.createReadStream).toHaveBeenLastCalledWith(expect.stringContaining('wear-mapping.txt'));
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ apkVersionCode: 101, deobfuscationFileType: 'nativeCode' }),
+        WITH_SIGNAL
+      );
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).toHaveBeenNthCalledWith(
+        3,
+        expect.objectContaining({ apkVersionCode: 202, deobfuscationFileType: 'proguard' }),
+        WITH_SIGNAL
+      );
+    });
+
+    test('fails when an uploaded artifact has no paired deobfuscation files', async () => {
+      const releaseOptions = options({
+        deobfuscationFiles: { [deobfuscationManifestKey('phone.apk')]: { mappingFile: './phone-mapping.txt' } },
+      });
+
+      await expect(__testables.uploadReleaseFiles('edit-1', releaseOptions, ['wear.aab'])).rejects.toThrow(
+        'No mapping file or debug symbols paired with wear.aab in deobfuscationManifest'
+      );
+      expect(mockAndroidPublisher.edits.deobfuscationfiles.upload).not.toHaveBeenCalled();
+    });
+
+    test('preflights paired deobfuscation files before creating an edit', async () => {
+      (fs.accessSync as jest.Mock).mockImplementation((filePath: string) => {
+        if (filePath.endsWith('wear-symbols.zip')) throw new Error('missing symbols');
+      });
+      const releaseOptions = options({
+        deobfuscationFiles: {
+          [deobfuscationManifestKey('phone.apk')]: { mappingFile: './phone-mapping.txt' },
+          [deobfuscationManifestKey('wear.aab')]: { debugSymbols: './wear-symbols.zip' },
+        },
+      });
+
+      await expect(__testables.uploadToPlayStore(releaseOptions, ['phone.apk', 'wear.aab'])).rejects.toThrow(
+        'Unable to read debugSymbols file wear-symbols.zip: missing symbols'
+      );
+      expect(mockAndroidPublisher.edits.insert).not.toHaveBeenCalled();
+    });
+
+    test('reports the uploaded bundle version code when its mapping upload fails', async () => {
+      mockAndroidPublisher.edits.deobfuscationfiles.upload.mockRejectedValue(new Error('mapping rejected'));
+
+      await expect(__testables.uploadReleaseFiles('edit-1', options({ mappingFile: './mapping.txt' }), ['two.aab'])).rejects.toThrow(
+        'Failed while uploading two.aab to edit edit-1; uploadedVersionCodes=202'
+      );
     });
 
     test('defaults version code to zero when apk upload has no version', async () => {
@@ -839,6 +2621,30 @@ describe('edits module', () => {
       );
     });
 
+    test('uploads files concurrently while keeping version codes in input order', async () => {
+      let resolveApk: (value: unknown) => void = () => undefined;
+      mockAndroidPublisher.edits.apks.upload.mockReturnValueOnce(new Promise(resolve => (resolveApk = resolve)));
+
+      const uploading = __testables.uploadReleaseFiles('edit-1', options({ uploadConcurrency: 2 }), ['one.apk', 'two.aab']);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(mockAndroidPublisher.edits.bundles.upload).toHaveBeenCalledTimes(1);
+
+      resolveApk({ data: { versionCode: 101 } });
+      await expect(uploading).resolves.toEqual({ versionCodes: [101, 202], reusedVersionCodes: [] });
+    });
+
+    test('reports every concurrent failure with the version codes uploaded so far', async () => {
+      mockAndroidPublisher.edits.apks.upload
+        .mockResolvedValueOnce({ data: { versionCode: 101 } })
+        .mockRejectedValueOnce({ status: 400, message: 'apk rejected' });
+      mockAndroidPublisher.edits.bundles.upload.mockRejectedValueOnce({ status: 400, message: 'bundle rejected' });
+
+      await expect(
+        __testables.uploadReleaseFiles('edit-1', options({ uploadConcurrency: 3 }), ['one.apk', 'two.apk', 'three.aab', 'four.aab'])
+      ).rejects.toThrow(/^Failed while uploading two\.apk, three\.aab to edit edit-1; uploadedVersionCodes=101: two\.apk: .*; three\.aab: /);
+      expect(mockAndroidPublisher.edits.bundles.upload).toHaveBeenCalledTimes(1);
+    });
+
     test('throws for invalid release extension', async () => {
       await expect(__testables.uploadReleaseFiles('edit-1', options(), ['bad.txt'])).rejects.toThrow(
         'bad.txt is invalid (missing or invalid file extension).'
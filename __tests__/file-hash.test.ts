@@ -0,0 +1,27 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { sha256File } from '../src/utils/file-hash';
+
+describe('sha256File', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-hash-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('returns the lowercase hex digest of the file contents', async () => {
+    const filePath = path.join(tempDir, 'app.aab');
+    fs.writeFileSync(filePath, 'abc');
+
+    await expect(sha256File(filePath)).resolves.toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  test('rejects when the file cannot be read', async () => {
+    await expect(sha256File(path.join(tempDir, 'missing.aab'))).rejects.toThrow('ENOENT');
+  });
+});
@@ -0,0 +1,99 @@
+jest.mock('../src/utils/logger', () => ({
+  d: jest.fn(),
+}));
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readStoreImages } from '../src/images';
+
+describe('readStoreImages', () => {
+  let tempDir: string;
+
+  function writeImages(locale: string, imageType: string, files: Record<string, string | Buffer>): void {
+    const dir = path.join(tempDir, locale, 'images', imageType);
+    fs.mkdirSync(dir, { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(dir, file), content);
+    }
+  }
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'images-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('reads image folders per locale in file name order with hashes', async () => {
+    writeImages('en-US', 'phoneScreenshots', { '10.png': 'ten', '2.jpg': 'two', 'notes.txt': 'ignored' });
+    writeImages('en-US', 'icon', { 'icon.PNG': 'abc' });
+    // 알 수 없는 종류, 비어 있는 폴더, 이미지 폴더가 없는 언어는 건너뜀
+    writeImages('en-US', 'promoGraphics', { '1.png': 'ignored' });
+    writeImages('ko-KR', 'tvBanner', {});
+    fs.mkdirSync(path.join(tempDir, 'ja-JP'));
+    fs.mkdirSync(path.join(tempDir, 'en-US', 'images', 'phoneScreenshots', '3.png'));
+
+    const imagesDir = path.join(tempDir, 'en-US', 'images');
+    await expect(readStoreImages(tempDir)).resolves.toEqual([
+      {
+        language: 'en-US',
+        imageType: 'icon',
+        images: [
+          {
+            filePath: path.join(imagesDir, 'icon', 'icon.PNG'),
+            sha256: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+            mimeType: 'image/png',
+          },
+        ],
+      },
+      {
+        language: 'en-US',
+        imageType: 'phoneScreenshots',
+        images: [
+          {
+            filePath: path.join(imagesDir, 'phoneScreenshots', '2.jpg'),
+            sha256: '3fc4ccfe745870e2c0d99f71f30ff0656c8dedd41cc1d7d3d376b0dbe685e2f3',
+            mimeType: 'image/jpeg',
+          },
+          {
+            filePath: path.join(imagesDir, 'phoneScreenshots', '10.png'),
+            sha256: 'e4432baa90819aaef51d2a7f8e148bf7e679610f3173752fabb4dcb2d0f418d3',
+            mimeType: 'image/png',
+          },
+        ],
+      },
+    ]);
+  });
+
+  test('rejects more images than Google Play allows', async () => {
+    writeImages('en-US', 'featureGraphic', { 'a.png': 'a', 'b.png': 'b' });
+
+    await expect(readStoreImages(tempDir)).rejects.toThrow('en-US has 2 featureGraphic images; Google Play allows at most 1');
+  });
+
+  test('rejects images larger than Google Play allows', async () => {
+    writeImages('en-US', 'icon', { 'icon.png': Buffer.alloc(1024 * 1024 + 1) });
+
+    await expect(readStoreImages(tempDir)).rejects.toThrow(
+      'icon image for en-US is too large: icon.png is 1048577 bytes; Google Play allows at most 1048576'
+    );
+  });
+
+  test('rejects symlinked image folders', async () => {
+    writeImages('en-US', 'icon', { 'icon.png': 'abc' });
+    fs.mkdirSync(path.join(tempDir, 'ko-KR'));
+    fs.symlinkSync(path.join(tempDir, 'en-US', 'images'), path.join(tempDir, 'ko-KR', 'images'));
+
+    await expect(readStoreImages(tempDir)).rejects.toThrow('listingsDirectory must not contain symbolic links: images');
+  });
+
+  test('rejects symlinked image files', async () => {
+    writeImages('en-US', 'icon', {});
+    fs.writeFileSync(path.join(tempDir, 'outside.png'), 'abc');
+    fs.symlinkSync(path.join(tempDir, 'outside.png'), path.join(tempDir, 'en-US', 'images', 'icon', 'icon.png'));
+
+    await expect(readStoreImages(tempDir)).rejects.toThrow('listingsDirectory must not contain symbolic links: icon.png');
+  });
+});
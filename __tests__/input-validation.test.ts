@@ -1,4 +1,16 @@
-import { validateInAppUpdatePriority, validateReleaseFiles, validateStatus, validateUserFraction } from '../src/input-validation';
+import {
+  toDryRunMode,
+  toExistingDraftPolicy,
+  validateInAppUpdatePriority,
+  validateReleaseFiles,
+  validateReleaseNameTemplate,
+  validateRetainedVersionCodes,
+  validateRetryPolicy,
+  validateStatus,
+  validateTimeouts,
+  validateUploadConcurrency,
+  validateUserFraction,
+} from '../src/input-validation';
 
 test('invalid in-app update priority fails validation', async () => {
   const testValues = [-1, 6, -1000, 1000, NaN, Infinity, 1.5, 5.1];
@@ -18,6 +30,53 @@ test('zero in-app update priority passes validation explicitly', async () => {
   await expect(validateInAppUpdatePriority(0)).resolves.toBeUndefined();
 });
 
+test('invalid retained version codes fail validation', async () => {
+  await expect(validateRetainedVersionCodes([10, 0, -1])).rejects.toThrowError(`'retainedVersionCodes' must be positive integers! Got 0,-1`);
+  await expect(validateRetainedVersionCodes([1.5])).rejects.toThrowError(`'retainedVersionCodes' must be positive integers! Got 1.5`);
+  await expect(validateRetainedVersionCodes([10, 11, 10])).rejects.toThrowError(`'retainedVersionCodes' must not contain duplicates! Got 10,11,10`);
+});
+
+test('valid retained version codes pass validation', async () => {
+  await expect(validateRetainedVersionCodes([10, 11])).resolves.toBeUndefined();
+  await expect(validateRetainedVersionCodes(undefined)).resolves.toBeUndefined();
+});
+
+test('retry policy bounds are enforced', async () => {
+  await expect(validateRetryPolicy(1, 0)).resolves.toBeUndefined();
+  await expect(validateRetryPolicy(10, 60000)).resolves.toBeUndefined();
+  await expect(validateRetryPolicy(0, 1000)).rejects.toThrowError(`'retryMaxAttempts' must be an integer between 1 and 10! Got 0`);
+  await expect(validateRetryPolicy(11, 1000)).rejects.toThrowError(`'retryMaxAttempts' must be an integer between 1 and 10! Got 11`);
+  await expect(validateRetryPolicy(3, -1)).rejects.toThrowError(`'retryBaseDelayMs' must be an integer between 0 and 60000! Got -1`);
+  await expect(validateRetryPolicy(3, 1.5)).rejects.toThrowError(`'retryBaseDelayMs' must be an integer between 0 and 60000! Got 1.5`);
+});
+
+test('upload concurrency bounds are enforced', async () => {
+  await expect(validateUploadConcurrency(1)).resolves.toBeUndefined();
+  await expect(validateUploadConcurrency(10)).resolves.toBeUndefined();
+  await expect(validateUploadConcurrency(0)).rejects.toThrowError(`'uploadConcurrency' must be an integer between 1 and 10! Got 0`);
+  await expect(validateUploadConcurrency(11)).rejects.toThrowError(`'uploadConcurrency' must be an integer between 1 and 10! Got 11`);
+});
+
+test('timeout bounds are enforced', async () => {
+  await expect(validateTimeouts(3600, 600)).resolves.toBeUndefined();
+  await expect(validateTimeouts(60, 10)).resolves.toBeUndefined();
+  await expect(validateTimeouts(59, 10)).rejects.toThrowError(`'runTimeoutSeconds' must be an integer between 60 and 21600! Got 59`);
+  await expect(validateTimeouts(21601, 600)).rejects.toThrowError(`'runTimeoutSeconds' must be an integer between 60 and 21600! Got 21601`);
+  await expect(validateTimeouts(3600, 9)).rejects.toThrowError(`'apiCallTimeoutSeconds' must be an integer between 10 and 3600! Got 9`);
+  await expect(validateTimeouts(3600, 3601)).rejects.toThrowError(`'apiCallTimeoutSeconds' must be an integer between 10 and 3600! Got 3601`);
+  await expect(validateTimeouts(120, 300)).rejects.toThrowError(`'apiCallTimeoutSeconds' (300) must not exceed 'runTimeoutSeconds' (120)`);
+});
+
+test('release name templates accept only known placeholders', async () => {
+  await expect(validateReleaseNameTemplate('{versionName} ({versionCode})')).resolves.toBeUndefined();
+  await expect(validateReleaseNameTemplate('Release')).resolves.toBeUndefined();
+  await expect(validateReleaseNameTemplate(undefined)).resolves.toBeUndefined();
+  await expect(validateReleaseNameTemplate('  ')).rejects.toThrowError(`'releaseNameTemplate' must not be blank`);
+  await expect(validateReleaseNameTemplate('{versionName} {sha} {}')).rejects.toThrowError(
+    `Invalid 'releaseNameTemplate' placeholder(s): {sha}, {}. Use {versionName} or {versionCode}`
+  );
+});
+
 test('invalid releaseFiles glob fails validation', async () => {
   const testValues = ['./__tests__/releasefiles/*.null', `./__tests__/releasefiles/nonexistent-release.aab`];
   await expect(validateReleaseFiles(testValues)).rejects.toThrowError();
@@ -85,3 +144,25 @@ test('valid user fraction passes validation', async () => {
     await validateUserFraction(value);
   }
 });
+
+test('existing draft policies pass validation', () => {
+  for (const value of ['keep', 'replace', 'reject']) {
+    expect(toExistingDraftPolicy(value)).toBe(value);
+  }
+});
+
+test('invalid existing draft policy fails validation', () => {
+  expect(() => toExistingDraftPolicy('merge')).toThrow("Invalid existingDrafts provided! Must be one of 'keep', 'replace', 'reject'. Got merge");
+  expect(() => toExistingDraftPolicy(undefined)).toThrow('Got undefined');
+});
+
+test('dry-run modes accept known values and boolean spellings', () => {
+  expect(toDryRunMode('validate-remote')).toBe('validate-remote');
+  expect(toDryRunMode('TRUE')).toBe('true');
+  expect(toDryRunMode('False')).toBe('false');
+});
+
+test('invalid dry-run mode fails validation', () => {
+  expect(() => toDryRunMode('remote')).toThrow("Invalid dryRun provided! Must be one of 'false', 'true', 'validate-remote'. Got remote");
+  expect(() => toDryRunMode(undefined)).toThrow('Got undefined');
+});
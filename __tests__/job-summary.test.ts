@@ -0,0 +1,169 @@
+jest.mock('../src/utils/logger', () => ({
+  d: jest.fn(),
+  w: jest.fn(),
+}));
+
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as logger from '../src/utils/logger';
+import { writeSignSummary, writeUploadSummary } from '../src/job-summary';
+
+describe('job summary', () => {
+  const originalStepSummary = process.env.GITHUB_STEP_SUMMARY;
+  let tempDir: string;
+  let summaryFile: string;
+
+  function readSummary(): string {
+    return fs.readFileSync(summaryFile, 'utf8');
+  }
+
+  // core.summary는 처음 확인한 요약 파일 경로를 캐시하므로 테스트 전체에서 같은 파일을 사용
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'job-summary-'));
+    summaryFile = path.join(tempDir, 'summary.md');
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fs.writeFileSync(summaryFile, '');
+    process.env.GITHUB_STEP_SUMMARY = summaryFile;
+  });
+
+  afterEach(() => {
+    core.summary.emptyBuffer();
+  });
+
+  afterAll(() => {
+    process.env.GITHUB_STEP_SUMMARY = originalStepSummary;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('writes the committed release with a masked edit id', async () => {
+    await writeUploadSummary({
+      packageName: 'com.example.app',
+      track: 'production',
+      releaseFiles: ['/workspace/build/app<phone>.aab'],
+      editId: '01234567890123456789',
+      release: { status: 'inProgress', userFraction: 0.1, versionCodes: ['101', '102'] },
+      releaseNoteLocales: ['en-US', 'ko-KR'],
+      reusedVersionCodes: [101],
+      downloadUrls: ['https://play.google.com/apps/test/com.example.app/101'],
+    });
+
+    const summary = readSummary();
+    expect(summary).toContain('<h3>Google Play upload</h3>');
+    expect(summary).toContain('<tr><td>Package</td><td>com.example.app</td></tr>');
+    expect(summary).toContain('<tr><td>Track</td><td>production</td></tr>');
+    expect(summary).toContain('<tr><td>Edit</td><td>0123...6789</td></tr>');
+    expect(summary).not.toContain('01234567890123456789');
+    expect(summary).toContain('<tr><td>Status</td><td>inProgress</td></tr>');
+    expect(summary).toContain('<tr><td>Rollout fraction</td><td>0.1</td></tr>');
+    expect(summary).toContain('<tr><td>Version codes</td><td>101, 102</td></tr>');
+    expect(summary).toContain('<tr><td>Reused version codes</td><td>101</td></tr>');
+    expect(summary).toContain('<tr><td>Release notes</td><td>en-US, ko-KR</td></tr>');
+    expect(summary).toContain('<li>app&lt;phone&gt;.aab</li>');
+    expect(summary).not.toContain('/workspace/build');
+    expect(summary).toContain(
+      '<li><a href="https://play.google.com/apps/test/com.example.app/101">https://play.google.com/apps/test/com.example.app/101</a></li>'
+    );
+  });
+
+  test('marks validate-only uploads and full rollouts without release notes', async () => {
+    await writeUploadSummary({
+      packageName: 'com.example.app',
+      track: 'beta',
+      releaseFiles: ['app.apk'],
+      editId: 'edit-1',
+      validateOnly: true,
+      release: { status: undefined, userFraction: undefined, versionCodes: ['7'] },
+      releaseNoteLocales: [],
+      reusedVersionCodes: [],
+      downloadUrls: [],
+    });
+
+    const summary = readSummary();
+    expect(summary).toContain('<h3>Google Play upload (validated, not committed)</h3>');
+    expect(summary).toContain('<tr><td>Edit</td><td>****</td></tr>');
+    expect(summary).toContain('<tr><td>Status</td><td>unspecified</td></tr>');
+    expect(summary).toContain('<tr><td>Rollout fraction</td><td>full rollout</td></tr>');
+    expect(summary).toContain('<tr><td>Release notes</td><td>none</td></tr>');
+    expect(summary).not.toContain('Reused version codes');
+    expect(summary).not.toContain('Internal sharing links');
+  });
+
+  test('marks uploads that left the edit open', async () => {
+    await writeUploadSummary({
+      packageName: 'com.example.app',
+      track: 'beta',
+      releaseFiles: ['app.aab'],
+      editId: 'shared-edit',
+      uncommitted: true,
+      release: { status: 'completed', userFraction: undefined, versionCodes: ['7'] },
+      downloadUrls: [],
+    });
+
+    expect(readSummary()).toContain('<h3>Google Play upload (edit left open, not committed)</h3>');
+  });
+
+  test('notes commits that Google Play required to skip review', async () => {
+    await writeUploadSummary({
+      packageName: 'com.example.app',
+      track: 'production',
+      releaseFiles: ['app.aab'],
+      editId: 'edit-1',
+      changesNotSentForReviewFallback: true,
+      downloadUrls: [],
+    });
+
+    expect(readSummary()).toContain('<tr><td>Sent for review</td><td>no (Google Play required changesNotSentForReview)</td></tr>');
+  });
+
+  test('lists internal sharing links without release details', async () => {
+    await writeUploadSummary({
+      packageName: 'com.example.app',
+      track: 'internalsharing',
+      releaseFiles: ['app.aab'],
+      downloadUrls: ['https://play.google.com/apps/test/RQ?x="1"&y=2'],
+    });
+
+    const summary = readSummary();
+    expect(summary).not.toContain('<td>Edit</td>');
+    expect(summary).not.toContain('<td>Version codes</td>');
+    expect(summary).not.toContain('<td>Release notes</td>');
+    expect(summary).toContain('<h4>Internal sharing links</h4>');
+    expect(summary).toContain('href="https://play.google.com/apps/test/RQ?x=&quot;1&quot;&amp;y=2"');
+  });
+
+  test('writes signed files with their certificate digests', async () => {
+    await writeSignSummary([
+      { signedReleaseFile: '/workspace/app-signed.apk', certificateDigests: ['AB:CD', 'EF:01'] },
+      { signedReleaseFile: '/workspace/app.aab', certificateDigests: ['AB:CD'] },
+    ]);
+
+    const summary = readSummary();
+    expect(summary).toContain('<h3>Signed release files</h3>');
+    expect(summary).toContain('<tr><td>app-signed.apk</td><td><code>AB:CD</code><br><code>EF:01</code></td></tr>');
+    expect(summary).toContain('<tr><td>app.aab</td><td><code>AB:CD</code></td></tr>');
+    expect(summary).not.toContain('/workspace');
+  });
+
+  test('skips the summary when GITHUB_STEP_SUMMARY is not set', async () => {
+    delete process.env.GITHUB_STEP_SUMMARY;
+
+    await writeSignSummary([{ signedReleaseFile: 'app.aab', certificateDigests: ['AB:CD'] }]);
+
+    expect(readSummary()).toBe('');
+    expect(logger.d).toHaveBeenCalledWith('GITHUB_STEP_SUMMARY is not set; skipping the job summary');
+  });
+
+  test('warns instead of failing when the summary cannot be written', async () => {
+    jest.spyOn(core.summary, 'write').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(writeSignSummary([{ signedReleaseFile: 'app.aab', certificateDigests: ['AB:CD'] }])).resolves.toBeUndefined();
+
+    expect(logger.w).toHaveBeenCalledWith('Failed to write the job summary: disk full');
+    expect(core.summary.isEmptyBuffer()).toBe(true);
+  });
+});
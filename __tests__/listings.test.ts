@@ -0,0 +1,94 @@
+jest.mock('../src/utils/logger', () => ({
+  d: jest.fn(),
+}));
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readStoreListings } from '../src/listings';
+
+describe('readStoreListings', () => {
+  let tempDir: string;
+
+  function writeListing(locale: string, files: Record<string, string>): void {
+    fs.mkdirSync(path.join(tempDir, locale), { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(tempDir, locale, file), content);
+    }
+  }
+
+  const complete = {
+    'title.txt': 'Example\n',
+    'short_description.txt': 'Short description\n',
+    'full_description.txt': 'Full description\nwith two lines\n',
+  };
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'listings-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('returns undefined when directory is not set', async () => {
+    await expect(readStoreListings(undefined)).resolves.toBeUndefined();
+    await expect(readStoreListings('')).resolves.toBeUndefined();
+  });
+
+  test('reads every locale directory in the fastlane layout', async () => {
+    writeListing('ko-KR', complete);
+    writeListing('en-US', { ...complete, 'video.txt': 'https://www.youtube.com/watch?v=example\n' });
+    // 등록정보 파일이 없는 디렉토리(예: images만 있는 언어)와 언어가 아닌 항목은 무시
+    writeListing('ja-JP', { 'changelogs.txt': 'ignored' });
+    writeListing('images', complete);
+    fs.writeFileSync(path.join(tempDir, 'fr-FR'), 'not a directory');
+
+    await expect(readStoreListings(tempDir)).resolves.toEqual([
+      {
+        language: 'en-US',
+        title: 'Example',
+        shortDescription: 'Short description',
+        fullDescription: 'Full description\nwith two lines',
+        video: 'https://www.youtube.com/watch?v=example',
+      },
+      { language: 'ko-KR', title: 'Example', shortDescription: 'Short description', fullDescription: 'Full description\nwith two lines' },
+    ]);
+  });
+
+  test('rejects a locale that is missing required files', async () => {
+    writeListing('en-US', { 'title.txt': 'Example' });
+    fs.mkdirSync(path.join(tempDir, 'en-US', 'full_description.txt'));
+
+    await expect(readStoreListings(tempDir)).rejects.toThrow(
+      'listingsDirectory locale en-US is missing short_description.txt, full_description.txt; Google Play replaces the whole listing for a language'
+    );
+  });
+
+  test('rejects text longer than Google Play allows', async () => {
+    writeListing('ko-KR', { ...complete, 'title.txt': '가'.repeat(31) });
+
+    await expect(readStoreListings(tempDir)).rejects.toThrow('title.txt for ko-KR is 31 characters; Google Play allows at most 30');
+  });
+
+  test('rejects oversized listing files', async () => {
+    writeListing('en-US', { ...complete, 'full_description.txt': 'a'.repeat(128 * 1024 + 1) });
+
+    await expect(readStoreListings(tempDir)).rejects.toThrow('listing file is too large: full_description.txt');
+  });
+
+  test('rejects symlinked locale directories', async () => {
+    writeListing('en-US', complete);
+    fs.symlinkSync(path.join(tempDir, 'en-US'), path.join(tempDir, 'en-GB'));
+
+    await expect(readStoreListings(tempDir)).rejects.toThrow('listingsDirectory must not contain symbolic links: en-GB');
+  });
+
+  test('rejects symlinked listing files', async () => {
+    writeListing('en-US', { 'short_description.txt': 'Short description', 'full_description.txt': 'Full description' });
+    fs.writeFileSync(path.join(tempDir, 'outside.txt'), 'Example');
+    fs.symlinkSync(path.join(tempDir, 'outside.txt'), path.join(tempDir, 'en-US', 'title.txt'));
+
+    await expect(readStoreListings(tempDir)).rejects.toThrow('listingsDirectory must not contain symbolic links: title.txt');
+  });
+});
@@ -32,6 +32,11 @@ jest.mock('p-timeout', () => ({
 }));
 
 jest.mock('../src/edits', () => ({
+  runCommit: jest.fn(),
+  runDiscard: jest.fn(),
+  runPromote: jest.fn(),
+  runPruneListingsPreview: jest.fn(),
+  runRollout: jest.fn(),
   runUpload: jest.fn(),
 }));
 
@@ -42,21 +47,51 @@ jest.mock('../src/input-validation', () => ({
     }
     throw new Error(`Invalid status provided! Must be one of 'completed', 'inProgress', 'halted', 'draft'. Got ${status ?? 'undefined'}`);
   }),
+  toDryRunMode: jest.fn((mode: string) => {
+    if (mode === 'false' || mode === 'true' || mode === 'validate-remote') {
+      return mode;
+    }
+    throw new Error(`Invalid dryRun provided! Must be one of 'false', 'true', 'validate-remote'. Got ${mode}`);
+  }),
+  toExistingDraftPolicy: jest.fn((policy: string) => {
+    if (policy === 'keep' || policy === 'replace' || policy === 'reject') {
+      return policy;
+    }
+    throw new Error(`Invalid existingDrafts provided! Must be one of 'keep', 'replace', 'reject'. Got ${policy}`);
+  }),
   validateInAppUpdatePriority: jest.fn(),
   validateReleaseFiles: jest.fn(),
+  validateReleaseNameTemplate: jest.fn(),
+  validateRetainedVersionCodes: jest.fn(),
+  validateRetryPolicy: jest.fn(),
   validateStatus: jest.fn(),
+  validateTimeouts: jest.fn(),
+  validateUploadConcurrency: jest.fn(),
   validateUserFraction: jest.fn(),
 }));
 
+jest.mock('../src/artifact-metadata', () => ({
+  preflightArtifactMetadata: jest.fn(),
+}));
+
+jest.mock('../src/deobfuscation-manifest', () => ({
+  readDeobfuscationManifest: jest.fn(),
+}));
+
 jest.mock('../src/utils/io-utils', () => ({
   findReleaseFiles: jest.fn(),
 }));
 
 jest.mock('../src/signing', () => ({
+  readCertificateDigests: jest.fn(),
   signApkFile: jest.fn(),
   signAabFile: jest.fn(),
 }));
 
+jest.mock('../src/job-summary', () => ({
+  writeSignSummary: jest.fn(),
+}));
+
 jest.mock('../src/utils/logger', () => ({
   d: jest.fn(),
   e: jest.fn(),
@@ -64,6 +99,10 @@ jest.mock('../src/utils/logger', () => ({
   w: jest.fn(),
 }));
 
+jest.mock('../src/utils/shutdown', () => ({
+  registerShutdownCleanup: jest.fn(),
+}));
+
 jest.mock('@actions/exec', () => ({
   exec: jest.fn(),
 }));
@@ -72,18 +111,54 @@ jest.mock('../src/whatsnew', () => ({
   readLocalizedReleaseNotes: jest.fn(),
 }));
 
+jest.mock('../src/listings', () => ({
+  readStoreListings: jest.fn(),
+}));
+
+jest.mock('../src/images', () => ({
+  readStoreImages: jest.fn(),
+}));
+
+jest.mock('../src/app-details', () => ({
+  readAppDetails: jest.fn(),
+}));
+
 import * as core from '@actions/core';
 import * as fs from 'fs';
 import { unlink, writeFile } from 'fs/promises';
 import pTimeout from 'p-timeout';
-import { runUpload as runUploadEdit } from '../src/edits';
-import { validateInAppUpdatePriority, validateReleaseFiles, validateStatus, validateUserFraction } from '../src/input-validation';
+import {
+  runCommit as runCommitEdit,
+  runDiscard as runDiscardEdit,
+  runPromote as runPromoteEdit,
+  runPruneListingsPreview,
+  runRollout as runRolloutEdit,
+  runUpload as runUploadEdit,
+} from '../src/edits';
+import {
+  validateInAppUpdatePriority,
+  validateReleaseFiles,
+  validateReleaseNameTemplate,
+  validateRetainedVersionCodes,
+  validateRetryPolicy,
+  validateStatus,
+  validateTimeouts,
+  validateUploadConcurrency,
+  validateUserFraction,
+} from '../src/input-validation';
+import { preflightArtifactMetadata } from '../src/artifact-metadata';
+import { readDeobfuscationManifest } from '../src/deobfuscation-manifest';
 import * as ioUtils from '../src/utils/io-utils';
-import { signAabFile, signApkFile } from '../src/signing';
+import { readCertificateDigests, signAabFile, signApkFile } from '../src/signing';
+import { writeSignSummary } from '../src/job-summary';
 import * as logger from '../src/utils/logger';
+import { registerShutdownCleanup } from '../src/utils/shutdown';
 import { exec } from '@actions/exec';
 import { readLocalizedReleaseNotes } from '../src/whatsnew';
-import { __testables, run, uploadRun } from '../src/main';
+import { readStoreListings } from '../src/listings';
+import { readStoreImages } from '../src/images';
+import { readAppDetails } from '../src/app-details';
+import { __testables, commitRun, discardRun, promoteRun, rolloutRun, run, uploadRun } from '../src/main';
 
 type InputMap = Record<string, string | undefined>;
 const VALID_SERVICE_ACCOUNT_JSON = JSON.stringify({
@@ -94,6 +169,7 @@ const VALID_SERVICE_ACCOUNT_JSON = JSON.stringify({
 });
 const TEMP_SERVICE_ACCOUNT_FILE = '/tmp/android-support-service-account-test/serviceAccountJson.json';
 const TEMP_SIGNING_KEY_FILE = '/tmp/android-support-signing-test/signingKey.jks';
+const ABORT_SIGNAL: unknown = expect.any(AbortSignal);
 
 function fileStat(overrides: Partial<{ isDirectory: () => boolean; isFile: () => boolean; isSymbolicLink: () => boolean; size: number }> = {}) {
   return {
@@ -129,13 +205,19 @@ describe('main module', () => {
     (fs.promises.readFile as unknown as jest.Mock).mockResolvedValue(VALID_SERVICE_ACCOUNT_JSON);
     (pTimeout as jest.Mock).mockImplementation(async (promise: Promise<unknown>) => promise);
     (runUploadEdit as jest.Mock).mockResolvedValue(undefined);
+    (runPromoteEdit as jest.Mock).mockResolvedValue(undefined);
+    (runRolloutEdit as jest.Mock).mockResolvedValue(undefined);
     (validateInAppUpdatePriority as jest.Mock).mockResolvedValue(undefined);
     (validateReleaseFiles as jest.Mock).mockResolvedValue(['./__tests__/releasefiles/release.aab']);
+    (validateRetainedVersionCodes as jest.Mock).mockResolvedValue(undefined);
+    (validateReleaseNameTemplate as jest.Mock).mockResolvedValue(undefined);
+    (preflightArtifactMetadata as jest.Mock).mockResolvedValue([]);
     (validateStatus as jest.Mock).mockResolvedValue(undefined);
     (validateUserFraction as jest.Mock).mockResolvedValue(undefined);
     (ioUtils.findReleaseFiles as jest.Mock).mockReturnValue(undefined);
     (signApkFile as jest.Mock).mockResolvedValue('/releases/app-signed.apk');
     (signAabFile as jest.Mock).mockResolvedValue('/releases/app-signed.aab');
+    (readCertificateDigests as jest.Mock).mockResolvedValue(['AB:CD']);
     (exec as jest.Mock).mockResolvedValue(0);
     (readLocalizedReleaseNotes as jest.Mock).mockResolvedValue([{ language: 'en-US', text: 'localized' }]);
   });
@@ -178,6 +260,48 @@ describe('main module', () => {
       expect(core.setFailed).toHaveBeenCalledWith('No release files (.apk or .aab) could be found.');
     });
 
+    test('routes to promote flow', async () => {
+      setInputs({
+        type: 'promote',
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        fromTrack: 'internal',
+        track: 'production',
+        status: 'completed',
+      });
+
+      await run();
+
+      expect(runPromoteEdit).toHaveBeenCalledTimes(1);
+      expect(runUploadEdit).not.toHaveBeenCalled();
+    });
+
+    test('routes to rollout flow', async () => {
+      setInputs({
+        type: 'rollout',
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        track: 'production',
+        status: 'completed',
+      });
+
+      await run();
+
+      expect(runRolloutEdit).toHaveBeenCalledTimes(1);
+    });
+
+    test.each([
+      ['commit', runCommitEdit],
+      ['discard', runDiscardEdit],
+    ])('routes to %s flow', async (type, runEdit) => {
+      setInputs({ type, useApplicationDefaultCredentials: 'true', packageName: 'com.app', existingEditId: 'edit-123' });
+
+      await run();
+
+      expect(runEdit).toHaveBeenCalledTimes(1);
+      expect(runUploadEdit).not.toHaveBeenCalled();
+    });
+
     test('fails for unknown type', async () => {
       setInputs({ type: 'unknown' });
       await run();
@@ -237,6 +361,7 @@ describe('main module', () => {
         releaseName: 'Release Name',
         releaseNotesSource: 'none',
         releaseNotes: 'inline release notes',
+        retainedVersionCodes: '90, 91',
       });
 
       await uploadRun();
@@ -245,6 +370,7 @@ describe('main module', () => {
       expect(validateUserFraction).toHaveBeenCalledWith(0.5);
       expect(validateStatus).toHaveBeenCalledWith('inProgress', true);
       expect(validateInAppUpdatePriority).toHaveBeenCalledWith(3);
+      expect(validateRetainedVersionCodes).toHaveBeenCalledWith([90, 91]);
       expect(runUploadEdit).toHaveBeenCalledWith({
         packageName: 'com.app',
         track: 'production',
@@ -259,6 +385,22 @@ describe('main module', () => {
         status: 'inProgress',
         releaseFiles: ['./__tests__/releasefiles/release.aab'],
         releaseNotes: [{ language: 'en-US', text: 'inline release notes' }],
+        listings: undefined,
+        images: undefined,
+        appDetails: undefined,
+        pruneListings: false,
+        existingDrafts: 'replace',
+        retainedVersionCodes: [90, 91],
+        deobfuscationFiles: undefined,
+        releaseNameTemplate: '{versionName} ({versionCode})',
+        validateOnly: false,
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 1000 },
+        apiCallTimeoutMs: 600000,
+        signal: ABORT_SIGNAL,
+        uploadConcurrency: 1,
+        stateFile: undefined,
+        commit: true,
+        changesNotSentForReviewFallback: false,
       });
       expect(logger.w).toHaveBeenCalledWith(
         "WARNING!! 'releaseFile' is deprecated and will be removed in a future release. Please migrate to 'releaseFiles'"
@@ -353,6 +495,22 @@ describe('main module', () => {
         status: 'completed',
         releaseFiles: ['./__tests__/releasefiles/release.aab'],
         releaseNotes: [{ language: 'en-US', text: 'localized' }],
+        listings: undefined,
+        images: undefined,
+        appDetails: undefined,
+        pruneListings: false,
+        existingDrafts: 'replace',
+        retainedVersionCodes: undefined,
+        deobfuscationFiles: undefined,
+        releaseNameTemplate: '{versionName} ({versionCode})',
+        validateOnly: false,
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 1000 },
+        apiCallTimeoutMs: 600000,
+        signal: ABORT_SIGNAL,
+        uploadConcurrency: 1,
+        stateFile: undefined,
+        commit: true,
+        changesNotSentForReviewFallback: false,
       });
     });
 
@@ -401,241 +559,982 @@ describe('main module', () => {
       expect(core.setFailed).toHaveBeenCalledWith("You must provide 'releaseFiles' in your configuration");
     });
 
-    test('dry-run validates inputs but skips the Play API upload', async () => {
+    test('rejects unknown existingDrafts policies before upload', async () => {
       setInputs({
-        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        useApplicationDefaultCredentials: 'true',
         packageName: 'com.app',
         releaseFiles: './__tests__/releasefiles/release.aab',
         track: 'production',
         status: 'completed',
-        dryRun: 'true',
+        existingDrafts: 'merge',
       });
 
       await uploadRun();
 
-      expect(validateReleaseFiles).toHaveBeenCalled();
-      expect(validateStatus).toHaveBeenCalledWith('completed', false);
       expect(runUploadEdit).not.toHaveBeenCalled();
-      expect(core.setOutput).toHaveBeenCalledWith('dryRun', 'true');
+      expect(core.setFailed).toHaveBeenCalledWith("Invalid existingDrafts provided! Must be one of 'keep', 'replace', 'reject'. Got merge");
     });
 
-    test('uses application default credentials only when explicitly enabled', async () => {
+    test('passes a custom retry policy to the upload', async () => {
       setInputs({
         useApplicationDefaultCredentials: 'true',
         packageName: 'com.app',
         releaseFiles: './__tests__/releasefiles/release.aab',
         track: 'production',
         status: 'completed',
+        retryMaxAttempts: '5',
+        retryBaseDelayMs: '250',
       });
 
       await uploadRun();
 
-      expect(runUploadEdit).toHaveBeenCalled();
-      expect(core.exportVariable).not.toHaveBeenCalled();
+      expect(validateRetryPolicy).toHaveBeenCalledWith(5, 250);
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ retryPolicy: { maxAttempts: 5, baseDelayMs: 250 } }));
     });
 
-    test('handles Error in upload flow', async () => {
+    test('passes custom timeouts to the upload', async () => {
       setInputs({
-        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        useApplicationDefaultCredentials: 'true',
         packageName: 'com.app',
         releaseFiles: './__tests__/releasefiles/release.aab',
         track: 'production',
         status: 'completed',
+        runTimeoutSeconds: '7200',
+        apiCallTimeoutSeconds: '120',
       });
-      (validateStatus as jest.Mock).mockRejectedValue(new Error('status invalid'));
 
       await uploadRun();
 
-      expect(core.setFailed).toHaveBeenCalledWith('status invalid');
-      expect(unlink).toHaveBeenCalledWith(TEMP_SERVICE_ACCOUNT_FILE);
+      expect(validateTimeouts).toHaveBeenCalledWith(7200, 120);
+      expect(pTimeout).toHaveBeenCalledWith(expect.any(Promise), expect.objectContaining({ milliseconds: 7200000 }));
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ apiCallTimeoutMs: 120000 }));
     });
 
-    test('handles non-Error in upload flow', async () => {
+    test('passes the upload concurrency to the upload', async () => {
       setInputs({
-        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        useApplicationDefaultCredentials: 'true',
         packageName: 'com.app',
         releaseFiles: './__tests__/releasefiles/release.aab',
         track: 'production',
         status: 'completed',
+        uploadConcurrency: '4',
       });
-      (validateUserFraction as jest.Mock).mockRejectedValue('bad-value');
 
       await uploadRun();
 
-      expect(core.setFailed).toHaveBeenCalledWith('bad-value');
+      expect(validateUploadConcurrency).toHaveBeenCalledWith(4);
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ uploadConcurrency: 4 }));
     });
 
-    test('rejects malformed numeric input strings before upload', async () => {
+    test('passes the state file to the upload', async () => {
       setInputs({
-        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        useApplicationDefaultCredentials: 'true',
         packageName: 'com.app',
         releaseFiles: './__tests__/releasefiles/release.aab',
         track: 'production',
         status: 'completed',
-        userFraction: '0.5abc',
-        inAppUpdatePriority: '3abc',
+        stateFile: './upload-state.json',
       });
 
       await uploadRun();
 
-      expect(runUploadEdit).not.toHaveBeenCalled();
-      expect(core.setFailed).toHaveBeenCalledWith("'userFraction' must be a valid number. Got 0.5abc");
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ stateFile: './upload-state.json' }));
     });
 
-    test('rejects malformed in-app update priority strings before upload', async () => {
+    test('leaves the edit open when commit is false', async () => {
       setInputs({
-        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        useApplicationDefaultCredentials: 'true',
         packageName: 'com.app',
         releaseFiles: './__tests__/releasefiles/release.aab',
         track: 'production',
         status: 'completed',
-        inAppUpdatePriority: '3abc',
+        commit: 'false',
       });
 
       await uploadRun();
 
-      expect(runUploadEdit).not.toHaveBeenCalled();
-      expect(core.setFailed).toHaveBeenCalledWith("'inAppUpdatePriority' must be a valid integer. Got 3abc");
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ commit: false }));
     });
 
-    test('propagates pTimeout failures and still cleans up credentials', async () => {
+    test('allows the changesNotSentForReview commit fallback', async () => {
       setInputs({
-        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        useApplicationDefaultCredentials: 'true',
         packageName: 'com.app',
         releaseFiles: './__tests__/releasefiles/release.aab',
         track: 'production',
         status: 'completed',
+        changesNotSentForReviewFallback: 'true',
       });
-      (pTimeout as jest.Mock).mockRejectedValueOnce(new Error('upload timed out'));
 
       await uploadRun();
 
-      expect(runUploadEdit).toHaveBeenCalled();
-      expect(core.setFailed).toHaveBeenCalledWith('upload timed out');
-      expect(unlink).toHaveBeenCalledWith(TEMP_SERVICE_ACCOUNT_FILE);
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ changesNotSentForReview: false, changesNotSentForReviewFallback: true }));
     });
-  });
 
-  describe('__testables.validateServiceAccountJson', () => {
-    test('rejects when both credential options are present', async () => {
-      await expect(__testables.validateServiceAccountJson(VALID_SERVICE_ACCOUNT_JSON, '/tmp/service.json')).rejects.toThrow(
-        "Provide only one of 'serviceAccountJsonPlainText', 'serviceAccountJson', or 'useApplicationDefaultCredentials'"
-      );
-      expect(writeFile).not.toHaveBeenCalled();
-      expect(core.exportVariable).not.toHaveBeenCalled();
-    });
+    test('reads store listings before upload', async () => {
+      const listings = [{ language: 'en-US', title: 'App', shortDescription: 'Short', fullDescription: 'Full' }];
+      (readStoreListings as jest.Mock).mockResolvedValueOnce(listings);
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        listingsDirectory: './fastlane/metadata/android',
+      });
 
-    test('writes plain text credentials to a generated temp file', async () => {
-      await __testables.validateServiceAccountJson(VALID_SERVICE_ACCOUNT_JSON, undefined);
+      await uploadRun();
 
-      expect(writeFile).toHaveBeenCalledWith(
-        TEMP_SERVICE_ACCOUNT_FILE,
-        VALID_SERVICE_ACCOUNT_JSON,
-        expect.objectContaining({ encoding: 'utf8', mode: 0o600 })
-      );
-      expect(core.exportVariable).toHaveBeenCalledWith('GOOGLE_APPLICATION_CREDENTIALS', TEMP_SERVICE_ACCOUNT_FILE);
+      expect(readStoreListings).toHaveBeenCalledWith('./fastlane/metadata/android');
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ listings }));
     });
 
-    test('exports file credentials when plain text credentials are not provided', async () => {
-      await __testables.validateServiceAccountJson(undefined, '/tmp/service.json');
-      expect(core.exportVariable).toHaveBeenCalledWith('GOOGLE_APPLICATION_CREDENTIALS', '/tmp/service.json');
-    });
+    test('reads store images from listingsDirectory when syncImages is set', async () => {
+      const images = [{ language: 'en-US', imageType: 'icon', images: [{ filePath: '/metadata/icon.png', sha256: 'aaa', mimeType: 'image/png' }] }];
+      (readStoreImages as jest.Mock).mockResolvedValueOnce(images);
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        listingsDirectory: './fastlane/metadata/android',
+        syncImages: 'true',
+      });
 
-    test('rejects malformed service account JSON before exporting credentials', async () => {
-      await expect(__testables.validateServiceAccountJson('{"type":"service_account"}', undefined)).rejects.toThrow(
-        'serviceAccountJsonPlainText is missing required field "project_id"'
-      );
-      expect(core.exportVariable).not.toHaveBeenCalled();
-    });
+      await uploadRun();
 
-    test('rejects when neither credential source is provided', async () => {
-      await expect(__testables.validateServiceAccountJson(undefined, undefined)).rejects.toThrow(
-        "You must provide one of 'serviceAccountJsonPlainText' or 'serviceAccountJson', or set 'useApplicationDefaultCredentials' to true"
-      );
+      expect(readStoreImages).toHaveBeenCalledWith('./fastlane/metadata/android');
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ images }));
     });
 
-    test('accepts explicit application default credentials without exporting a JSON path', async () => {
-      await expect(__testables.validateServiceAccountJson(undefined, undefined, true)).resolves.toBeUndefined();
-      expect(core.exportVariable).not.toHaveBeenCalled();
-    });
+    test('rejects syncImages without listingsDirectory', async () => {
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        syncImages: 'true',
+      });
 
-    test('rejects application default credentials combined with JSON credentials', async () => {
-      await expect(__testables.validateServiceAccountJson(VALID_SERVICE_ACCOUNT_JSON, undefined, true)).rejects.toThrow(
-        "Provide only one of 'serviceAccountJsonPlainText', 'serviceAccountJson', or 'useApplicationDefaultCredentials'"
-      );
+      await uploadRun();
+
+      expect(core.setFailed).toHaveBeenCalledWith("'syncImages' requires 'listingsDirectory'");
+      expect(readStoreImages).not.toHaveBeenCalled();
+      expect(runUploadEdit).not.toHaveBeenCalled();
     });
-  });
 
-  describe('__testables.cleanupServiceAccountJsonFile', () => {
-    test('does nothing when no generated credential file exists', async () => {
-      await __testables.cleanupServiceAccountJsonFile('');
+    test('reads app details from the file and contact inputs', async () => {
+      const appDetails = { contactEmail: 'dev@example.com', defaultLanguage: 'ko-KR' };
+      (readAppDetails as jest.Mock).mockResolvedValueOnce(appDetails);
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        appDetails: './app-details.yml',
+        contactEmail: 'dev@example.com',
+      });
 
-      expect(logger.d).toHaveBeenCalledWith('No generated service account json file to clean up');
-      expect(unlink).not.toHaveBeenCalled();
+      await uploadRun();
+
+      expect(readAppDetails).toHaveBeenCalledWith('./app-details.yml', {
+        contactEmail: 'dev@example.com',
+        contactPhone: undefined,
+        contactWebsite: undefined,
+        defaultLanguage: undefined,
+      });
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ appDetails }));
     });
 
-    test('ignores already removed temp credential file', async () => {
-      await __testables.validateServiceAccountJson(VALID_SERVICE_ACCOUNT_JSON, undefined);
-      jest.clearAllMocks();
-      (unlink as jest.Mock).mockRejectedValueOnce(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+    test('passes pruneListings with the local store listings', async () => {
+      (readStoreListings as jest.Mock).mockResolvedValueOnce([
+        { language: 'en-US', title: 'App', shortDescription: 'Short', fullDescription: 'Full' },
+      ]);
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        listingsDirectory: './fastlane/metadata/android',
+        pruneListings: 'true',
+      });
 
-      await __testables.cleanupServiceAccountJsonFile();
+      await uploadRun();
 
-      expect(logger.d).toHaveBeenCalledWith('Service account json file already removed: serviceAccountJson.json');
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ pruneListings: true }));
     });
 
-    test('logs cleanup failures without throwing', async () => {
-      (unlink as jest.Mock).mockRejectedValueOnce(new Error('locked'));
+    test.each([
+      [{}, undefined, "'pruneListings' requires 'listingsDirectory'"],
+      [
+        { listingsDirectory: './fastlane/metadata/android' },
+        [],
+        'pruneListings found no store listings in listingsDirectory; refusing to delete every store listing',
+      ],
+    ])('rejects pruneListings without local store listings (%o)', async (inputs, listings, message) => {
+      (readStoreListings as jest.Mock).mockResolvedValueOnce(listings);
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        pruneListings: 'true',
+        ...inputs,
+      });
 
-      await __testables.cleanupServiceAccountJsonFile(TEMP_SERVICE_ACCOUNT_FILE);
+      await uploadRun();
 
-      expect(logger.w).toHaveBeenCalledWith('Failed to clean up service account json file serviceAccountJson.json: locked');
+      expect(core.setFailed).toHaveBeenCalledWith(message);
+      expect(runUploadEdit).not.toHaveBeenCalled();
     });
-  });
 
-  describe('__testables.signRun', () => {
-    test('returns early in debug mode', async () => {
-      process.env.DEBUG_ACTION = 'true';
-      await __testables.signRun();
-      expect(logger.d).toHaveBeenCalledWith('DEBUG FLAG DETECTED, SHORTCUTTING ACTION.');
+    test('lists the store listings pruneListings would delete in dry run', async () => {
+      (readStoreListings as jest.Mock).mockResolvedValueOnce([
+        { language: 'en-US', title: 'App', shortDescription: 'Short', fullDescription: 'Full' },
+      ]);
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        listingsDirectory: './fastlane/metadata/android',
+        pruneListings: 'true',
+        dryRun: 'true',
+      });
+
+      await uploadRun();
+
+      expect(runPruneListingsPreview).toHaveBeenCalledWith({
+        packageName: 'com.app',
+        listings: [{ language: 'en-US', title: 'App', shortDescription: 'Short', fullDescription: 'Full' }],
+        existingEditId: undefined,
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 1000 },
+        apiCallTimeoutMs: 600000,
+        signal: ABORT_SIGNAL,
+      });
+      expect(runUploadEdit).not.toHaveBeenCalled();
+      expect(core.setOutput).toHaveBeenCalledWith('dryRun', 'true');
     });
 
-    test('fails when no release file is found', async () => {
+    test('rejects invalid store listings in dry run', async () => {
+      (readStoreListings as jest.Mock).mockRejectedValueOnce(new Error('listingsDirectory locale en-US is missing title.txt'));
       setInputs({
-        releaseDirectory: '/releases',
-        signingKeyBase64: 'a2V5',
-        alias: 'alias',
-        keyStorePassword: 'store-pass',
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        listingsDirectory: './fastlane/metadata/android',
+        dryRun: 'true',
       });
-      (ioUtils.findReleaseFiles as jest.Mock).mockReturnValue(undefined);
 
-      await __testables.signRun();
+      await uploadRun();
 
-      expect(core.setFailed).toHaveBeenCalledWith('No release files (.apk or .aab) could be found.');
+      expect(core.setFailed).toHaveBeenCalledWith('listingsDirectory locale en-US is missing title.txt');
+      expect(core.setOutput).not.toHaveBeenCalledWith('dryRun', 'true');
     });
 
-    test('signs a single apk and exports single-file outputs', async () => {
+    test('rejects non-integer timeout inputs before upload', async () => {
       setInputs({
-        releaseDirectory: '/releases',
-        signingKeyBase64: 'a2V5',
-        alias: 'alias',
-        keyStorePassword: 'store-pass',
-        keyPassword: 'key-pass',
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        apiCallTimeoutSeconds: '1m',
       });
-      (ioUtils.findReleaseFiles as jest.Mock).mockReturnValue([{ name: 'app.apk' }]);
 
-      await __testables.signRun();
+      await uploadRun();
 
-      expect(fs.writeFileSync).toHaveBeenCalledWith(TEMP_SIGNING_KEY_FILE, 'a2V5', { encoding: 'base64', mode: 0o600 });
-      expect(signApkFile).toHaveBeenCalledWith('/releases/app.apk', TEMP_SIGNING_KEY_FILE, 'alias', 'store-pass', 'key-pass');
-      expect(fs.rmSync).toHaveBeenCalledWith('/tmp/android-support-signing-test', { recursive: true, force: true });
-      expect(core.exportVariable).toHaveBeenCalledWith('SIGNED_RELEASE_FILE_0', '/releases/app-signed.apk');
-      expect(core.setOutput).toHaveBeenCalledWith('signedReleaseFile0', '/releases/app-signed.apk');
-      expect(core.exportVariable).toHaveBeenCalledWith('SIGNED_RELEASE_FILE', '/releases/app-signed.apk');
-      expect(core.setOutput).toHaveBeenCalledWith('signedReleaseFile', '/releases/app-signed.apk');
+      expect(runUploadEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith("'apiCallTimeoutSeconds' must be a valid integer. Got 1m");
     });
 
-    test('signs multiple artifacts and handles invalid extension', async () => {
+    test('aborts the upload and waits for its cleanup when the run times out', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+      });
+      const events: string[] = [];
+      let uploadSignal: AbortSignal | undefined;
+      (runUploadEdit as jest.Mock).mockImplementationOnce(async ({ signal }: { signal: AbortSignal }) => {
+        uploadSignal = signal;
+        return new Promise((_resolve, reject) => {
+          signal.addEventListener('abort', () => {
+            events.push('edit cleaned up');
+            reject(new Error('bundles.upload failed: aborted'));
+          });
+        });
+      });
+      (pTimeout as jest.Mock).mockImplementationOnce(async (_promise: Promise<unknown>, { fallback }: { fallback: () => Promise<void> }) =>
+        fallback()
+      );
+      (unlink as jest.Mock).mockImplementationOnce(async () => {
+        events.push('credentials removed');
+        return Promise.resolve();
+      });
+
+      await uploadRun();
+
+      expect(uploadSignal?.aborted).toBe(true);
+      expect(core.setFailed).toHaveBeenCalledWith('Upload timed out after 3600000ms');
+      expect(events).toEqual(['edit cleaned up', 'credentials removed']);
+    });
+
+    test('rejects non-integer retry inputs before upload', async () => {
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        retryMaxAttempts: 'three',
+      });
+
+      await uploadRun();
+
+      expect(runUploadEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith("'retryMaxAttempts' must be a valid integer. Got three");
+    });
+
+    test('dry-run validates inputs but skips the Play API upload', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        dryRun: 'true',
+      });
+
+      await uploadRun();
+
+      expect(validateReleaseFiles).toHaveBeenCalled();
+      expect(validateStatus).toHaveBeenCalledWith('completed', false);
+      expect(preflightArtifactMetadata).toHaveBeenCalledWith('com.app', ['./__tests__/releasefiles/release.aab']);
+      expect(runUploadEdit).not.toHaveBeenCalled();
+      expect(runPruneListingsPreview).not.toHaveBeenCalled();
+      expect(core.setOutput).toHaveBeenCalledWith('dryRun', 'true');
+    });
+
+    test('validate-remote dry-run runs the upload in validate-only mode', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        dryRun: 'validate-remote',
+      });
+
+      await uploadRun();
+
+      expect(preflightArtifactMetadata).not.toHaveBeenCalled();
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ validateOnly: true }));
+      expect(core.setOutput).toHaveBeenCalledWith('dryRun', 'true');
+      expect(core.setFailed).not.toHaveBeenCalled();
+    });
+
+    test('does not report a dry-run when validate-remote upload fails', async () => {
+      (runUploadEdit as jest.Mock).mockRejectedValue(new Error('edits.validate failed'));
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        dryRun: 'validate-remote',
+      });
+
+      await uploadRun();
+
+      expect(core.setOutput).not.toHaveBeenCalledWith('dryRun', 'true');
+      expect(core.setFailed).toHaveBeenCalledWith('edits.validate failed');
+    });
+
+    test('rejects unknown dry-run modes', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        dryRun: 'remote',
+      });
+
+      await uploadRun();
+
+      expect(runUploadEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith("Invalid dryRun provided! Must be one of 'false', 'true', 'validate-remote'. Got remote");
+    });
+
+    test('dry-run fails when artifact metadata does not match the package name', async () => {
+      (preflightArtifactMetadata as jest.Mock).mockRejectedValue(
+        new Error("release.aab is built for package com.other, but 'packageName' is com.app")
+      );
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        dryRun: 'true',
+      });
+
+      await uploadRun();
+
+      expect(core.setOutput).not.toHaveBeenCalledWith('dryRun', 'true');
+      expect(core.setFailed).toHaveBeenCalledWith("release.aab is built for package com.other, but 'packageName' is com.app");
+    });
+
+    test('uses application default credentials only when explicitly enabled', async () => {
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+      });
+
+      await uploadRun();
+
+      expect(runUploadEdit).toHaveBeenCalled();
+      expect(core.exportVariable).not.toHaveBeenCalled();
+    });
+
+    test('handles Error in upload flow', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+      });
+      (validateStatus as jest.Mock).mockRejectedValue(new Error('status invalid'));
+
+      await uploadRun();
+
+      expect(core.setFailed).toHaveBeenCalledWith('status invalid');
+      expect(unlink).toHaveBeenCalledWith(TEMP_SERVICE_ACCOUNT_FILE);
+    });
+
+    test('handles non-Error in upload flow', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+      });
+      (validateUserFraction as jest.Mock).mockRejectedValue('bad-value');
+
+      await uploadRun();
+
+      expect(core.setFailed).toHaveBeenCalledWith('bad-value');
+    });
+
+    test('rejects malformed numeric input strings before upload', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        userFraction: '0.5abc',
+        inAppUpdatePriority: '3abc',
+      });
+
+      await uploadRun();
+
+      expect(runUploadEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith("'userFraction' must be a valid number. Got 0.5abc");
+    });
+
+    test('rejects malformed in-app update priority strings before upload', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        inAppUpdatePriority: '3abc',
+      });
+
+      await uploadRun();
+
+      expect(runUploadEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith("'inAppUpdatePriority' must be a valid integer. Got 3abc");
+    });
+
+    test('passes paired deobfuscation files from the manifest to the upload', async () => {
+      const deobfuscationFiles = { '/work/release.aab': { mappingFile: './mapping.txt' } };
+      (readDeobfuscationManifest as jest.Mock).mockResolvedValue(deobfuscationFiles);
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        deobfuscationManifest: './deobfuscation.json',
+      });
+
+      await uploadRun();
+
+      expect(readDeobfuscationManifest).toHaveBeenCalledWith('./deobfuscation.json', ['./__tests__/releasefiles/release.aab']);
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ deobfuscationFiles }));
+    });
+
+    test('rejects combining the deobfuscation manifest with a shared mapping file', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        mappingFile: './mapping.txt',
+        deobfuscationManifest: './deobfuscation.json',
+      });
+
+      await uploadRun();
+
+      expect(readDeobfuscationManifest).not.toHaveBeenCalled();
+      expect(runUploadEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith("Provide either 'deobfuscationManifest' or 'mappingFile'/'debugSymbols', not both");
+    });
+
+    test('passes a custom release name template to the upload', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        releaseNameTemplate: 'v{versionName}',
+      });
+
+      await uploadRun();
+
+      expect(validateReleaseNameTemplate).toHaveBeenCalledWith('v{versionName}');
+      expect(runUploadEdit).toHaveBeenCalledWith(expect.objectContaining({ releaseNameTemplate: 'v{versionName}' }));
+    });
+
+    test('rejects malformed retained version codes before upload', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+        retainedVersionCodes: '90,9x',
+      });
+
+      await uploadRun();
+
+      expect(validateRetainedVersionCodes).not.toHaveBeenCalled();
+      expect(runUploadEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith("'retainedVersionCodes' must be a valid integer. Got 9x");
+    });
+
+    test('propagates pTimeout failures and still cleans up credentials', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        releaseFiles: './__tests__/releasefiles/release.aab',
+        track: 'production',
+        status: 'completed',
+      });
+      (pTimeout as jest.Mock).mockRejectedValueOnce(new Error('upload timed out'));
+
+      await uploadRun();
+
+      expect(runUploadEdit).toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith('upload timed out');
+      expect(unlink).toHaveBeenCalledWith(TEMP_SERVICE_ACCOUNT_FILE);
+    });
+  });
+
+  describe('promoteRun', () => {
+    test('runs promote flow with parsed options', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        fromTrack: 'internal',
+        track: 'production',
+        userFraction: '0.1',
+        status: 'inProgress',
+        releaseName: 'Promoted',
+        changesNotSentForReview: 'true',
+        existingEditId: 'edit-123',
+        existingDrafts: 'keep',
+      });
+
+      await promoteRun();
+
+      expect(validateUserFraction).toHaveBeenCalledWith(0.1);
+      expect(validateStatus).toHaveBeenCalledWith('inProgress', true);
+      expect(runPromoteEdit).toHaveBeenCalledWith({
+        packageName: 'com.app',
+        fromTrack: 'internal',
+        track: 'production',
+        userFraction: 0.1,
+        name: 'Promoted',
+        changesNotSentForReview: true,
+        existingEditId: 'edit-123',
+        status: 'inProgress',
+        existingDrafts: 'keep',
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 1000 },
+        apiCallTimeoutMs: 600000,
+        signal: ABORT_SIGNAL,
+      });
+      expect(pTimeout).toHaveBeenCalledTimes(1);
+      expect(unlink).toHaveBeenCalledWith(TEMP_SERVICE_ACCOUNT_FILE);
+    });
+
+    test('reports missing fromTrack before any Play API call', async () => {
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        track: 'production',
+        status: 'completed',
+      });
+
+      await promoteRun();
+
+      expect(runPromoteEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith("Missing required input 'fromTrack'");
+      expect(unlink).not.toHaveBeenCalled();
+    });
+
+    test('reports promote failures', async () => {
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        fromTrack: 'internal',
+        track: 'production',
+        status: 'completed',
+      });
+      (runPromoteEdit as jest.Mock).mockRejectedValueOnce(new Error('promote failed'));
+
+      await promoteRun();
+
+      expect(core.setFailed).toHaveBeenCalledWith('promote failed');
+    });
+  });
+
+  describe('rolloutRun', () => {
+    test('runs rollout flow with parsed options', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        track: 'production',
+        userFraction: '0.25',
+        status: 'inProgress',
+        forceRollout: 'true',
+        existingEditId: 'edit-123',
+      });
+
+      await rolloutRun();
+
+      expect(validateUserFraction).toHaveBeenCalledWith(0.25);
+      expect(validateStatus).not.toHaveBeenCalled();
+      expect(runRolloutEdit).toHaveBeenCalledWith({
+        packageName: 'com.app',
+        track: 'production',
+        userFraction: 0.25,
+        status: 'inProgress',
+        force: true,
+        changesNotSentForReview: false,
+        existingEditId: 'edit-123',
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 1000 },
+        apiCallTimeoutMs: 600000,
+        signal: ABORT_SIGNAL,
+      });
+      expect(unlink).toHaveBeenCalledWith(TEMP_SERVICE_ACCOUNT_FILE);
+    });
+
+    test('keeps userFraction unset when omitted', async () => {
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        track: 'production',
+        status: 'halted',
+      });
+
+      await rolloutRun();
+
+      expect(runRolloutEdit).toHaveBeenCalledWith(expect.objectContaining({ userFraction: undefined, status: 'halted', force: false }));
+    });
+
+    test('rejects userFraction with the default completed status before any Play API call', async () => {
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        track: 'production',
+        userFraction: '0.5',
+        status: 'completed',
+      });
+
+      await rolloutRun();
+
+      expect(runRolloutEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith(
+        "Status 'completed' does not support 'userFraction'; set status to 'inProgress' to change the rollout fraction"
+      );
+    });
+
+    test('rejects invalid statuses before any Play API call', async () => {
+      setInputs({
+        useApplicationDefaultCredentials: 'true',
+        packageName: 'com.app',
+        track: 'production',
+        status: 'paused',
+      });
+
+      await rolloutRun();
+
+      expect(runRolloutEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith(
+        "Invalid status provided! Must be one of 'completed', 'inProgress', 'halted', 'draft'. Got paused"
+      );
+    });
+  });
+
+  describe('commitRun', () => {
+    test('commits the given edit with parsed options', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        existingEditId: 'edit-123',
+        changesNotSentForReview: 'true',
+      });
+
+      await commitRun();
+
+      expect(runCommitEdit).toHaveBeenCalledWith({
+        packageName: 'com.app',
+        editId: 'edit-123',
+        changesNotSentForReview: true,
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 1000 },
+        apiCallTimeoutMs: 600000,
+        signal: ABORT_SIGNAL,
+      });
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(unlink).toHaveBeenCalledWith(TEMP_SERVICE_ACCOUNT_FILE);
+    });
+
+    test('requires the edit id to commit', async () => {
+      setInputs({ useApplicationDefaultCredentials: 'true', packageName: 'com.app' });
+
+      await commitRun();
+
+      expect(runCommitEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith("Missing required input 'existingEditId'");
+    });
+
+    test('reports commit failures', async () => {
+      setInputs({ useApplicationDefaultCredentials: 'true', packageName: 'com.app', existingEditId: 'edit-123' });
+      (runCommitEdit as jest.Mock).mockRejectedValueOnce(new Error('edits.commit failed'));
+
+      await commitRun();
+
+      expect(core.setFailed).toHaveBeenCalledWith('edits.commit failed');
+    });
+  });
+
+  describe('discardRun', () => {
+    test('discards the given edit with parsed options', async () => {
+      setInputs({
+        serviceAccountJsonPlainText: VALID_SERVICE_ACCOUNT_JSON,
+        packageName: 'com.app',
+        existingEditId: 'edit-123',
+      });
+
+      await discardRun();
+
+      expect(runDiscardEdit).toHaveBeenCalledWith({
+        packageName: 'com.app',
+        editId: 'edit-123',
+        retryPolicy: { maxAttempts: 3, baseDelayMs: 1000 },
+        apiCallTimeoutMs: 600000,
+        signal: ABORT_SIGNAL,
+      });
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(unlink).toHaveBeenCalledWith(TEMP_SERVICE_ACCOUNT_FILE);
+    });
+
+    test('requires the edit id to discard', async () => {
+      setInputs({ useApplicationDefaultCredentials: 'true', packageName: 'com.app' });
+
+      await discardRun();
+
+      expect(runDiscardEdit).not.toHaveBeenCalled();
+      expect(core.setFailed).toHaveBeenCalledWith("Missing required input 'existingEditId'");
+    });
+
+    test('reports discard failures', async () => {
+      setInputs({ useApplicationDefaultCredentials: 'true', packageName: 'com.app', existingEditId: 'edit-123' });
+      (runDiscardEdit as jest.Mock).mockRejectedValueOnce(new Error('edits.delete failed'));
+
+      await discardRun();
+
+      expect(core.setFailed).toHaveBeenCalledWith('edits.delete failed');
+    });
+  });
+
+  describe('__testables.validateServiceAccountJson', () => {
+    test('rejects when both credential options are present', async () => {
+      await expect(__testables.validateServiceAccountJson(VALID_SERVICE_ACCOUNT_JSON, '/tmp/service.json')).rejects.toThrow(
+        "Provide only one of 'serviceAccountJsonPlainText', 'serviceAccountJson', or 'useApplicationDefaultCredentials'"
+      );
+      expect(writeFile).not.toHaveBeenCalled();
+      expect(core.exportVariable).not.toHaveBeenCalled();
+    });
+
+    test('writes plain text credentials to a generated temp file', async () => {
+      await __testables.validateServiceAccountJson(VALID_SERVICE_ACCOUNT_JSON, undefined);
+
+      expect(writeFile).toHaveBeenCalledWith(
+        TEMP_SERVICE_ACCOUNT_FILE,
+        VALID_SERVICE_ACCOUNT_JSON,
+        expect.objectContaining({ encoding: 'utf8', mode: 0o600 })
+      );
+      expect(core.exportVariable).toHaveBeenCalledWith('GOOGLE_APPLICATION_CREDENTIALS', TEMP_SERVICE_ACCOUNT_FILE);
+    });
+
+    test('removes the generated temp file on shutdown signals', async () => {
+      const unregister = jest.fn();
+      (registerShutdownCleanup as jest.Mock).mockReturnValueOnce(unregister);
+
+      await __testables.validateServiceAccountJson(VALID_SERVICE_ACCOUNT_JSON, undefined);
+      const [[name, cleanup]] = (registerShutdownCleanup as jest.Mock).mock.calls as [[string, () => Promise<void>]];
+      await cleanup();
+
+      expect(name).toBe('remove service account json file');
+      expect(unlink).toHaveBeenCalledWith(TEMP_SERVICE_ACCOUNT_FILE);
+      expect(unregister).toHaveBeenCalledTimes(1);
+    });
+
+    test('exports file credentials when plain text credentials are not provided', async () => {
+      await __testables.validateServiceAccountJson(undefined, '/tmp/service.json');
+      expect(core.exportVariable).toHaveBeenCalledWith('GOOGLE_APPLICATION_CREDENTIALS', '/tmp/service.json');
+    });
+
+    test('rejects malformed service account JSON before exporting credentials', async () => {
+      await expect(__testables.validateServiceAccountJson('{"type":"service_account"}', undefined)).rejects.toThrow(
+        'serviceAccountJsonPlainText is missing required field "project_id"'
+      );
+      expect(core.exportVariable).not.toHaveBeenCalled();
+    });
+
+    test('rejects when neither credential source is provided', async () => {
+      await expect(__testables.validateServiceAccountJson(undefined, undefined)).rejects.toThrow(
+        "You must provide one of 'serviceAccountJsonPlainText' or 'serviceAccountJson', or set 'useApplicationDefaultCredentials' to true"
+      );
+    });
+
+    test('accepts explicit application default credentials without exporting a JSON path', async () => {
+      await expect(__testables.validateServiceAccountJson(undefined, undefined, true)).resolves.toBeUndefined();
+      expect(core.exportVariable).not.toHaveBeenCalled();
+    });
+
+    test('rejects application default credentials combined with JSON credentials', async () => {
+      await expect(__testables.validateServiceAccountJson(VALID_SERVICE_ACCOUNT_JSON, undefined, true)).rejects.toThrow(
+        "Provide only one of 'serviceAccountJsonPlainText', 'serviceAccountJson', or 'useApplicationDefaultCredentials'"
+      );
+    });
+  });
+
+  describe('__testables.cleanupServiceAccountJsonFile', () => {
+    test('does nothing when no generated credential file exists', async () => {
+      await __testables.cleanupServiceAccountJsonFile('');
+
+      expect(logger.d).toHaveBeenCalledWith('No generated service account json file to clean up');
+      expect(unlink).not.toHaveBeenCalled();
+    });
+
+    test('ignores already removed temp credential file', async () => {
+      await __testables.validateServiceAccountJson(VALID_SERVICE_ACCOUNT_JSON, undefined);
+      jest.clearAllMocks();
+      (unlink as jest.Mock).mockRejectedValueOnce(Object.assign(new Error('missing'), { code: 'ENOENT' }));
+
+      await __testables.cleanupServiceAccountJsonFile();
+
+      expect(logger.d).toHaveBeenCalledWith('Service account json file already removed: serviceAccountJson.json');
+    });
+
+    test('keeps the generated file registered when another file is removed', async () => {
+      const unregister = jest.fn();
+      (registerShutdownCleanup as jest.Mock).mockReturnValueOnce(unregister);
+      await __testables.validateServiceAccountJson(VALID_SERVICE_ACCOUNT_JSON, undefined);
+
+      await __testables.cleanupServiceAccountJsonFile('/tmp/other/serviceAccountJson.json');
+      expect(unregister).not.toHaveBeenCalled();
+
+      await __testables.cleanupServiceAccountJsonFile();
+      expect(unlink).toHaveBeenLastCalledWith(TEMP_SERVICE_ACCOUNT_FILE);
+      expect(unregister).toHaveBeenCalledTimes(1);
+    });
+
+    test('logs cleanup failures without throwing', async () => {
+      (unlink as jest.Mock).mockRejectedValueOnce(new Error('locked'));
+
+      await __testables.cleanupServiceAccountJsonFile(TEMP_SERVICE_ACCOUNT_FILE);
+
+      expect(logger.w).toHaveBeenCalledWith('Failed to clean up service account json file serviceAccountJson.json: locked');
+    });
+  });
+
+  describe('__testables.signRun', () => {
+    test('returns early in debug mode', async () => {
+      process.env.DEBUG_ACTION = 'true';
+      await __testables.signRun();
+      expect(logger.d).toHaveBeenCalledWith('DEBUG FLAG DETECTED, SHORTCUTTING ACTION.');
+    });
+
+    test('fails when no release file is found', async () => {
+      setInputs({
+        releaseDirectory: '/releases',
+        signingKeyBase64: 'a2V5',
+        alias: 'alias',
+        keyStorePassword: 'store-pass',
+      });
+      (ioUtils.findReleaseFiles as jest.Mock).mockReturnValue(undefined);
+
+      await __testables.signRun();
+
+      expect(core.setFailed).toHaveBeenCalledWith('No release files (.apk or .aab) could be found.');
+    });
+
+    test('signs a single apk and exports single-file outputs', async () => {
+      setInputs({
+        releaseDirectory: '/releases',
+        signingKeyBase64: 'a2V5',
+        alias: 'alias',
+        keyStorePassword: 'store-pass',
+        keyPassword: 'key-pass',
+      });
+      (ioUtils.findReleaseFiles as jest.Mock).mockReturnValue([{ name: 'app.apk' }]);
+
+      await __testables.signRun();
+
+      expect(fs.writeFileSync).toHaveBeenCalledWith(TEMP_SIGNING_KEY_FILE, 'a2V5', { encoding: 'base64', mode: 0o600 });
+      expect(signApkFile).toHaveBeenCalledWith('/releases/app.apk', TEMP_SIGNING_KEY_FILE, 'alias', 'store-pass', 'key-pass');
+      expect(fs.rmSync).toHaveBeenCalledWith('/tmp/android-support-signing-test', { recursive: true, force: true });
+      expect(core.exportVariable).toHaveBeenCalledWith('SIGNED_RELEASE_FILE_0', '/releases/app-signed.apk');
+      expect(core.setOutput).toHaveBeenCalledWith('signedReleaseFile0', '/releases/app-signed.apk');
+      expect(core.exportVariable).toHaveBeenCalledWith('SIGNED_RELEASE_FILE', '/releases/app-signed.apk');
+      expect(core.setOutput).toHaveBeenCalledWith('signedReleaseFile', '/releases/app-signed.apk');
+    });
+
+    test('signs multiple artifacts and handles invalid extension', async () => {
       setInputs({
         releaseDirectory: '/releases',
         signingKeyBase64: 'a2V5',
@@ -649,6 +1548,7 @@ describe('main module', () => {
       expect(signApkFile).toHaveBeenCalledTimes(1);
       expect(signAabFile).toHaveBeenCalledTimes(1);
       expect(core.setFailed).toHaveBeenCalledWith('No valid release file to sign: /releases/bad.txt');
+      expect(writeSignSummary).not.toHaveBeenCalled();
       expect(core.exportVariable).not.toHaveBeenCalledWith('SIGNED_RELEASE_FILE_2', '');
       expect(core.setOutput).not.toHaveBeenCalledWith('signedReleaseFile2', '');
       expect(core.exportVariable).not.toHaveBeenCalledWith('NOF_SIGNED_RELEASE_FILES', '3');
@@ -670,6 +1570,32 @@ describe('main module', () => {
       expect(core.exportVariable).toHaveBeenCalledWith('NOF_SIGNED_RELEASE_FILES', '2');
       expect(core.setOutput).toHaveBeenCalledWith('nofSignedReleaseFiles', '2');
       expect(core.setOutput).not.toHaveBeenCalledWith('signedReleaseFile', expect.any(String));
+      expect(readCertificateDigests).toHaveBeenNthCalledWith(1, '/releases/app-signed.apk');
+      expect(readCertificateDigests).toHaveBeenNthCalledWith(2, '/releases/app-signed.aab');
+      expect(writeSignSummary).toHaveBeenCalledWith([
+        { signedReleaseFile: '/releases/app-signed.apk', certificateDigests: ['AB:CD'] },
+        { signedReleaseFile: '/releases/app-signed.aab', certificateDigests: ['AB:CD'] },
+      ]);
+    });
+
+    test('leaves the certificate digest out of the summary when it cannot be read', async () => {
+      setInputs({
+        releaseDirectory: '/releases',
+        signingKeyBase64: 'a2V5',
+        alias: 'alias',
+        keyStorePassword: 'store-pass',
+      });
+      (ioUtils.findReleaseFiles as jest.Mock).mockReturnValue([{ name: 'app.apk' }]);
+      (readCertificateDigests as jest.Mock).mockRejectedValueOnce(new Error('apksigner not found'));
+
+      await __testables.signRun();
+
+      expect(core.setFailed).not.toHaveBeenCalled();
+      expect(core.setOutput).toHaveBeenCalledWith('signedReleaseFile', '/releases/app-signed.apk');
+      expect(logger.w).toHaveBeenCalledWith(
+        'Failed to read the signing certificate digest of app-signed.apk for the job summary: apksigner not found'
+      );
+      expect(writeSignSummary).toHaveBeenCalledWith([{ signedReleaseFile: '/releases/app-signed.apk', certificateDigests: [] }]);
     });
 
     test('reports signer promise rejection without exporting outputs', async () => {
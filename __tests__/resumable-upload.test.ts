@@ -0,0 +1,247 @@
+jest.mock('../src/utils/logger', () => ({
+  d: jest.fn(),
+  i: jest.fn(),
+  w: jest.fn(),
+  e: jest.fn(),
+}));
+
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { request } from 'gaxios';
+import * as logger from '../src/utils/logger';
+import { bufferUploadSource, continueResumableUpload, fileUploadSource, ResumableUploadClient, startResumableUpload } from '../src/resumable-upload';
+
+interface StandInOptions {
+  omitLocation?: boolean;
+  dropChunk?: { index: number; keepBytes: number }; // 해당 순번의 청크를 keepBytes만 받고 연결을 끊음
+  completeOnlyOnQuery?: boolean; // 마지막 청크에도 308로 답하고 상태 조회 때 완료 처리
+}
+
+/**
+ * Google Play 재개 가능 업로드 엔드포인트를 흉내 내는 로컬 HTTP 서버
+ */
+class UploadStandIn {
+  received = Buffer.alloc(0);
+  contentRanges: string[] = [];
+  initiationHeaders: http.IncomingHttpHeaders = {};
+  private chunkCount = 0;
+  private readonly server: http.Server;
+
+  constructor(private readonly options: StandInOptions = {}) {
+    this.server = http.createServer((req, res) => {
+      const body: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => body.push(chunk));
+      req.on('end', () => this.handle(req, res, Buffer.concat(body)));
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  close(): Promise<void> {
+    this.server.closeAllConnections();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse, body: Buffer): void {
+    if (req.method === 'POST') {
+      this.initiationHeaders = req.headers;
+      res.writeHead(200, this.options.omitLocation ? {} : { Location: `${this.url}/session` }).end();
+      return;
+    }
+
+    const contentRange = req.headers['content-range'] ?? '';
+    this.contentRanges.push(contentRange);
+    const total = Number(contentRange.split('/')[1]);
+    if (contentRange.startsWith('bytes */')) {
+      this.respond(res, total, true);
+      return;
+    }
+
+    const start = Number(/^bytes (\d+)-/.exec(contentRange)?.[1]);
+    if (start !== this.received.length) {
+      res.writeHead(400).end();
+      return;
+    }
+    const dropChunk = this.options.dropChunk;
+    if (dropChunk?.index === this.chunkCount++) {
+      this.received = Buffer.concat([this.received, body.subarray(0, dropChunk.keepBytes)]);
+      req.socket.destroy();
+      return;
+    }
+    this.received = Buffer.concat([this.received, body]);
+    this.respond(res, total, false);
+  }
+
+  private respond(res: http.ServerResponse, total: number, query: boolean): void {
+    if (this.received.length === total && (query || !this.options.completeOnlyOnQuery)) {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ versionCode: 7 }));
+      return;
+    }
+    res.writeHead(308, this.received.length > 0 ? { Range: `bytes=0-${this.received.length - 1}` } : {}).end();
+  }
+}
+
+const client: ResumableUploadClient = { request: options => request(options) };
+
+function content(size: number): Buffer {
+  return Buffer.from(Array.from({ length: size }, (_value, index) => index % 251));
+}
+
+function progressLogs(): string[] {
+  return (logger.i as jest.Mock).mock.calls.map(([message]: [string]) => message);
+}
+
+describe('resumable upload', () => {
+  let standIn: UploadStandIn;
+
+  async function startStandIn(options?: StandInOptions): Promise<UploadStandIn> {
+    standIn = new UploadStandIn(options);
+    await standIn.listen();
+    return standIn;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await standIn?.close();
+  });
+
+  test('uploads a file in chunks and logs progress in bytes and percent', async () => {
+    const server = await startStandIn();
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'resumable-'));
+    const filePath = path.join(tempDir, 'app.aab');
+    const data = content(10_000);
+    fs.writeFileSync(filePath, data);
+
+    try {
+      const session = await startResumableUpload(client, `${server.url}/upload`, fileUploadSource(filePath), 'application/octet-stream', 'app.aab');
+      await expect(continueResumableUpload(client, session, 1000)).resolves.toEqual({ versionCode: 7 });
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    expect(server.initiationHeaders).toMatchObject({ 'x-upload-content-type': 'application/octet-stream', 'x-upload-content-length': '10000' });
+    expect(server.received.equals(data)).toBe(true);
+    expect(server.contentRanges).toHaveLength(10);
+    expect(server.contentRanges[0]).toBe('bytes 0-999/10000');
+    expect(progressLogs()).toEqual(
+      Array.from({ length: 10 }, (_value, index) => `Uploading app.aab: ${(index + 1) * 1000}/10000 bytes (${(index + 1) * 10}%)`)
+    );
+  });
+
+  test('only logs progress when another ten percent has been confirmed', async () => {
+    await startStandIn();
+    const session = await startResumableUpload(
+      client,
+      `${standIn.url}/upload`,
+      bufferUploadSource(content(1000)),
+      'application/octet-stream',
+      'symbols.zip'
+    );
+
+    await continueResumableUpload(client, session, 40);
+
+    expect(progressLogs()).toHaveLength(9);
+    expect(progressLogs()[0]).toBe('Uploading symbols.zip: 120/1000 bytes (12%)');
+    expect(progressLogs()[8]).toBe('Uploading symbols.zip: 1000/1000 bytes (100%)');
+  });
+
+  test('resumes from the last byte the server confirmed after a dropped connection', async () => {
+    const server = await startStandIn({ dropChunk: { index: 1, keepBytes: 300 } });
+    const data = content(3000);
+    const session = await startResumableUpload(client, `${server.url}/upload`, bufferUploadSource(data), 'application/octet-stream', 'app.aab');
+
+    await expect(continueResumableUpload(client, session, 1000)).rejects.toThrow();
+    expect(session.confirmedBytes).toBe(1000);
+
+    await expect(continueResumableUpload(client, session, 1000)).resolves.toEqual({ versionCode: 7 });
+    expect(server.received.equals(data)).toBe(true);
+    expect(server.contentRanges).toEqual([
+      'bytes 0-999/3000',
+      'bytes 1000-1999/3000',
+      'bytes */3000',
+      'bytes 1300-2299/3000',
+      'bytes 2300-2999/3000',
+    ]);
+    expect(logger.i).toHaveBeenCalledWith('Resuming upload of app.aab from byte 1300 of 3000');
+  });
+
+  test('resumes from the first byte when the server kept nothing', async () => {
+    const server = await startStandIn({ dropChunk: { index: 0, keepBytes: 0 } });
+    const session = await startResumableUpload(
+      client,
+      `${server.url}/upload`,
+      bufferUploadSource(content(500)),
+      'application/octet-stream',
+      'app.apk'
+    );
+
+    await expect(continueResumableUpload(client, session)).rejects.toThrow();
+    await expect(continueResumableUpload(client, session)).resolves.toEqual({ versionCode: 7 });
+
+    expect(server.contentRanges).toEqual(['bytes 0-499/500', 'bytes */500', 'bytes 0-499/500']);
+  });
+
+  test('returns the response when the status query finds the upload already complete', async () => {
+    const server = await startStandIn({ dropChunk: { index: 0, keepBytes: 500 } });
+    const session = await startResumableUpload(
+      client,
+      `${server.url}/upload`,
+      bufferUploadSource(content(500)),
+      'application/octet-stream',
+      'app.apk'
+    );
+
+    await expect(continueResumableUpload(client, session, 1000)).rejects.toThrow();
+    await expect(continueResumableUpload(client, session, 1000)).resolves.toEqual({ versionCode: 7 });
+
+    expect(server.contentRanges).toEqual(['bytes 0-499/500', 'bytes */500']);
+    expect(progressLogs()).toEqual(['Uploading app.apk: 500/500 bytes (100%)']);
+  });
+
+  test('fails when the server confirms every byte without completing the upload', async () => {
+    const server = await startStandIn({ completeOnlyOnQuery: true });
+    const session = await startResumableUpload(
+      client,
+      `${server.url}/upload`,
+      bufferUploadSource(content(500)),
+      'application/octet-stream',
+      'app.apk'
+    );
+
+    await expect(continueResumableUpload(client, session, 1000)).rejects.toThrow(
+      'Resumable upload for app.apk was not completed after sending all 500 bytes'
+    );
+    await expect(continueResumableUpload(client, session, 1000)).resolves.toEqual({ versionCode: 7 });
+
+    expect(progressLogs()).toEqual(['Uploading app.apk: 500/500 bytes (100%)']);
+  });
+
+  test('rejects initiation responses without a session URL', async () => {
+    await startStandIn({ omitLocation: true });
+
+    await expect(
+      startResumableUpload(client, `${standIn.url}/upload`, bufferUploadSource(content(10)), 'application/octet-stream', 'app.apk')
+    ).rejects.toThrow('Resumable upload for app.apk did not return a session URL');
+  });
+
+  test('rejects empty uploads before contacting the server', async () => {
+    await startStandIn();
+
+    await expect(
+      startResumableUpload(client, `${standIn.url}/upload`, bufferUploadSource(Buffer.alloc(0)), 'application/octet-stream', 'app.apk')
+    ).rejects.toThrow('Cannot start a resumable upload for empty app.apk');
+    expect(standIn.initiationHeaders).toEqual({});
+  });
+});
@@ -0,0 +1,122 @@
+jest.mock('../src/utils/logger', () => ({
+  d: jest.fn(),
+  i: jest.fn(),
+  w: jest.fn(),
+  e: jest.fn(),
+}));
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as logger from '../src/utils/logger';
+import { openRunState, removeRunState, RunState, saveRunState } from '../src/run-state';
+
+describe('run state file', () => {
+  let tempDir: string;
+  let stateFile: string;
+
+  const recorded: RunState = {
+    packageName: 'com.example.app',
+    track: 'production',
+    editId: 'edit-1',
+    artifacts: { '/workspace/app.aab': { sha256: 'abc', versionCode: 7, mappingUploaded: true, debugSymbolsUploaded: false } },
+    trackUpdated: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'run-state-')));
+    stateFile = path.join(tempDir, 'upload-state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('starts a new state when the file does not exist', () => {
+    expect(openRunState(stateFile, 'com.example.app', 'production')).toEqual({
+      path: stateFile,
+      state: { packageName: 'com.example.app', track: 'production', artifacts: {}, trackUpdated: false },
+    });
+  });
+
+  test('saves the state and reads it back on the next run', () => {
+    saveRunState({ path: stateFile, state: recorded });
+
+    expect(fs.existsSync(`${stateFile}.tmp`)).toBe(false);
+    expect(openRunState(stateFile, 'com.example.app', 'production').state).toEqual(recorded);
+    expect(logger.i).toHaveBeenCalledWith('Resuming from stateFile upload-state.json (editId=edit-1)');
+  });
+
+  test('resumes a state recorded before the edit was created', () => {
+    const withoutEdit: RunState = { ...recorded, editId: undefined };
+    saveRunState({ path: stateFile, state: withoutEdit });
+
+    expect(openRunState(stateFile, 'com.example.app', 'production').state).toEqual(withoutEdit);
+    expect(logger.i).toHaveBeenCalledWith('Resuming from stateFile upload-state.json (editId=none)');
+  });
+
+  test.each([
+    ['package', 'com.other.app', 'production'],
+    ['track', 'com.example.app', 'beta'],
+  ])('ignores a state recorded for another %s', (_field, packageName, track) => {
+    saveRunState({ path: stateFile, state: recorded });
+
+    expect(openRunState(stateFile, packageName, track).state).toEqual({ packageName, track, artifacts: {}, trackUpdated: false });
+    expect(logger.w).toHaveBeenCalledWith(
+      'Ignoring stateFile upload-state.json recorded for packageName=com.example.app, track=production; starting a new run state'
+    );
+  });
+
+  test('rejects files that are not JSON', () => {
+    fs.writeFileSync(stateFile, '{');
+
+    expect(() => openRunState(stateFile, 'com.example.app', 'production')).toThrow('stateFile upload-state.json is not valid JSON');
+  });
+
+  test.each([
+    ['null', null],
+    ['a non-string package name', { ...recorded, packageName: 1 }],
+    ['a non-string track', { ...recorded, track: null }],
+    ['a non-string edit id', { ...recorded, editId: 5 }],
+    ['a missing track flag', { ...recorded, trackUpdated: 'yes' }],
+    ['missing artifacts', { ...recorded, artifacts: undefined }],
+    ['null artifacts', { ...recorded, artifacts: null }],
+    ['a null artifact', { ...recorded, artifacts: { 'app.aab': null } }],
+    ['an artifact without sha256', { ...recorded, artifacts: { 'app.aab': { versionCode: 7, mappingUploaded: true, debugSymbolsUploaded: true } } }],
+    [
+      'an artifact without version code',
+      { ...recorded, artifacts: { 'app.aab': { sha256: 'abc', mappingUploaded: true, debugSymbolsUploaded: true } } },
+    ],
+    ['an artifact without mapping flag', { ...recorded, artifacts: { 'app.aab': { sha256: 'abc', versionCode: 7, debugSymbolsUploaded: true } } }],
+    ['an artifact without symbols flag', { ...recorded, artifacts: { 'app.aab': { sha256: 'abc', versionCode: 7, mappingUploaded: true } } }],
+  ])('rejects a state with %s', (_case, value) => {
+    fs.writeFileSync(stateFile, JSON.stringify(value));
+
+    expect(() => openRunState(stateFile, 'com.example.app', 'production')).toThrow(
+      'stateFile upload-state.json is not a run state written by this action; delete it to start over'
+    );
+  });
+
+  test('rejects state files without a .json extension', () => {
+    const textFile = path.join(tempDir, 'upload-state.txt');
+    fs.writeFileSync(textFile, JSON.stringify(recorded));
+
+    expect(() => openRunState(textFile, 'com.example.app', 'production')).toThrow('stateFile must use one of these extensions: .json');
+  });
+
+  test('rejects state files in a missing directory', () => {
+    expect(() => openRunState(path.join(tempDir, 'missing', 'state.json'), 'com.example.app', 'production')).toThrow(
+      'Unable to inspect stateFile directory missing'
+    );
+  });
+
+  test('removes the state file and tolerates a missing one', () => {
+    saveRunState({ path: stateFile, state: recorded });
+
+    removeRunState({ path: stateFile, state: recorded });
+    removeRunState({ path: stateFile, state: recorded });
+
+    expect(fs.existsSync(stateFile)).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+jest.mock('../src/utils/logger', () => ({
+  d: jest.fn(),
+  i: jest.fn(),
+  w: jest.fn(),
+  e: jest.fn(),
+}));
+
+type ShutdownModule = typeof import('../src/utils/shutdown');
+type LoggerModule = typeof import('../src/utils/logger');
+
+describe('shutdown cleanup', () => {
+  let shutdown: ShutdownModule;
+  let logger: LoggerModule;
+  let exit: jest.SpyInstance;
+  const unregisters: Array<() => void> = [];
+
+  function register(name: string, cleanup: () => Promise<void>): () => void {
+    const unregister = shutdown.registerShutdownCleanup(name, cleanup);
+    unregisters.push(unregister);
+    return unregister;
+  }
+
+  async function flush(): Promise<void> {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  beforeEach(async () => {
+    // 신호를 한 번 받으면 모듈 상태가 종료 중으로 남으므로 테스트마다 새로 불러옴
+    jest.resetModules();
+    shutdown = await import('../src/utils/shutdown');
+    logger = await import('../src/utils/logger');
+    exit = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+  });
+
+  afterEach(() => {
+    unregisters.splice(0).forEach(unregister => unregister());
+    exit.mockRestore();
+    jest.useRealTimers();
+  });
+
+  test('installs signal handlers only while cleanups are registered', () => {
+    const sigterm = process.listenerCount('SIGTERM');
+    const sigint = process.listenerCount('SIGINT');
+
+    const first = register('first', () => Promise.resolve());
+    const second = register('second', () => Promise.resolve());
+    expect(process.listenerCount('SIGTERM')).toBe(sigterm + 1);
+    expect(process.listenerCount('SIGINT')).toBe(sigint + 1);
+
+    first();
+    first();
+    expect(process.listenerCount('SIGTERM')).toBe(sigterm + 1);
+
+    second();
+    expect(process.listenerCount('SIGTERM')).toBe(sigterm);
+    expect(process.listenerCount('SIGINT')).toBe(sigint);
+  });
+
+  test('runs every cleanup on SIGTERM and exits even when one fails', async () => {
+    const deleteEdit = jest.fn(() => Promise.resolve());
+    register('delete edit edit-1', deleteEdit);
+    register('remove service account json file', () => Promise.reject(new Error('locked')));
+
+    process.emit('SIGTERM', 'SIGTERM');
+    await flush();
+
+    expect(logger.w).toHaveBeenCalledWith('Received SIGTERM; running 2 cleanup task(s) within 5000ms before exiting');
+    expect(deleteEdit).toHaveBeenCalledTimes(1);
+    expect(logger.w).toHaveBeenCalledWith("Shutdown cleanup 'remove service account json file' failed: locked");
+    expect(exit).toHaveBeenCalledWith(143);
+  });
+
+  test('ignores repeated signals while cleaning up and exits with the SIGINT code', async () => {
+    let finish: () => void = () => undefined;
+    const cleanup = jest.fn(() => new Promise<void>(resolve => (finish = resolve)));
+    register('delete edit edit-1', cleanup);
+
+    process.emit('SIGINT', 'SIGINT');
+    process.emit('SIGTERM', 'SIGTERM');
+    await flush();
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(logger.w).toHaveBeenCalledWith('Received SIGTERM again; still cleaning up before exiting');
+    expect(exit).not.toHaveBeenCalled();
+
+    finish();
+    await flush();
+    expect(exit).toHaveBeenCalledWith(130);
+  });
+
+  test('exits when cleanups do not finish within the grace period', async () => {
+    jest.useFakeTimers();
+    register('delete edit edit-1', () => new Promise<void>(() => undefined));
+
+    process.emit('SIGTERM', 'SIGTERM');
+    await jest.advanceTimersByTimeAsync(shutdown.SHUTDOWN_GRACE_PERIOD_MS);
+
+    expect(logger.w).toHaveBeenCalledWith('Shutdown cleanup did not finish within 5000ms; exiting anyway');
+    expect(exit).toHaveBeenCalledWith(143);
+  });
+});
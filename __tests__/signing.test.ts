@@ -1,5 +1,6 @@
 jest.mock('@actions/exec', () => ({
   exec: jest.fn(),
+  getExecOutput: jest.fn(),
 }));
 
 jest.mock('@actions/core', () => ({
@@ -32,10 +33,10 @@ jest.mock('fs', () => ({
   realpathSync: mockRealpathSync,
 }));
 
-import { exec } from '@actions/exec';
+import { exec, getExecOutput } from '@actions/exec';
 import * as core from '@actions/core';
 import * as logger from '../src/utils/logger';
-import { signAabFile, signApkFile } from '../src/signing';
+import { readCertificateDigests, signAabFile, signApkFile } from '../src/signing';
 import fs from 'fs';
 
 function expectExecEnv(callNumber: number, expectedEnv: Record<string, string>): void {
@@ -214,4 +215,41 @@ describe('signing', () => {
 
     await expect(signAabFile('/tmp/app.aab', '/tmp/key.jks', 'alias', 'storepass')).rejects.toThrow('jarsigner failed');
   });
+
+  test('readCertificateDigests reads every APK signer digest with apksigner', async () => {
+    const digest = 'ab'.repeat(32);
+    (getExecOutput as jest.Mock).mockResolvedValueOnce({
+      exitCode: 0,
+      stderr: '',
+      stdout: [
+        'Signer #1 certificate DN: CN=Release',
+        `Signer #1 certificate SHA-256 digest: ${digest}`,
+        `Signer #1 certificate SHA-1 digest: ${'cd'.repeat(20)}`,
+        `Signer (minSdkVersion=33) certificate SHA-256 digest: ${digest}`,
+      ].join('\n'),
+    });
+
+    await expect(readCertificateDigests('/tmp/app-signed.apk')).resolves.toEqual([Array(32).fill('AB').join(':')]);
+    expect(getExecOutput).toHaveBeenCalledWith('"/android-sdk/build-tools/35.0.0/apksigner"', ['verify', '--print-certs', '/tmp/app-signed.apk'], {
+      silent: true,
+    });
+  });
+
+  test('readCertificateDigests reads AAB signer digests with keytool', async () => {
+    const digest = Array(32).fill('0F').join(':');
+    (getExecOutput as jest.Mock).mockResolvedValueOnce({
+      exitCode: 0,
+      stderr: '',
+      stdout: `Signer #1:\n\nCertificate #1:\nOwner: CN=Release\nCertificate fingerprints:\n\t SHA1: ${Array(20).fill('AA').join(':')}\n\t SHA256: ${digest}\n`,
+    });
+
+    await expect(readCertificateDigests('/tmp/app.aab')).resolves.toEqual([digest]);
+    expect(getExecOutput).toHaveBeenCalledWith('"/jdk/bin/keytool"', ['-printcert', '-jarfile', '/tmp/app.aab'], { silent: true });
+  });
+
+  test('readCertificateDigests fails when no digest is printed', async () => {
+    (getExecOutput as jest.Mock).mockResolvedValueOnce({ exitCode: 0, stderr: '', stdout: 'Not a signed jar file' });
+
+    await expect(readCertificateDigests('/tmp/build/app.aab')).rejects.toThrow('Unable to read the signing certificate digest of app.aab');
+  });
 });
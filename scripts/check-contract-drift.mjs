@@ -5,10 +5,13 @@
 //   1. action.yml `inputs:` (declared inputs)
 //   2. src/*.ts `getInput('x')` / `getBooleanInput('x')` calls (consumed inputs)
 //   3. README.md input table (documented inputs)
+// and, for outputs, action.yml `outputs:` against src/*.ts `setOutput('x')` calls.
 //
-// Fails (exit 1) ONLY on the dangerous case: an input consumed via getInput()
-// that is NOT declared in action.yml (runtime breakage). Declared-but-unused and
-// undocumented inputs are reported as informational and do not fail the gate.
+// Fails (exit 1) ONLY on the dangerous cases: an input consumed via getInput()
+// that is NOT declared in action.yml (runtime breakage), or an output set via
+// setOutput() that is NOT declared in action.yml (invisible to workflows).
+// Declared-but-unused and undocumented inputs are reported as informational and
+// do not fail the gate.
 //
 // Usage: node scripts/check-contract-drift.mjs
 // Pure static check; adds no runtime code, runs before the ncc build.
@@ -27,18 +30,36 @@ function parseActionInputs() {
   return [...body.matchAll(/^ {2}([A-Za-z][A-Za-z0-9_]*):/gm)].map((m) => m[1]);
 }
 
-/** @returns {Set<string>} input names consumed via getInput() / getBooleanInput() in src/ */
-function parseConsumedInputs() {
+/** @returns {string[]} top-level output keys declared in action.yml */
+function parseActionOutputs() {
+  const text = readFileSync(join(ROOT, 'action.yml'), 'utf8');
+  const block = text.match(/^outputs:\s*$([\s\S]*?)^(?:inputs|runs|branding):/m);
+  const body = block ? block[1] : '';
+  return [...body.matchAll(/^ {2}([A-Za-z][A-Za-z0-9_]*):/gm)].map((m) => m[1]);
+}
+
+/** @param {RegExp} pattern @returns {Set<string>} first capture group of every match in src/*.ts */
+function scanSources(pattern) {
   const srcDir = join(ROOT, 'src');
   const names = new Set();
   for (const ent of readdirSync(srcDir, { withFileTypes: true })) {
     if (!ent.isFile() || !/\.ts$/.test(ent.name)) continue;
     const text = readFileSync(join(srcDir, ent.name), 'utf8');
-    for (const m of text.matchAll(/get(?:Boolean)?Input\(\s*['"]([^'"]+)['"]/g)) names.add(m[1]);
+    for (const m of text.matchAll(pattern)) names.add(m[1]);
   }
   return names;
 }
 
+/** @returns {Set<string>} input names consumed via getInput() / getBooleanInput() in src/ */
+function parseConsumedInputs() {
+  return scanSources(/get(?:Boolean)?Input\(\s*['"]([^'"]+)['"]/g);
+}
+
+/** @returns {Set<string>} output names set via setOutput() with a literal name in src/ */
+function parseProducedOutputs() {
+  return scanSources(/setOutput\(\s*['"]([^'"]+)['"]/g);
+}
+
 /** @param {string[]} actionInputs @returns {Set<string>} documented input names */
 function parseReadmeInputs(actionInputs) {
   const text = readFileSync(join(ROOT, 'README.md'), 'utf8');
@@ -54,12 +75,16 @@ function main() {
   const consumed = parseConsumedInputs();
   const documented = parseReadmeInputs(actionInputs);
   const actionSet = new Set(actionInputs);
+  const actionOutputs = new Set(parseActionOutputs());
+  const produced = parseProducedOutputs();
 
   const undeclaredConsumed = [...consumed].filter((n) => !actionSet.has(n)).sort();
   const unusedDeclared = actionInputs.filter((n) => !consumed.has(n)).sort();
   const undocumented = actionInputs.filter((n) => !documented.has(n)).sort();
+  const undeclaredProduced = [...produced].filter((n) => !actionOutputs.has(n)).sort();
 
   console.log(`[contract-drift] action.yml inputs=${actionInputs.length} consumed=${consumed.size} documented=${documented.size}`);
+  console.log(`[contract-drift] action.yml outputs=${actionOutputs.size} produced=${produced.size}`);
   if (unusedDeclared.length) console.log(`[contract-drift] declared but not consumed (info): ${unusedDeclared.join(', ')}`);
   if (undocumented.length) console.log(`[contract-drift] not in README table (info): ${undocumented.join(', ')}`);
 
@@ -67,7 +92,11 @@ function main() {
     console.error(`[contract-drift] FAIL: getInput() consumes inputs not declared in action.yml: ${undeclaredConsumed.join(', ')}`);
     process.exit(1);
   }
-  console.log('[contract-drift] OK (every consumed input is declared in action.yml)');
+  if (undeclaredProduced.length > 0) {
+    console.error(`[contract-drift] FAIL: setOutput() produces outputs not declared in action.yml: ${undeclaredProduced.join(', ')}`);
+    process.exit(1);
+  }
+  console.log('[contract-drift] OK (every consumed input and produced output is declared in action.yml)');
 }
 
 main();
@@ -0,0 +1,120 @@
+/**
+ * 앱 세부정보(기본 언어, 연락처) 관련 유틸리티
+ * appDetails 파일(JSON 또는 단순 YAML)과 개별 입력값을 합쳐 edits.details.patch에 보낼 값을 만듦
+ */
+import * as path from 'path';
+import { readFile } from 'fs/promises';
+import { normalizeUnknownError, resolveSecureFile } from './utils/security-utils';
+
+const APP_DETAILS_MAX_BYTES = 64 * 1024;
+const APP_DETAILS_FIELDS = ['contactEmail', 'contactPhone', 'contactWebsite', 'defaultLanguage'] as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9][0-9 ().-]{2,29}$/;
+const LANGUAGE_PATTERN = /^[A-Za-z]{2,3}(?:-[A-Za-z0-9]{2,8})?$/;
+
+export type AppDetailsField = (typeof APP_DETAILS_FIELDS)[number];
+export type AppDetailsUpdate = Partial<Record<AppDetailsField, string>>;
+
+/**
+ * 앱 세부정보 읽기
+ * 파일의 값 위에 개별 입력값을 덮어쓰고 형식을 확인
+ *
+ * @param detailsFile - appDetails 파일 경로 (.json, .yml, .yaml)
+ * @param inputs - contactEmail 등 개별 입력값 (비어 있으면 무시)
+ * @returns 변경할 세부정보 또는 undefined (설정한 값이 없을 때)
+ */
+export async function readAppDetails(detailsFile: string | undefined, inputs: AppDetailsUpdate): Promise<AppDetailsUpdate | undefined> {
+  const details: AppDetailsUpdate = detailsFile ? await readAppDetailsFile(detailsFile) : {};
+  for (const field of APP_DETAILS_FIELDS) {
+    const value = inputs[field];
+    if (value !== undefined) {
+      details[field] = value;
+    }
+  }
+
+  if (Object.keys(details).length === 0) {
+    return undefined;
+  }
+  validateAppDetails(details);
+  return details;
+}
+
+async function readAppDetailsFile(detailsFile: string): Promise<AppDetailsUpdate> {
+  const filePath = resolveSecureFile(detailsFile, 'appDetails', { extensions: ['.json', '.yml', '.yaml'], maxBytes: APP_DETAILS_MAX_BYTES });
+  const raw = await readFile(filePath, 'utf-8');
+
+  let parsed: unknown;
+  if (path.extname(filePath).toLowerCase() === '.json') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error: unknown) {
+      throw new Error(`appDetails is not valid JSON: ${normalizeUnknownError(error).message}`);
+    }
+  } else {
+    parsed = parseFlatYaml(raw);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`appDetails must be an object with ${APP_DETAILS_FIELDS.join(', ')}`);
+  }
+
+  const details: AppDetailsUpdate = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (!(APP_DETAILS_FIELDS as readonly string[]).includes(key)) {
+      throw new Error(`appDetails has an unknown field '${key}'; supported fields are ${APP_DETAILS_FIELDS.join(', ')}`);
+    }
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new Error(`appDetails field '${key}' must be a non-empty string`);
+    }
+    details[key as AppDetailsField] = value.trim();
+  }
+  return details;
+}
+
+/**
+ * 단순 YAML 읽기
+ * 앱 세부정보는 문자열 값 몇 개뿐이므로 들여쓰기 없는 `key: value` 줄과 주석만 지원
+ */
+function parseFlatYaml(raw: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  raw.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed.length === 0 || trimmed.startsWith('#') || trimmed === '---') {
+      return;
+    }
+
+    const match = /^(?<key>[A-Za-z]+):(?:\s+(?<value>.*))?$/.exec(line.trimEnd());
+    if (!match?.groups) {
+      throw new Error(`appDetails line ${index + 1} must be a 'key: value' pair; only flat YAML mappings are supported`);
+    }
+    const { key, value = '' } = match.groups as { key: string; value?: string };
+    const quoted = /^(["'])(?<text>.*)\1$/.exec(value);
+    result[key] = quoted?.groups ? (quoted.groups.text as string) : value.replace(/\s+#.*$/, '');
+  });
+  return result;
+}
+
+function validateAppDetails(details: AppDetailsUpdate): void {
+  const { contactEmail, contactPhone, contactWebsite, defaultLanguage } = details;
+  if (contactEmail !== undefined && !EMAIL_PATTERN.test(contactEmail)) {
+    throw new Error(`contactEmail is not a valid email address: ${contactEmail}`);
+  }
+  if (contactPhone !== undefined && !PHONE_PATTERN.test(contactPhone)) {
+    throw new Error(`contactPhone is not a valid phone number: ${contactPhone}`);
+  }
+  if (contactWebsite !== undefined && !isHttpUrl(contactWebsite)) {
+    throw new Error(`contactWebsite must be an http or https URL: ${contactWebsite}`);
+  }
+  if (defaultLanguage !== undefined && !LANGUAGE_PATTERN.test(defaultLanguage)) {
+    throw new Error(`defaultLanguage must be a language code such as en-US: ${defaultLanguage}`);
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * 릴리스 아티팩트 메타데이터 읽기
+ * APK의 바이너리 AndroidManifest.xml과 AAB의 protobuf 매니페스트를 로컬에서 파싱해
+ * Play API 호출 전에 패키지 이름과 버전 코드를 확인
+ */
+import { readFile } from 'fs/promises';
+import JSZip from 'jszip';
+import * as logger from './utils/logger';
+import { normalizeUnknownError, safeBasenameForLog } from './utils/security-utils';
+
+const APK_MANIFEST_PATH = 'AndroidManifest.xml';
+const AAB_MANIFEST_PATH = 'base/manifest/AndroidManifest.xml';
+const MAX_MANIFEST_BYTES = 4 * 1024 * 1024;
+
+// 바이너리 XML 청크 타입 (frameworks/base/libs/androidfw/include/androidfw/ResourceTypes.h)
+const RES_XML_TYPE = 0x0003;
+const RES_STRING_POOL_TYPE = 0x0001;
+const RES_XML_RESOURCE_MAP_TYPE = 0x0180;
+const RES_XML_START_ELEMENT_TYPE = 0x0102;
+const STRING_POOL_UTF8_FLAG = 0x100;
+const TYPE_STRING = 0x03;
+const TYPE_INT_DEC = 0x10;
+const TYPE_INT_HEX = 0x11;
+const NO_STRING_INDEX = 0xffffffff;
+
+// 이름이 제거된 매니페스트에서도 속성을 찾을 수 있도록 android 속성 리소스 ID로 매칭
+const ANDROID_ATTRIBUTE_NAMES: Record<number, string> = {
+  0x0101020c: 'minSdkVersion',
+  0x0101021b: 'versionCode',
+  0x0101021c: 'versionName',
+  0x01010270: 'targetSdkVersion',
+};
+
+export interface ArtifactMetadata {
+  releaseFile: string; // 메타데이터를 읽은 릴리스 파일 경로
+  packageName: string; // manifest 요소의 package 속성
+  versionCode: number; // android:versionCode
+  versionName?: string; // android:versionName
+  minSdk?: number; // uses-sdk의 android:minSdkVersion
+  targetSdk?: number; // uses-sdk의 android:targetSdkVersion
+}
+
+interface ManifestElement {
+  name: string;
+  attributes: Record<string, string | number | undefined>;
+}
+
+/**
+ * 아티팩트 메타데이터 읽기
+ * APK/AAB 압축 파일에서 매니페스트를 찾아 패키지 이름, 버전 코드, 버전 이름, SDK 버전을 추출
+ *
+ * @param releaseFile - APK 또는 AAB 파일 경로
+ * @returns 아티팩트 메타데이터
+ */
+export async function readArtifactMetadata(releaseFile: string): Promise<ArtifactMetadata> {
+  const isBundle = releaseFile.endsWith('.aab');
+  const manifestPath = isBundle ? AAB_MANIFEST_PATH : APK_MANIFEST_PATH;
+
+  try {
+    const zip = await JSZip.loadAsync(await readFile(releaseFile));
+    const manifestEntry = zip.file(manifestPath);
+    if (!manifestEntry) {
+      throw new Error(`${manifestPath} not found`);
+    }
+    const manifest = Buffer.from(await manifestEntry.async('uint8array'));
+    if (manifest.length > MAX_MANIFEST_BYTES) {
+      throw new Error(`${manifestPath} is too large: ${manifest.length} bytes exceeds ${MAX_MANIFEST_BYTES}`);
+    }
+
+    const elements = isBundle ? parseProtoManifest(manifest) : parseBinaryManifest(manifest);
+    return toArtifactMetadata(releaseFile, elements);
+  } catch (error: unknown) {
+    throw new Error(`Unable to read manifest from ${safeBasenameForLog(releaseFile)}: ${normalizeUnknownError(error).message}`);
+  }
+}
+
+/**
+ * 아티팩트 메타데이터 사전 검증
+ * 모든 릴리스 파일이 packageName 입력과 같은 패키지이고 버전 코드가 겹치지 않는지 확인
+ *
+ * @param packageName - 업로드 대상 패키지 이름
+ * @param releaseFiles - APK/AAB 파일 경로 목록
+ * @returns 릴리스 파일 순서대로 정렬된 메타데이터 배열
+ */
+export async function preflightArtifactMetadata(packageName: string, releaseFiles: string[]): Promise<ArtifactMetadata[]> {
+  const metadataList: ArtifactMetadata[] = [];
+  const releaseFileByVersionCode = new Map<number, string>();
+
+  for (const releaseFile of releaseFiles) {
+    const metadata = await readArtifactMetadata(releaseFile);
+    logger.d(
+      `${safeBasenameForLog(releaseFile)}: package=${metadata.packageName}, versionCode=${metadata.versionCode}, versionName=${metadata.versionName}, minSdk=${metadata.minSdk}, targetSdk=${metadata.targetSdk}`
+    );
+
+    if (metadata.packageName !== packageName) {
+      throw new Error(`${safeBasenameForLog(releaseFile)} is built for package ${metadata.packageName}, but 'packageName' is ${packageName}`);
+    }
+
+    const duplicateReleaseFile = releaseFileByVersionCode.get(metadata.versionCode);
+    if (duplicateReleaseFile !== undefined) {
+      throw new Error(
+        `versionCode ${metadata.versionCode} is used by both ${safeBasenameForLog(duplicateReleaseFile)} and ${safeBasenameForLog(releaseFile)}`
+      );
+    }
+    releaseFileByVersionCode.set(metadata.versionCode, releaseFile);
+    metadataList.push(metadata);
+  }
+
+  return metadataList;
+}
+
+function toArtifactMetadata(releaseFile: string, elements: ManifestElement[]): ArtifactMetadata {
+  const manifest = elements.find(element => element.name === 'manifest');
+  if (!manifest) {
+    throw new Error('manifest element not found');
+  }
+  const usesSdk = elements.find(element => element.name === 'uses-sdk');
+
+  const packageName = manifest.attributes.package;
+  if (typeof packageName !== 'string' || packageName.length === 0) {
+    throw new Error('manifest has no package attribute');
+  }
+  const versionCode = toInteger(manifest.attributes.versionCode);
+  if (versionCode === undefined || versionCode <= 0) {
+    throw new Error('manifest has no positive android:versionCode');
+  }
+  const versionName = manifest.attributes.versionName;
+
+  return {
+    releaseFile,
+    packageName,
+    versionCode,
+    versionName: versionName === undefined ? undefined : String(versionName),
+    minSdk: toInteger(usesSdk?.attributes.minSdkVersion),
+    targetSdk: toInteger(usesSdk?.attributes.targetSdkVersion),
+  };
+}
+
+function toInteger(value: string | number | undefined): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+/**
+ * 바이너리 XML 매니페스트 파싱 (APK)
+ * 문자열 풀, 리소스 맵, 시작 요소 청크만 읽어 요소 목록을 문서 순서대로 반환
+ */
+function parseBinaryManifest(buffer: Buffer): ManifestElement[] {
+  if (buffer.length < 8 || buffer.readUInt16LE(0) !== RES_XML_TYPE) {
+    throw new Error('not a binary XML document');
+  }
+
+  const end = Math.min(buffer.readUInt32LE(4), buffer.length);
+  const elements: ManifestElement[] = [];
+  let strings: string[] = [];
+  const resourceIds: number[] = [];
+
+  let offset = buffer.readUInt16LE(2);
+  while (offset + 8 <= end) {
+    const chunkType = buffer.readUInt16LE(offset);
+    const headerSize = buffer.readUInt16LE(offset + 2);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    if (chunkSize < 8 || offset + chunkSize > end) {
+      throw new Error(`truncated binary XML chunk at offset ${offset}`);
+    }
+
+    if (chunkType === RES_STRING_POOL_TYPE) {
+      strings = readStringPool(buffer, offset);
+    } else if (chunkType === RES_XML_RESOURCE_MAP_TYPE) {
+      for (let position = offset + headerSize; position + 4 <= offset + chunkSize; position += 4) {
+        resourceIds.push(buffer.readUInt32LE(position));
+      }
+    } else if (chunkType === RES_XML_START_ELEMENT_TYPE) {
+      elements.push(readStartElement(buffer, offset, strings, resourceIds));
+    }
+    offset += chunkSize;
+  }
+
+  return elements;
+}
+
+function readStringPool(buffer: Buffer, chunkStart: number): string[] {
+  const headerSize = buffer.readUInt16LE(chunkStart + 2);
+  const stringCount = buffer.readUInt32LE(chunkStart + 8);
+  const flags = buffer.readUInt32LE(chunkStart + 16);
+  const stringsStart = chunkStart + buffer.readUInt32LE(chunkStart + 20);
+  const isUtf8 = (flags & STRING_POOL_UTF8_FLAG) !== 0;
+
+  const strings: string[] = [];
+  for (let index = 0; index < stringCount; index++) {
+    const stringOffset = stringsStart + buffer.readUInt32LE(chunkStart + headerSize + index * 4);
+    strings.push(isUtf8 ? readUtf8PoolString(buffer, stringOffset) : readUtf16PoolString(buffer, stringOffset));
+  }
+  return strings;
+}
+
+function readUtf8PoolString(buffer: Buffer, offset: number): string {
+  // UTF-16 길이(1~2바이트) 다음에 UTF-8 바이트 길이(1~2바이트)가 옴
+  let position = offset + ((buffer.readUInt8(offset) & 0x80) !== 0 ? 2 : 1);
+  let byteLength = buffer.readUInt8(position);
+  if ((byteLength & 0x80) !== 0) {
+    byteLength = ((byteLength & 0x7f) << 8) | buffer.readUInt8(position + 1);
+    position += 2;
+  } else {
+    position += 1;
+  }
+  return buffer.toString('utf8', position, position + byteLength);
+}
+
+function readUtf16PoolString(buffer: Buffer, offset: number): string {
+  let charLength = buffer.readUInt16LE(offset);
+  let position = offset + 2;
+  if ((charLength & 0x8000) !== 0) {
+    charLength = ((charLength & 0x7fff) << 16) | buffer.readUInt16LE(position);
+    position += 2;
+  }
+  return buffer.toString('utf16le', position, position + charLength * 2);
+}
+
+function readStartElement(buffer: Buffer, chunkStart: number, strings: string[], resourceIds: number[]): ManifestElement {
+  const extStart = chunkStart + buffer.readUInt16LE(chunkStart + 2);
+  const name = strings[buffer.readUInt32LE(extStart + 4)] ?? '';
+  const attributeStart = buffer.readUInt16LE(extStart + 8);
+  const attributeSize = buffer.readUInt16LE(extStart + 10);
+  const attributeCount = buffer.readUInt16LE(extStart + 12);
+
+  const attributes: ManifestElement['attributes'] = {};
+  for (let index = 0; index < attributeCount; index++) {
+    const attributeOffset = extStart + attributeStart + index * attributeSize;
+    const nameIndex = buffer.readUInt32LE(attributeOffset + 4);
+    const rawValue = buffer.readUInt32LE(attributeOffset + 8);
+    const dataType = buffer.readUInt8(attributeOffset + 15);
+    const attributeName = ANDROID_ATTRIBUTE_NAMES[resourceIds[nameIndex] ?? -1] ?? strings[nameIndex];
+    if (attributeName === undefined) {
+      continue;
+    }
+
+    if (dataType === TYPE_STRING) {
+      attributes[attributeName] = strings[buffer.readUInt32LE(attributeOffset + 16)];
+    } else if (dataType === TYPE_INT_DEC || dataType === TYPE_INT_HEX) {
+      attributes[attributeName] = buffer.readInt32LE(attributeOffset + 16);
+    } else if (rawValue !== NO_STRING_INDEX) {
+      attributes[attributeName] = strings[rawValue];
+    }
+  }
+
+  return { name, attributes };
+}
+
+interface ProtoField {
+  field: number;
+  value: number | Buffer;
+}
+
+/**
+ * protobuf 매니페스트 파싱 (AAB)
+ * aapt2 XmlNode 메시지를 순회해 요소 목록을 문서 순서대로 반환
+ */
+function parseProtoManifest(buffer: Buffer): ManifestElement[] {
+  const elements: ManifestElement[] = [];
+  visitProtoNode(buffer, elements);
+  if (elements.length === 0) {
+    throw new Error('not a protobuf XML document');
+  }
+  return elements;
+}
+
+function visitProtoNode(buffer: Buffer, elements: ManifestElement[]) {
+  // XmlNode { XmlElement element = 1; string text = 2; }
+  for (const { field, value } of readProtoFields(buffer)) {
+    if (field === 1 && Buffer.isBuffer(value)) {
+      visitProtoElement(value, elements);
+    }
+  }
+}
+
+function visitProtoElement(buffer: Buffer, elements: ManifestElement[]) {
+  // XmlElement { string name = 3; repeated XmlAttribute attribute = 4; repeated XmlNode child = 5; }
+  const element: ManifestElement = { name: '', attributes: {} };
+  const children: Buffer[] = [];
+  for (const { field, value } of readProtoFields(buffer)) {
+    if (!Buffer.isBuffer(value)) {
+      continue;
+    }
+    if (field === 3) {
+      element.name = value.toString('utf8');
+    } else if (field === 4) {
+      const [attributeName, attributeValue] = readProtoAttribute(value);
+      element.attributes[attributeName] = attributeValue;
+    } else if (field === 5) {
+      children.push(value);
+    }
+  }
+
+  elements.push(element);
+  for (const child of children) {
+    visitProtoNode(child, elements);
+  }
+}
+
+function readProtoAttribute(buffer: Buffer): [string, string | number | undefined] {
+  // XmlAttribute { string name = 2; string value = 3; uint32 resource_id = 5; Item compiled_item = 6; }
+  let name = '';
+  let value: string | number | undefined;
+  let resourceId: number | undefined;
+  let compiledValue: number | undefined;
+  for (const attributeField of readProtoFields(buffer)) {
+    if (attributeField.field === 2 && Buffer.isBuffer(attributeField.value)) {
+      name = attributeField.value.toString('utf8');
+    } else if (attributeField.field === 3 && Buffer.isBuffer(attributeField.value)) {
+      value = attributeField.value.toString('utf8');
+    } else if (attributeField.field === 5 && typeof attributeField.value === 'number') {
+      resourceId = attributeField.value;
+    } else if (attributeField.field === 6 && Buffer.isBuffer(attributeField.value)) {
+      compiledValue = readProtoPrimitiveInteger(attributeField.value);
+    }
+  }
+
+  return [ANDROID_ATTRIBUTE_NAMES[resourceId ?? -1] ?? name, compiledValue ?? value];
+}
+
+function readProtoPrimitiveInteger(item: Buffer): number | undefined {
+  // Item { Primitive prim = 7; } / Primitive { int32 int_decimal_value = 6; int32 int_hexadecimal_value = 7; }
+  for (const itemField of readProtoFields(item)) {
+    if (itemField.field === 7 && Buffer.isBuffer(itemField.value)) {
+      for (const primitiveField of readProtoFields(itemField.value)) {
+        if ((primitiveField.field === 6 || primitiveField.field === 7) && typeof primitiveField.value === 'number') {
+          return primitiveField.value;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function readProtoFields(buffer: Buffer): ProtoField[] {
+  const fields: ProtoField[] = [];
+  let position = 0;
+  while (position < buffer.length) {
+    const [key, afterKey] = readVarint(buffer, position);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    position = afterKey;
+
+    if (wireType === 0) {
+      const [value, afterValue] = readVarint(buffer, position);
+      fields.push({ field, value });
+      position = afterValue;
+    } else if (wireType === 2) {
+      const [length, afterLength] = readVarint(buffer, position);
+      if (afterLength + length > buffer.length) {
+        throw new Error('truncated protobuf field');
+      }
+      fields.push({ field, value: buffer.subarray(afterLength, afterLength + length) });
+      position = afterLength + length;
+    } else if (wireType === 1 || wireType === 5) {
+      position += wireType === 1 ? 8 : 4;
+    } else {
+      throw new Error(`unsupported protobuf wire type ${wireType}`);
+    }
+  }
+  return fields;
+}
+
+function readVarint(buffer: Buffer, offset: number): [number, number] {
+  let value = 0;
+  let multiplier = 1;
+  let position = offset;
+  for (;;) {
+    if (position >= buffer.length) {
+      throw new Error('truncated protobuf varint');
+    }
+    const byte = buffer.readUInt8(position++);
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return [value, position];
+    }
+    multiplier *= 128;
+  }
+}
+
+export const __testables = {
+  parseBinaryManifest,
+  parseProtoManifest,
+  readProtoFields,
+};
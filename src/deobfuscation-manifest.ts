@@ -0,0 +1,101 @@
+/**
+ * 아티팩트별 난독화 해제 파일 매니페스트
+ * 여러 릴리스 파일을 업로드할 때 각 아티팩트와 매핑 파일/디버그 심볼을 짝지음
+ */
+import * as path from 'path';
+import { readFile } from 'fs/promises';
+import * as logger from './utils/logger';
+import { normalizeUnknownError, resolveSecureFile, safeBasenameForLog } from './utils/security-utils';
+
+const DEOBFUSCATION_MANIFEST_MAX_BYTES = 1024 * 1024;
+
+export interface ArtifactDeobfuscationFiles {
+  mappingFile?: string; // 아티팩트 전용 ProGuard 매핑 파일
+  debugSymbols?: string; // 아티팩트 전용 디버그 심볼 파일 또는 디렉토리
+}
+
+/**
+ * 릴리스 파일 경로를 매니페스트 키로 변환
+ *
+ * @param releaseFile - 릴리스 파일 경로
+ * @returns 절대 경로 키
+ */
+export function deobfuscationManifestKey(releaseFile: string): string {
+  return path.resolve(releaseFile);
+}
+
+/**
+ * 난독화 해제 파일 매니페스트 읽기
+ * JSON 배열의 각 항목({ releaseFile, mappingFile?, debugSymbols? })을 읽어 릴리스 파일별로 정리하고,
+ * 짝이 없는 릴리스 파일이 있으면 실패
+ *
+ * @param manifestPath - 매니페스트 JSON 파일 경로
+ * @param releaseFiles - 업로드할 릴리스 파일 목록
+ * @returns 릴리스 파일 절대 경로를 키로 하는 난독화 해제 파일 맵
+ */
+export async function readDeobfuscationManifest(manifestPath: string, releaseFiles: string[]): Promise<Record<string, ArtifactDeobfuscationFiles>> {
+  const manifestFile = resolveSecureFile(manifestPath, 'deobfuscationManifest', {
+    extensions: ['.json'],
+    maxBytes: DEOBFUSCATION_MANIFEST_MAX_BYTES,
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(manifestFile, 'utf-8'));
+  } catch (error: unknown) {
+    throw new Error(`deobfuscationManifest is not valid JSON: ${normalizeUnknownError(error).message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('deobfuscationManifest must be a JSON array of { releaseFile, mappingFile, debugSymbols } entries');
+  }
+
+  const entries: Record<string, ArtifactDeobfuscationFiles> = {};
+  parsed.forEach((entry: unknown, index) => {
+    const { releaseFile, mappingFile, debugSymbols } = parseManifestEntry(entry, index);
+    const key = deobfuscationManifestKey(releaseFile);
+    if (entries[key]) {
+      throw new Error(`deobfuscationManifest lists ${safeBasenameForLog(releaseFile)} more than once`);
+    }
+    entries[key] = { mappingFile, debugSymbols };
+  });
+
+  const releaseKeys = releaseFiles.map(deobfuscationManifestKey);
+  const unpairedReleaseFiles = releaseFiles.filter(releaseFile => !entries[deobfuscationManifestKey(releaseFile)]);
+  if (unpairedReleaseFiles.length > 0) {
+    throw new Error(`deobfuscationManifest has no entry for release file(s): ${unpairedReleaseFiles.map(safeBasenameForLog).join(', ')}`);
+  }
+
+  for (const key of Object.keys(entries)) {
+    if (!releaseKeys.includes(key)) {
+      logger.w(`deobfuscationManifest entry for ${safeBasenameForLog(key)} does not match any release file; ignoring it`);
+      delete entries[key];
+    }
+  }
+
+  return entries;
+}
+
+function parseManifestEntry(entry: unknown, index: number): ArtifactDeobfuscationFiles & { releaseFile: string } {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    throw new Error(`deobfuscationManifest entry #${index} must be an object`);
+  }
+
+  const { releaseFile, mappingFile, debugSymbols } = entry as Record<string, unknown>;
+  if (typeof releaseFile !== 'string' || releaseFile.trim().length === 0) {
+    throw new Error(`deobfuscationManifest entry #${index} must have a non-empty 'releaseFile'`);
+  }
+  for (const [field, value] of Object.entries({ mappingFile, debugSymbols })) {
+    if (value !== undefined && (typeof value !== 'string' || value.trim().length === 0)) {
+      throw new Error(`deobfuscationManifest entry #${index} has an invalid '${field}'`);
+    }
+  }
+  if (mappingFile === undefined && debugSymbols === undefined) {
+    throw new Error(`deobfuscationManifest entry #${index} must set 'mappingFile' or 'debugSymbols'`);
+  }
+
+  return {
+    releaseFile,
+    mappingFile: mappingFile as string | undefined,
+    debugSymbols: debugSymbols as string | undefined,
+  };
+}
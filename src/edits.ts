@@ -12,9 +12,12 @@ import * as google from '@googleapis/androidpublisher';
 import { androidpublisher_v3 } from '@googleapis/androidpublisher';
 import { GoogleAuth } from 'google-auth-library/build/src/auth/googleauth';
 import { readLocalizedReleaseNotes } from './whatsnew';
+import { StoreListing } from './listings';
+import { StoreImageSet } from './images';
+import { AppDetailsUpdate } from './app-details';
 import * as logger from './utils/logger';
 import path = require('path');
-import { without } from 'es-toolkit/array';
+import { compact, maxBy, uniq, without } from 'es-toolkit/array';
 import {
   assertPathInsideAllowedRoots,
   assertPathInsideRoot,
@@ -23,19 +26,53 @@ import {
   resolveSecureFile,
   safeBasenameForLog,
 } from './utils/security-utils';
-import { ReleaseStatus } from './input-validation';
+import { ExistingDraftPolicy, ReleaseStatus, validateStatus, validateUserFraction } from './input-validation';
+import { ArtifactDeobfuscationFiles, deobfuscationManifestKey } from './deobfuscation-manifest';
+import { ArtifactMetadata, preflightArtifactMetadata } from './artifact-metadata';
+import { writeUploadSummary } from './job-summary';
+import { mapWithConcurrency } from './utils/concurrency';
+import { sha256File } from './utils/file-hash';
+import { registerShutdownCleanup } from './utils/shutdown';
+import { openRunState, removeRunState, RunState, RunStateFile, saveRunState } from './run-state';
+import {
+  bufferUploadSource,
+  continueResumableUpload,
+  fileUploadSource,
+  RESUMABLE_UPLOAD_CHUNK_BYTES,
+  ResumableUploadSession,
+  startResumableUpload,
+  UPLOAD_API_ROOT,
+} from './resumable-upload';
 
 import AndroidPublisher = androidpublisher_v3.Androidpublisher;
 import Apk = androidpublisher_v3.Schema$Apk;
 import Bundle = androidpublisher_v3.Schema$Bundle;
 import Track = androidpublisher_v3.Schema$Track;
+import TrackRelease = androidpublisher_v3.Schema$TrackRelease;
 import InternalAppSharingArtifact = androidpublisher_v3.Schema$InternalAppSharingArtifact;
 import LocalizedText = androidpublisher_v3.Schema$LocalizedText;
+import AppDetails = androidpublisher_v3.Schema$AppDetails;
+import AppEdit = androidpublisher_v3.Schema$AppEdit;
 
 type LiteralUnion<T extends U, U = string> = T | (U & Record<never, never>);
 
 export type ReleaseTrack = LiteralUnion<'internalsharing' | 'production' | 'beta' | 'alpha' | 'internal', string>;
 
+export interface RetryPolicy {
+  maxAttempts: number; // 첫 시도를 포함한 최대 시도 횟수
+  baseDelayMs: number; // 지수 백오프의 기본 지연 시간
+}
+
+/**
+ * Google Play API 호출 옵션
+ * 재시도 정책, 호출별 시간 제한, 실행 전체를 중단하는 신호
+ */
+interface GoogleApiCallOptions {
+  retryPolicy?: RetryPolicy;
+  apiCallTimeoutMs?: number;
+  signal?: AbortSignal;
+}
+
 export interface RunUploadOptions {
   packageName: string;
   track: ReleaseTrack;
@@ -50,18 +87,114 @@ export interface RunUploadOptions {
   status: ReleaseStatus;
   releaseFiles: string[];
   releaseNotes: LocalizedText[] | undefined;
+  listings: StoreListing[] | undefined;
+  images: StoreImageSet[] | undefined;
+  appDetails: AppDetailsUpdate | undefined;
+  pruneListings: boolean;
+  existingDrafts: ExistingDraftPolicy;
+  retainedVersionCodes: number[] | undefined;
+  deobfuscationFiles: Record<string, ArtifactDeobfuscationFiles> | undefined;
+  releaseNameTemplate: string | undefined;
+  validateOnly: boolean;
+  retryPolicy: RetryPolicy;
+  apiCallTimeoutMs: number;
+  signal: AbortSignal;
+  uploadConcurrency: number;
+  stateFile: string | undefined;
+  commit: boolean;
+  changesNotSentForReviewFallback: boolean;
+}
+
+export interface RunPromoteOptions {
+  packageName: string;
+  fromTrack: ReleaseTrack;
+  track: ReleaseTrack;
+  userFraction: number | undefined;
+  name: string | undefined;
+  changesNotSentForReview: boolean;
+  existingEditId: string | undefined;
+  status: ReleaseStatus;
+  existingDrafts: ExistingDraftPolicy;
+  retryPolicy: RetryPolicy;
+  apiCallTimeoutMs: number;
+  signal: AbortSignal;
+}
+
+export interface RunCommitOptions {
+  packageName: string;
+  editId: string;
+  changesNotSentForReview: boolean;
+  retryPolicy: RetryPolicy;
+  apiCallTimeoutMs: number;
+  signal: AbortSignal;
+}
+
+export interface RunDiscardOptions {
+  packageName: string;
+  editId: string;
+  retryPolicy: RetryPolicy;
+  apiCallTimeoutMs: number;
+  signal: AbortSignal;
+}
+
+export interface RunPruneListingsPreviewOptions {
+  packageName: string;
+  listings: StoreListing[] | undefined;
+  existingEditId: string | undefined;
+  retryPolicy: RetryPolicy;
+  apiCallTimeoutMs: number;
+  signal: AbortSignal;
+}
+
+export interface RunRolloutOptions {
+  packageName: string;
+  track: ReleaseTrack;
+  userFraction: number | undefined;
+  status: ReleaseStatus;
+  force: boolean;
+  changesNotSentForReview: boolean;
+  existingEditId: string | undefined;
+  retryPolicy: RetryPolicy;
+  apiCallTimeoutMs: number;
+  signal: AbortSignal;
+}
+
+interface RolloutState {
+  status: string | null | undefined;
+  userFraction: number | null | undefined;
+  versionCodes: string[];
+}
+
+interface UpdatedTrack {
+  releases: TrackRelease[]; // tracks.update 응답의 전체 릴리스
+  release: TrackRelease; // 요청한 버전 코드를 담은 릴리스
 }
 
 type UploadToPlayStoreResult =
   | {
       kind: 'edit';
       editId: string;
+      release: RolloutState;
+      releaseNoteLocales: string[];
+      downloadUrls: string[];
+      reusedVersionCodes: number[];
+      changesNotSentForReviewFallback: boolean; // Play의 요구로 changesNotSentForReview=true로 다시 커밋했는지 여부
     }
   | {
       kind: 'internalsharing';
       downloadUrls: string[];
     };
 
+interface CommittedEdit {
+  editId: string;
+  changesNotSentForReviewFallback: boolean; // changesNotSentForReview=true로 다시 커밋했는지 여부
+}
+
+interface UploadedReleaseFiles {
+  versionCodes: number[]; // 입력 순서대로의 릴리스 파일 버전 코드
+  reusedVersionCodes: number[]; // Play에 이미 있어 업로드를 건너뛴 버전 코드
+}
+
 interface GoogleApiResponse<T> {
   status?: number;
   statusText?: string;
@@ -70,13 +203,18 @@ interface GoogleApiResponse<T> {
 
 const androidPublisher: AndroidPublisher = google.androidpublisher('v3');
 const GOOGLE_API_TIMEOUT_MS = 10 * 60 * 1000;
-const GOOGLE_API_RETRY_ATTEMPTS = 3;
+const GOOGLE_API_MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000 };
+const RETRYABLE_NETWORK_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN'];
 const MAX_MAPPING_FILE_BYTES = 10 * 1024 * 1024;
 const MAX_DEBUG_SYMBOL_ZIP_BYTES = 512 * 1024 * 1024;
 const MAX_DEBUG_SYMBOL_FILE_BYTES = 512 * 1024 * 1024;
 const MAX_DEBUG_SYMBOL_TOTAL_BYTES = 1024 * 1024 * 1024;
 const MAX_DEBUG_SYMBOL_FILES = 10000;
 const MAX_DEBUG_SYMBOL_DEPTH = 16;
+const EDIT_EXPIRY_WARNING_SECONDS = 30 * 60;
+// 거절되었거나 검토 중인 변경사항이 있을 때 edits.commit이 돌려주는 오류 문구
+const CHANGES_NOT_SENT_FOR_REVIEW_REQUIRED = /changes cannot be sent for review automatically/i;
 
 function normalizeError(error: unknown): Error {
   return normalizeUnknownError(error);
@@ -107,22 +245,64 @@ function requireResponseData<T>(operation: string, context: Record<string, unkno
   throw new Error(`${operation} response missing data (${formatResponseContext(context)})`);
 }
 
+function getErrorStatus(error: unknown): number | undefined {
+  const maybeStatus = (error as { code?: unknown; status?: unknown; response?: { status?: unknown } }) ?? {};
+  return [maybeStatus.status, maybeStatus.code, maybeStatus.response?.status].find(value => typeof value === 'number');
+}
+
 function isRetryableError(error: unknown): boolean {
-  const maybeStatus = (error as { code?: number; status?: number; response?: { status?: number } }) ?? {};
-  const status = maybeStatus.status ?? maybeStatus.code ?? maybeStatus.response?.status;
-  return status === undefined || status === 408 || status === 429 || status >= 500;
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    // 4xx 중에서는 요청 시간 초과(408)와 요청 한도 초과(429)만 재시도
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  // 상태 코드가 없으면 네트워크 오류 코드로 판단하고, 코드도 없으면 일시적 오류로 간주
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' ? RETRYABLE_NETWORK_ERROR_CODES.includes(code) : true;
 }
 
-async function withGoogleApiGuard<T>(operation: string, context: Record<string, unknown>, fn: () => Promise<T>): Promise<T> {
+/**
+ * Retry-After 헤더 읽기
+ * 초 단위 숫자 또는 HTTP 날짜를 밀리초 대기 시간으로 변환
+ */
+function getRetryAfterMs(error: unknown): number | undefined {
+  const retryAfter = (error as { response?: { headers?: Record<string, unknown> } } | null)?.response?.headers?.['retry-after'];
+  if (typeof retryAfter !== 'string') return undefined;
+
+  const delayMs = /^\d+$/.test(retryAfter.trim()) ? Number(retryAfter) * 1000 : Date.parse(retryAfter) - Date.now();
+  return Number.isNaN(delayMs) ? undefined : Math.max(0, delayMs);
+}
+
+/**
+ * 재시도 대기 시간 계산
+ * 지수 백오프의 절반을 무작위로 흔들고(jitter), Retry-After가 더 길면 그 값을 따름
+ */
+function computeRetryDelayMs(attempt: number, retryPolicy: RetryPolicy, error: unknown): number {
+  const backoffMs = retryPolicy.baseDelayMs * 2 ** (attempt - 1);
+  const jitteredMs = backoffMs / 2 + (Math.random() * backoffMs) / 2;
+  return Math.round(Math.min(Math.max(jitteredMs, getRetryAfterMs(error) ?? 0), GOOGLE_API_MAX_RETRY_DELAY_MS));
+}
+
+async function withGoogleApiGuard<T>(
+  operation: string,
+  context: Record<string, unknown>,
+  fn: (signal: AbortSignal) => Promise<T>,
+  callOptions: GoogleApiCallOptions = {}
+): Promise<T> {
+  const retryPolicy = callOptions.retryPolicy ?? DEFAULT_RETRY_POLICY;
   let lastError: unknown;
 
-  for (let attempt = 1; attempt <= GOOGLE_API_RETRY_ATTEMPTS; attempt++) {
+  for (let attempt = 1; attempt <= retryPolicy.maxAttempts; attempt++) {
     try {
-      return await withTimeout(fn(), operation);
+      return await withTimeout(fn, operation, callOptions.apiCallTimeoutMs ?? GOOGLE_API_TIMEOUT_MS, callOptions.signal);
     } catch (error: unknown) {
       lastError = error;
-      if (attempt === GOOGLE_API_RETRY_ATTEMPTS || !isRetryableError(error)) break;
-      logger.w(`${operation} failed on attempt ${attempt}/${GOOGLE_API_RETRY_ATTEMPTS}: ${normalizeError(error).message}; retrying`);
+      // 실행 전체가 중단된 경우에는 재시도하지 않음
+      if (attempt === retryPolicy.maxAttempts || callOptions.signal?.aborted || !isRetryableError(error)) break;
+      const delayMs = computeRetryDelayMs(attempt, retryPolicy, error);
+      logger.w(`${operation} failed on attempt ${attempt}/${retryPolicy.maxAttempts}: ${normalizeError(error).message}; retrying in ${delayMs}ms`);
+      await sleep(delayMs, callOptions.signal);
     }
   }
 
@@ -133,20 +313,49 @@ async function withGoogleApiGuard<T>(operation: string, context: Record<string,
   throw new Error(`${operation} failed${contextText ? ` (${contextText})` : ''}: ${normalizeError(lastError).message}`);
 }
 
-async function withTimeout<T>(promise: Promise<T>, operation: string): Promise<T> {
-  let timeout: ReturnType<typeof setTimeout> | undefined;
+/**
+ * 호출 시간 제한
+ * 시간 초과 또는 실행 중단 시 AbortSignal로 진행 중인 HTTP 요청과 업로드 스트림까지 중단
+ */
+async function withTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  operation: string,
+  timeoutMs: number,
+  runSignal: AbortSignal | undefined
+): Promise<T> {
+  runSignal?.throwIfAborted();
+
+  const timeoutController = new AbortController();
+  const signal = runSignal ? AbortSignal.any([runSignal, timeoutController.signal]) : timeoutController.signal;
+  const timeout = setTimeout(() => timeoutController.abort(new Error(`${operation} timed out after ${timeoutMs}ms`)), timeoutMs);
+  // 호출 도중 바로 중단되는 경우도 놓치지 않도록 호출 전에 등록하고, 호출이 끝난 뒤의 중단은 무시
+  const aborted = new Promise<never>((_resolve, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+  aborted.catch(() => undefined);
   try {
-    return await Promise.race([
-      promise,
-      new Promise<T>((_resolve, reject) => {
-        timeout = setTimeout(() => reject(new Error(`${operation} timed out after ${GOOGLE_API_TIMEOUT_MS}ms`)), GOOGLE_API_TIMEOUT_MS);
-      }),
-    ]);
+    return await Promise.race([fn(signal), aborted]);
   } finally {
-    if (timeout) clearTimeout(timeout);
+    clearTimeout(timeout);
   }
 }
 
+/**
+ * 재시도 대기
+ * 실행이 중단되면 대기를 끝내고 다음 시도에서 중단 사유를 던지게 함
+ */
+async function sleep(delayMs: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delayMs);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
 function assertPositiveVersionCode(versionCode: unknown, artifactType: string, releaseFile: string, appEditId: string): number {
   if (typeof versionCode === 'number' && Number.isInteger(versionCode) && versionCode > 0) {
     return versionCode;
@@ -173,22 +382,50 @@ export interface EditOptions {
   name?: string; // 릴리스 이름
   status: ReleaseStatus; // 릴리스 상태
   changesNotSentForReview?: boolean; // 리뷰 없이 변경사항 적용 여부
+  changesNotSentForReviewFallback?: boolean; // Play가 요구하면 changesNotSentForReview=true로 커밋을 한 번 더 시도
   existingEditId?: string; // 기존 편집 ID
   releaseNotes?: LocalizedText[]; // 릴리스 노트
+  listings?: StoreListing[]; // 같은 편집에서 교체할 언어별 스토어 등록정보
+  images?: StoreImageSet[]; // 같은 편집에서 동기화할 언어와 이미지 종류별 스토어 이미지
+  appDetails?: AppDetailsUpdate; // 같은 편집에서 바꿀 기본 언어와 연락처
+  pruneListings?: boolean; // listings에 없는 언어의 스토어 등록정보를 삭제 (기본 언어는 삭제하지 않음)
+  existingDrafts?: ExistingDraftPolicy; // 트랙에 남아 있는 초안 릴리스 처리 방식
+  retainedVersionCodes?: number[]; // 새 릴리스와 함께 유지할 기존 버전 코드
+  deobfuscationFiles?: Record<string, ArtifactDeobfuscationFiles>; // 릴리스 파일별 매핑 파일과 디버그 심볼
+  releaseNameTemplate?: string; // name이 없을 때 아티팩트 메타데이터로 릴리스 이름을 만드는 템플릿
+  validateOnly?: boolean; // true면 커밋 대신 edits.validate 후 편집 삭제
+  retryPolicy?: RetryPolicy; // Google Play API 호출 재시도 정책
+  apiCallTimeoutMs?: number; // Google Play API 호출별 시간 제한
+  signal?: AbortSignal; // 실행 전체 시간 초과 시 진행 중인 호출을 중단하는 신호
+  uploadConcurrency?: number; // 동시에 업로드할 아티팩트 수
+  runState?: RunStateFile; // 다시 실행할 때 끝난 단계를 건너뛰기 위한 실행 상태 파일
+  commit?: boolean; // false면 커밋하지 않고 편집을 열어 둠 (다른 작업이 이어서 쓰고 type: commit으로 커밋)
 }
 
+/**
+ * 편집 단위 API 호출에 필요한 옵션
+ * 트랙 없이 편집만 커밋하거나 삭제하는 실행에서도 쓸 수 있도록 EditOptions의 일부만 요구
+ */
+type EditCallOptions = Pick<
+  EditOptions,
+  'auth' | 'applicationId' | 'changesNotSentForReview' | 'changesNotSentForReviewFallback' | 'retryPolicy' | 'apiCallTimeoutMs' | 'signal'
+> &
+  Partial<Pick<EditOptions, 'track'>>;
+
+/**
+ * 등록정보 정리에 필요한 옵션
+ * 업로드 없이 정리할 언어만 조회하는 dry-run에서도 쓸 수 있도록 편집 호출 옵션과 로컬 등록정보만 요구
+ */
+type PruneListingsOptions = EditCallOptions & Pick<EditOptions, 'listings'>;
+
 /**
  * 앱 업로드 실행 함수
  * Google Play Console에 앱을 업로드하고 릴리스 정보를 설정
  */
 export async function runUpload(options: RunUploadOptions): Promise<void> {
-  const auth = new google.auth.GoogleAuth({
-    scopes: ['https://www.googleapis.com/auth/androidpublisher'],
-  });
-
   const result = await uploadToPlayStore(
     {
-      auth: auth,
+      auth: createGoogleAuth(),
       applicationId: options.packageName,
       track: options.track,
       inAppUpdatePriority: options.inAppUpdatePriority ?? 0,
@@ -201,13 +438,183 @@ export async function runUpload(options: RunUploadOptions): Promise<void> {
       existingEditId: options.existingEditId,
       status: options.status,
       releaseNotes: options.releaseNotes,
+      listings: options.listings,
+      images: options.images,
+      appDetails: options.appDetails,
+      pruneListings: options.pruneListings,
+      existingDrafts: options.existingDrafts,
+      retainedVersionCodes: options.retainedVersionCodes,
+      deobfuscationFiles: options.deobfuscationFiles,
+      releaseNameTemplate: options.releaseNameTemplate,
+      validateOnly: options.validateOnly,
+      retryPolicy: options.retryPolicy,
+      apiCallTimeoutMs: options.apiCallTimeoutMs,
+      signal: options.signal,
+      uploadConcurrency: options.uploadConcurrency,
+      runState: options.stateFile ? openRunState(options.stateFile, options.packageName, options.track) : undefined,
+      commit: options.commit,
+      changesNotSentForReviewFallback: options.changesNotSentForReviewFallback,
     },
     options.releaseFiles
   );
 
-  if (result.kind === 'edit') {
-    console.log(`Finished uploading to the Play Store: ${result.editId}`);
+  if (result.kind === 'edit' && options.validateOnly) {
+    console.log(`Finished validating the upload without committing: ${result.editId}`);
+  } else if (result.kind === 'edit') {
+    core.setOutput('editId', result.editId);
+    core.setOutput('versionCodes', JSON.stringify(result.release.versionCodes));
+    core.setOutput('track', options.track);
+    core.setOutput('releaseStatus', result.release.status);
+    core.setOutput('userFraction', result.release.userFraction);
+    core.setOutput('reusedVersionCodes', JSON.stringify(result.reusedVersionCodes));
+    core.setOutput('changesNotSentForReviewFallback', result.changesNotSentForReviewFallback);
+    console.log(
+      options.commit ? `Finished uploading to the Play Store: ${result.editId}` : `Finished uploading without committing edit ${result.editId}`
+    );
   }
+
+  await writeUploadSummary({
+    packageName: options.packageName,
+    track: options.track,
+    releaseFiles: options.releaseFiles,
+    validateOnly: options.validateOnly,
+    uncommitted: result.kind === 'edit' && !options.validateOnly && !options.commit,
+    ...result,
+  });
+}
+
+/**
+ * 릴리스 승격 실행 함수
+ * 기존 트랙의 릴리스를 재업로드 없이 다른 트랙으로 복사
+ */
+export async function runPromote(options: RunPromoteOptions): Promise<void> {
+  const editId = await promoteRelease(
+    {
+      auth: createGoogleAuth(),
+      applicationId: options.packageName,
+      track: options.track,
+      inAppUpdatePriority: 0,
+      userFraction: options.userFraction,
+      name: options.name,
+      changesNotSentForReview: options.changesNotSentForReview,
+      existingEditId: options.existingEditId,
+      status: options.status,
+      existingDrafts: options.existingDrafts,
+      retryPolicy: options.retryPolicy,
+      apiCallTimeoutMs: options.apiCallTimeoutMs,
+      signal: options.signal,
+    },
+    options.fromTrack
+  );
+
+  console.log(`Finished promoting ${options.fromTrack} release to ${options.track}: ${editId}`);
+}
+
+/**
+ * 점진적 출시 관리 실행 함수
+ * 업로드 없이 트랙의 진행 중/중단된 릴리스의 userFraction 또는 상태를 변경
+ */
+export async function runRollout(options: RunRolloutOptions): Promise<void> {
+  const result = await updateRollout(
+    {
+      auth: createGoogleAuth(),
+      applicationId: options.packageName,
+      track: options.track,
+      inAppUpdatePriority: 0,
+      userFraction: options.userFraction,
+      changesNotSentForReview: options.changesNotSentForReview,
+      existingEditId: options.existingEditId,
+      status: options.status,
+      retryPolicy: options.retryPolicy,
+      apiCallTimeoutMs: options.apiCallTimeoutMs,
+      signal: options.signal,
+    },
+    options.force
+  );
+
+  core.setOutput('rolloutBefore', JSON.stringify(result.before));
+  core.setOutput('rolloutAfter', JSON.stringify(result.after));
+  console.log(`Finished updating the rollout on ${options.track}: ${result.editId}`);
+}
+
+/**
+ * 편집 커밋 실행 함수
+ * 여러 작업이 commit: false로 채운 편집을 한 번에 커밋
+ */
+export async function runCommit(options: RunCommitOptions): Promise<void> {
+  const editOptions: EditCallOptions = {
+    auth: createGoogleAuth(),
+    applicationId: options.packageName,
+    changesNotSentForReview: options.changesNotSentForReview,
+    retryPolicy: options.retryPolicy,
+    apiCallTimeoutMs: options.apiCallTimeoutMs,
+    signal: options.signal,
+  };
+  await verifyExistingEdit(options.editId, editOptions);
+  const { editId } = await commitEdit(options.editId, editOptions);
+
+  core.setOutput('editId', editId);
+  console.log(`Finished committing edit: ${editId}`);
+}
+
+/**
+ * 편집 삭제 실행 함수
+ * 커밋하지 않기로 한 편집을 변경 없이 버림
+ */
+export async function runDiscard(options: RunDiscardOptions): Promise<void> {
+  const editOptions: EditCallOptions = {
+    auth: createGoogleAuth(),
+    applicationId: options.packageName,
+    retryPolicy: options.retryPolicy,
+    apiCallTimeoutMs: options.apiCallTimeoutMs,
+    signal: options.signal,
+  };
+  await verifyExistingEdit(options.editId, editOptions);
+  await deleteEdit(options.editId, editOptions, editOptions);
+
+  console.log(`Finished discarding edit: ${options.editId}`);
+}
+
+/**
+ * 등록정보 정리 미리보기 실행 함수
+ * dryRun 'true'에서 edits.listings.list와 edits.details.get만 호출해 pruneListings가 지울 언어를 출력
+ * 등록정보 조회에도 편집이 필요하므로 existingEditId가 없으면 임시 편집을 만들고 변경 없이 삭제
+ */
+export async function runPruneListingsPreview(options: RunPruneListingsPreviewOptions): Promise<void> {
+  const editOptions: PruneListingsOptions = {
+    auth: createGoogleAuth(),
+    applicationId: options.packageName,
+    listings: options.listings,
+    retryPolicy: options.retryPolicy,
+    apiCallTimeoutMs: options.apiCallTimeoutMs,
+    signal: options.signal,
+  };
+  let appEditId: string;
+  if (options.existingEditId) {
+    await verifyExistingEdit(options.existingEditId, editOptions);
+    appEditId = options.existingEditId;
+  } else {
+    appEditId = await insertEdit(editOptions);
+  }
+  const unregisterShutdownCleanup = options.existingEditId
+    ? undefined
+    : registerShutdownCleanup(`delete edit ${appEditId}`, () => cleanupEdit(appEditId, editOptions));
+
+  try {
+    const extraLanguages = await findPrunableListingLanguages(appEditId, editOptions);
+    logger.i(extraLanguages.length > 0 ? `Would delete store listings for: ${extraLanguages.join(', ')}` : 'No store listings to prune');
+  } finally {
+    unregisterShutdownCleanup?.();
+    if (!options.existingEditId) {
+      await cleanupEdit(appEditId, editOptions);
+    }
+  }
+}
+
+function createGoogleAuth(): GoogleAuth {
+  return new google.auth.GoogleAuth({
+    scopes: ['https://www.googleapis.com/auth/androidpublisher'],
+  });
 }
 
 /**
@@ -219,15 +626,51 @@ async function uploadToPlayStore(options: EditOptions, releaseFiles: string[]):
     throw new Error('At least one release file is required for upload.');
   }
 
+  if (options.validateOnly && options.track === 'internalsharing') {
+    throw new Error("dryRun 'validate-remote' is not supported for internalsharing uploads, which are published immediately.");
+  }
+  if (options.validateOnly && options.existingEditId) {
+    throw new Error("dryRun 'validate-remote' creates and deletes its own edit; remove 'existingEditId' to use it.");
+  }
+  if (options.validateOnly && options.runState) {
+    throw new Error("dryRun 'validate-remote' deletes its edit, so there is nothing to resume; remove 'stateFile' to use it.");
+  }
+  if (options.validateOnly && options.commit === false) {
+    throw new Error("dryRun 'validate-remote' never commits its edit; remove 'commit: false' to use it.");
+  }
+
   const internalSharingDownloadUrls: string[] = [];
 
   // 내부 공유 트랙인 경우 특별한 업로드 API 사용
   if (options.track === 'internalsharing') {
     logger.d('Track is Internal app sharing, switch to special upload api');
-    let lastDownloadUrl = '';
-    for (const releaseFile of releaseFiles) {
+    if (options.retainedVersionCodes?.length) {
+      logger.w(`'retainedVersionCodes' is ignored for internal app sharing uploads`);
+    }
+    if (options.runState) {
+      logger.w(`'stateFile' is ignored for internal app sharing uploads`);
+    }
+    if (options.commit === false) {
+      logger.w(`'commit: false' is ignored for internal app sharing uploads, which are published immediately`);
+    }
+    if (options.listings?.length) {
+      logger.w(`'listingsDirectory' is ignored for internal app sharing uploads`);
+    }
+    if (options.images?.length) {
+      logger.w(`'syncImages' is ignored for internal app sharing uploads`);
+    }
+    if (options.appDetails) {
+      logger.w(`App details are ignored for internal app sharing uploads`);
+    }
+    if (options.pruneListings) {
+      logger.w(`'pruneListings' is ignored for internal app sharing uploads`);
+    }
+    const downloadUrls = await mapWithConcurrency(releaseFiles, options.uploadConcurrency ?? 1, async releaseFile => {
       logger.d(`Uploading ${releaseFile}`);
-      const url = await uploadInternalSharingRelease(options, releaseFile);
+      return uploadInternalSharingRelease(options, releaseFile);
+    });
+    let lastDownloadUrl = '';
+    for (const url of downloadUrls) {
       lastDownloadUrl = url;
       internalSharingDownloadUrls.push(url);
     }
@@ -235,18 +678,28 @@ async function uploadToPlayStore(options: EditOptions, releaseFiles: string[]):
     core.setOutput('internalSharingDownloadUrl', lastDownloadUrl);
     core.exportVariable('INTERNAL_SHARING_DOWNLOAD_URL', lastDownloadUrl);
   } else {
-    preflightReleaseArtifacts(options, releaseFiles);
-
-    // 새 편집 생성
-    const appEditId = await getOrCreateEdit(options);
-    const ownsEdit = !options.existingEditId;
-
-    try {
+    const artifactMetadata = await preflightReleaseArtifacts(options, releaseFiles);
+    const reusedVersionCodes: number[] = [];
+    const releaseOptions = { ...options, name: options.name ?? buildReleaseName(options, artifactMetadata) };
+
+    const {
+      editId,
+      result: updatedTrack,
+      changesNotSentForReviewFallback,
+    } = await executeEdit(options, async appEditId => {
       // 선택된 트랙 검증
       await validateSelectedTrack(appEditId, options);
 
+      // 언어별 스토어 등록정보와 앱 세부정보 교체 (새 기본 언어의 등록정보가 먼저 있어야 기본 언어를 바꿀 수 있음)
+      await updateListings(appEditId, options);
+      await updateAppDetails(appEditId, options);
+      // 바뀐 기본 언어를 기준으로 로컬에 없는 언어의 등록정보 삭제
+      await pruneListings(appEditId, options);
+      await syncStoreImages(appEditId, options);
+
       // Google Play에 아티팩트 업로드 및 버전 코드 저장
-      const versionCodes = await uploadReleaseFiles(appEditId, options, releaseFiles);
+      const { versionCodes, reusedVersionCodes: reused } = await uploadReleaseFiles(appEditId, options, releaseFiles);
+      reusedVersionCodes.push(...reused);
 
       // 버전 코드로부터 다운로드 URL 추론
       for (const versionCode of versionCodes) {
@@ -256,44 +709,40 @@ async function uploadToPlayStore(options: EditOptions, releaseFiles: string[]):
         internalSharingDownloadUrls.push(url);
       }
 
-      // 업로드된 아티팩트를 트랙에 추가
-      await addReleasesToTrack(appEditId, options, versionCodes);
+      // 유지할 버전 코드가 편집에 존재하는지 확인
+      await assertRetainedVersionCodesExist(appEditId, options);
 
-      // 대기 중인 편집 커밋
-      logger.i(`Committing the Edit`);
-
-      const res = await withGoogleApiGuard(
-        'edits.commit',
-        { packageName: options.applicationId, editId: appEditId, track: options.track },
-        () =>
-          androidPublisher.edits.commit({
-            auth: options.auth,
-            editId: appEditId,
-            packageName: options.applicationId,
-            changesNotSentForReview: options.changesNotSentForReview,
-          })
-      );
-      const data = requireResponseData('edits.commit', { packageName: options.applicationId, editId: appEditId, track: options.track }, res);
-
-      // 커밋 성공 여부 확인
-      if (data.id) {
-        logger.i(`Successfully committed ${data.id}`);
-        return { kind: 'edit', editId: data.id };
+      // 업로드된 아티팩트와 유지할 버전 코드를 트랙에 추가 (이전 실행에서 이미 추가했다면 건너뜀)
+      const releaseVersionCodes = uniq([...versionCodes, ...(options.retainedVersionCodes ?? [])]);
+      const resumedTrack = options.runState?.state.trackUpdated ? await findUpdatedTrack(appEditId, options, releaseVersionCodes) : undefined;
+      if (resumedTrack) {
+        logger.i(`Skipping track update: track ${options.track} already has versionCodes=${releaseVersionCodes.join(',')} from the previous run`);
+        return resumedTrack;
       }
+      const track = await addReleasesToTrack(appEditId, releaseOptions, releaseVersionCodes);
+      updateRunState(options, state => (state.trackUpdated = true));
+      return track;
+    });
+    // 커밋 또는 검증 후 삭제된 편집은 더 이어서 진행할 수 없음
+    if (options.runState) {
+      removeRunState(options.runState);
+    }
 
-      throw new Error(
-        `Commit response missing edit id (packageName=${options.applicationId}, editId=${appEditId}, track=${options.track}, status=${res.status}, statusText=${res.statusText})`
-      );
-    } catch (error: unknown) {
-      if (ownsEdit) {
-        await cleanupEdit(appEditId, options, error);
-      } else {
-        logger.w(
-          `Upload failed while using existing edit ${appEditId}; this action will not delete caller-owned edits. Review the edit in Google Play Console before retrying.`
-        );
+    if (options.validateOnly) {
+      logger.i(`Validated changes for track '${options.track}' (not committed):`);
+      for (const release of updatedTrack.releases) {
+        logger.i(`  ${describeRelease(release)} userFraction=${release.userFraction ?? 'none'}`);
       }
-      throw error;
     }
+    return {
+      kind: 'edit',
+      editId,
+      release: toRolloutState(updatedTrack.release),
+      releaseNoteLocales: compact((updatedTrack.release.releaseNotes ?? []).map(releaseNote => releaseNote.language)),
+      downloadUrls: internalSharingDownloadUrls,
+      reusedVersionCodes,
+      changesNotSentForReviewFallback,
+    };
   }
 
   const serializedDownloadUrls = JSON.stringify(internalSharingDownloadUrls);
@@ -322,19 +771,156 @@ async function uploadInternalSharingRelease(options: EditOptions, releaseFile: s
   return res.downloadUrl;
 }
 
-async function cleanupEdit(appEditId: string, options: EditOptions, originalError: unknown): Promise<void> {
-  logger.w(
-    `Upload failed before commit for new edit ${appEditId}; attempting to delete the edit. Cause: ${normalizeError(originalError).message}`
-  );
+/**
+ * 편집 실행 및 커밋
+ * 편집을 열어 작업을 수행한 뒤 커밋하고, 실패 시 액션이 생성한 편집을 정리
+ */
+async function executeEdit<T>(options: EditOptions, work: (appEditId: string) => Promise<T>): Promise<CommittedEdit & { result: T }> {
+  // 새 편집 생성
+  const appEditId = await getOrCreateEdit(options);
+  const ownsEdit = !options.existingEditId;
+  // 워크플로 취소로 종료될 때도 액션이 만든 편집을 삭제 (상태 파일로 이어서 진행할 편집은 남김)
+  const unregisterShutdownCleanup =
+    ownsEdit && !options.runState ? registerShutdownCleanup(`delete edit ${appEditId}`, () => cleanupEdit(appEditId, options)) : undefined;
+
   try {
-    await withGoogleApiGuard('edits.delete', { packageName: options.applicationId, editId: appEditId }, () =>
-      androidPublisher.edits.delete({
-        auth: options.auth,
-        editId: appEditId,
-        packageName: options.applicationId,
-      })
+    const result = await work(appEditId);
+
+    // 검증 전용 모드: 커밋하지 않고 서버 검증 후 편집 삭제
+    if (options.validateOnly) {
+      await validateEdit(appEditId, options);
+      await cleanupEdit(appEditId, options);
+      return { editId: appEditId, result, changesNotSentForReviewFallback: false };
+    }
+
+    // 다른 작업이 이어서 쓰도록 커밋하지 않고 편집을 남김
+    if (options.commit === false) {
+      logger.i(`Leaving edit ${appEditId} open without committing; commit it with type 'commit' or discard it with type 'discard'`);
+      return { editId: appEditId, result, changesNotSentForReviewFallback: false };
+    }
+
+    // 대기 중인 편집 커밋
+    return { ...(await commitEdit(appEditId, options)), result };
+  } catch (error: unknown) {
+    if (ownsEdit && options.runState) {
+      logger.w(
+        `Edit failed before commit for edit ${appEditId}; keeping the edit so a re-run with the same stateFile can resume it. Cause: ${normalizeError(error).message}`
+      );
+    } else if (ownsEdit) {
+      logger.w(`Edit failed before commit for new edit ${appEditId}; attempting to delete the edit. Cause: ${normalizeError(error).message}`);
+      await cleanupEdit(appEditId, options);
+    } else {
+      logger.w(
+        `Edit failed while using existing edit ${appEditId}; this action will not delete caller-owned edits. Review the edit in Google Play Console before retrying.`
+      );
+    }
+    throw error;
+  } finally {
+    unregisterShutdownCleanup?.();
+  }
+}
+
+/**
+ * 편집 커밋
+ * 거절되었거나 검토 중인 변경사항이 있어 Play가 changesNotSentForReview를 요구하면, 허용된 경우에만 그 값으로 한 번 더 커밋
+ */
+async function commitEdit(appEditId: string, options: EditCallOptions): Promise<CommittedEdit> {
+  try {
+    return { editId: await sendCommit(appEditId, options, options.changesNotSentForReview), changesNotSentForReviewFallback: false };
+  } catch (error: unknown) {
+    if (
+      !options.changesNotSentForReviewFallback ||
+      options.changesNotSentForReview ||
+      !CHANGES_NOT_SENT_FOR_REVIEW_REQUIRED.test(normalizeError(error).message)
+    ) {
+      throw error;
+    }
+    logger.w(
+      `Google Play requires changesNotSentForReview for edit ${appEditId}; retrying the commit once with changesNotSentForReview=true. Send the changes for review from the Google Play Console.`
     );
-    logger.i(`Deleted uncommitted edit ${appEditId}`);
+    return { editId: await sendCommit(appEditId, options, true), changesNotSentForReviewFallback: true };
+  }
+}
+
+async function sendCommit(appEditId: string, options: EditCallOptions, changesNotSentForReview: boolean | undefined): Promise<string> {
+  logger.i(`Committing the Edit`);
+
+  const res = await withGoogleApiGuard(
+    'edits.commit',
+    { packageName: options.applicationId, editId: appEditId, track: options.track },
+    signal =>
+      androidPublisher.edits.commit(
+        {
+          auth: options.auth,
+          editId: appEditId,
+          packageName: options.applicationId,
+          changesNotSentForReview,
+        },
+        { signal }
+      ),
+    options
+  );
+  const data = requireResponseData('edits.commit', { packageName: options.applicationId, editId: appEditId, track: options.track }, res);
+
+  // 커밋 성공 여부 확인
+  if (data.id) {
+    logger.i(`Successfully committed ${data.id}`);
+    return data.id;
+  }
+
+  throw new Error(
+    `Commit response missing edit id (packageName=${options.applicationId}, editId=${appEditId}, track=${options.track}, status=${res.status}, statusText=${res.statusText})`
+  );
+}
+
+/**
+ * 편집 검증
+ * 커밋하지 않고 Google Play 서버에서 편집 내용을 검증
+ */
+async function validateEdit(appEditId: string, options: EditOptions): Promise<void> {
+  logger.i(`Validating the Edit without committing`);
+
+  const context = { packageName: options.applicationId, editId: appEditId, track: options.track };
+  const res = await withGoogleApiGuard(
+    'edits.validate',
+    context,
+    signal =>
+      androidPublisher.edits.validate(
+        {
+          auth: options.auth,
+          editId: appEditId,
+          packageName: options.applicationId,
+        },
+        { signal }
+      ),
+    options
+  );
+  requireResponseData('edits.validate', context, res);
+  logger.i(`Edit ${appEditId} passed validation; it will be deleted instead of committed`);
+}
+
+async function deleteEdit(appEditId: string, options: EditCallOptions, callOptions: GoogleApiCallOptions): Promise<void> {
+  await withGoogleApiGuard(
+    'edits.delete',
+    { packageName: options.applicationId, editId: appEditId },
+    signal =>
+      androidPublisher.edits.delete(
+        {
+          auth: options.auth,
+          editId: appEditId,
+          packageName: options.applicationId,
+        },
+        { signal }
+      ),
+    callOptions
+  );
+  logger.i(`Deleted uncommitted edit ${appEditId}`);
+}
+
+async function cleanupEdit(appEditId: string, options: EditCallOptions): Promise<void> {
+  try {
+    // 실행 시간 초과로 중단된 뒤에도 편집을 지울 수 있도록 실행 중단 신호는 넘기지 않음
+    await deleteEdit(appEditId, options, { retryPolicy: options.retryPolicy, apiCallTimeoutMs: options.apiCallTimeoutMs });
   } catch (cleanupError: unknown) {
     logger.w(`Failed to delete uncommitted edit ${appEditId}: ${normalizeError(cleanupError).message}`);
   }
@@ -346,12 +932,19 @@ async function cleanupEdit(appEditId: string, options: EditOptions, originalErro
  */
 async function validateSelectedTrack(appEditId: string, options: EditOptions): Promise<void> {
   logger.i(`Validating track '${options.track}'`);
-  const res = await withGoogleApiGuard('tracks.list', { packageName: options.applicationId, editId: appEditId, track: options.track }, () =>
-    androidPublisher.edits.tracks.list({
-      auth: options.auth,
-      editId: appEditId,
-      packageName: options.applicationId,
-    })
+  const res = await withGoogleApiGuard(
+    'tracks.list',
+    { packageName: options.applicationId, editId: appEditId, track: options.track },
+    signal =>
+      androidPublisher.edits.tracks.list(
+        {
+          auth: options.auth,
+          editId: appEditId,
+          packageName: options.applicationId,
+        },
+        { signal }
+      ),
+    options
   );
 
   // 200 상태 코드가 아닌 경우 오류 전파
@@ -379,9 +972,9 @@ async function validateSelectedTrack(appEditId: string, options: EditOptions): P
 
 /**
  * 트랙에 릴리스 추가
- * 업로드된 아티팩트를 지정된 트랙에 추가
+ * 업로드된 아티팩트를 지정된 트랙의 기존 릴리스와 병합하여 추가
  */
-async function addReleasesToTrack(appEditId: string, options: EditOptions, versionCodes: number[]): Promise<Track> {
+async function addReleasesToTrack(appEditId: string, options: EditOptions, versionCodes: number[]): Promise<UpdatedTrack> {
   const status = options.status;
 
   logger.d(`Creating release for:`);
@@ -399,51 +992,577 @@ async function addReleasesToTrack(appEditId: string, options: EditOptions, versi
   }
   const releaseNotes = options.releaseNotes ?? (await readLocalizedReleaseNotes(options.whatsNewDir));
 
-  const res = await withGoogleApiGuard('tracks.update', { packageName: options.applicationId, editId: appEditId, track: options.track }, () =>
-    androidPublisher.edits.tracks.update({
-      auth: options.auth,
-      editId: appEditId,
-      packageName: options.applicationId,
-      track: options.track,
-      requestBody: {
-        track: options.track,
-        releases: [
-          {
-            name: options.name,
-            userFraction: options.userFraction,
-            status: status,
-            inAppUpdatePriority: options.inAppUpdatePriority,
-            releaseNotes,
-            versionCodes: requestedVersionCodes,
-          },
-        ],
-      },
-    })
-  );
-  const responseData = requireResponseData('tracks.update', { packageName: options.applicationId, editId: appEditId, track: options.track }, res);
+  const existingReleases = (await getTrack(appEditId, options, options.track)).releases ?? [];
+  const releases = mergeTrackReleases(options, existingReleases, {
+    name: options.name,
+    userFraction: options.userFraction,
+    status: status,
+    inAppUpdatePriority: options.inAppUpdatePriority,
+    releaseNotes,
+    versionCodes: requestedVersionCodes,
+  });
+  const responseData = await updateTrackReleases(appEditId, options, releases);
 
   const returnedTrack = responseData.track;
-  const returnedVersionCodes = responseData.releases?.flatMap(release => release.versionCodes ?? []) ?? [];
+  const returnedReleases = responseData.releases ?? [];
+  const returnedVersionCodes = returnedReleases.flatMap(release => release.versionCodes ?? []);
   const missingVersionCodes = requestedVersionCodes.filter(versionCode => !returnedVersionCodes.includes(versionCode));
-  if (returnedTrack !== options.track || returnedVersionCodes.length === 0 || missingVersionCodes.length > 0) {
+  const release = returnedReleases.find(returned => requestedVersionCodes.every(versionCode => returned.versionCodes?.includes(versionCode)));
+  if (returnedTrack !== options.track || !release) {
     throw new Error(
       `tracks.update response mismatch (packageName=${options.applicationId}, editId=${appEditId}, requestedTrack=${options.track}, returnedTrack=${returnedTrack}, missingVersionCodes=${missingVersionCodes.join(',')})`
     );
   }
 
-  return responseData;
+  return { releases: returnedReleases, release };
+}
+
+/**
+ * 트랙 릴리스 병합
+ * Play 규칙에 따라 새 릴리스가 대체하지 않는 기존 릴리스를 유지
+ * - completed: 기존 completed 및 진행 중/중단된 릴리스를 대체
+ * - inProgress/halted: 기존 completed 릴리스는 유지하고 진행 중/중단된 릴리스를 대체
+ * - draft: 공개된 릴리스는 모두 유지
+ * 기존 초안 릴리스는 existingDrafts 정책에 따라 유지, 대체 또는 거부
+ */
+function mergeTrackReleases(options: EditOptions, existingReleases: TrackRelease[], release: TrackRelease): TrackRelease[] {
+  const existingDrafts = options.existingDrafts ?? 'replace';
+  const drafts = existingReleases.filter(existing => existing.status === 'draft');
+  if (drafts.length > 0 && existingDrafts === 'reject') {
+    throw new Error(
+      `Track "${options.track}" already has ${drafts.length} draft release(s) (${drafts.map(describeRelease).join('; ')}). Set 'existingDrafts' to 'keep' or 'replace' to continue.`
+    );
+  }
+
+  const isStaged = release.status === 'inProgress' || release.status === 'halted';
+  const keptReleases = existingReleases.filter(existing => {
+    switch (existing.status) {
+      case 'draft':
+        return existingDrafts === 'keep';
+      case 'completed':
+        return isStaged || release.status === 'draft';
+      case 'inProgress':
+      case 'halted':
+        return release.status === 'draft';
+      default:
+        return false;
+    }
+  });
+
+  for (const replaced of existingReleases.filter(existing => !keptReleases.includes(existing))) {
+    logger.i(`Replacing existing release on '${options.track}': ${describeRelease(replaced)}`);
+  }
+
+  return [...keptReleases, release];
+}
+
+function describeRelease(release: TrackRelease): string {
+  return `${release.name ?? '<unnamed>'} status=${release.status} versionCodes=${(release.versionCodes ?? []).join(',')}`;
+}
+
+/**
+ * 릴리스 승격
+ * 원본 트랙의 릴리스를 읽어 동일한 버전 코드, 릴리스 노트, 이름으로 대상 트랙에 추가
+ */
+async function promoteRelease(options: EditOptions, fromTrack: ReleaseTrack): Promise<string> {
+  if (fromTrack === 'internalsharing' || options.track === 'internalsharing') {
+    throw new Error(`Internal app sharing artifacts cannot be promoted (fromTrack=${fromTrack}, track=${options.track})`);
+  }
+  if (fromTrack === options.track) {
+    throw new Error(`'fromTrack' and 'track' must be different tracks. Got ${fromTrack}`);
+  }
+
+  const { editId } = await executeEdit(options, async appEditId => {
+    // 원본 및 대상 트랙 검증
+    await validateSelectedTrack(appEditId, { ...options, track: fromTrack });
+    await validateSelectedTrack(appEditId, options);
+
+    const sourceRelease = await getPromotableRelease(appEditId, options, fromTrack);
+    const versionCodes = sourceRelease.versionCodes.map(versionCode => Number(versionCode));
+    logger.i(`Promoting versionCodes=${versionCodes.join(',')} from '${fromTrack}' to '${options.track}'`);
+
+    await addReleasesToTrack(
+      appEditId,
+      {
+        ...options,
+        name: options.name ?? sourceRelease.name ?? undefined,
+        inAppUpdatePriority: sourceRelease.inAppUpdatePriority ?? options.inAppUpdatePriority,
+        releaseNotes: sourceRelease.releaseNotes ?? [],
+      },
+      versionCodes
+    );
+  });
+  return editId;
+}
+
+/**
+ * 승격할 릴리스 조회
+ * 원본 트랙에서 가장 높은 버전 코드를 가진 릴리스를 선택
+ */
+async function getPromotableRelease(
+  appEditId: string,
+  options: EditOptions,
+  fromTrack: ReleaseTrack
+): Promise<TrackRelease & { versionCodes: string[] }> {
+  const data = await getTrack(appEditId, options, fromTrack);
+
+  const highestVersionCode = (release: { versionCodes: string[] }) => Math.max(...release.versionCodes.map(versionCode => Number(versionCode)));
+  const sourceRelease = (data.releases ?? [])
+    .filter((release): release is TrackRelease & { versionCodes: string[] } => (release.versionCodes?.length ?? 0) > 0)
+    .sort((left, right) => highestVersionCode(right) - highestVersionCode(left))
+    .at(0);
+  if (!sourceRelease) {
+    throw new Error(`Track "${fromTrack}" has no release with versionCodes to promote (packageName=${options.applicationId}, editId=${appEditId})`);
+  }
+
+  logger.d(`Selected '${fromTrack}' release ${sourceRelease.name ?? '<unnamed>'} with status=${sourceRelease.status}`);
+  return sourceRelease;
+}
+
+/**
+ * 점진적 출시 변경
+ * 트랙의 진행 중 또는 중단된 릴리스를 찾아 상태와 userFraction을 변경
+ */
+async function updateRollout(options: EditOptions, force: boolean): Promise<{ editId: string; before: RolloutState; after: RolloutState }> {
+  if (options.track === 'internalsharing') {
+    throw new Error('Internal app sharing has no staged rollouts to update');
+  }
+
+  const { editId, result } = await executeEdit(options, async appEditId => {
+    await validateSelectedTrack(appEditId, options);
+
+    const releases = (await getTrack(appEditId, options, options.track)).releases ?? [];
+    const current = releases.find(release => release.status === 'inProgress' || release.status === 'halted');
+    if (!current) {
+      throw new Error(`Track "${options.track}" has no inProgress or halted release to update (packageName=${options.applicationId}, editId=${appEditId})`);
+    }
+
+    // 완료 시에는 userFraction을 제거하고, 그 외에는 입력값이 없으면 현재 값을 유지
+    const userFraction = options.status === 'completed' ? undefined : options.userFraction ?? current.userFraction ?? undefined;
+    await validateUserFraction(userFraction);
+    await validateStatus(options.status, userFraction !== undefined);
+    assertRolloutTransition(current, options.status, userFraction, force);
+
+    const updated: TrackRelease = { ...current, status: options.status, userFraction };
+    const before = toRolloutState(current);
+    const after = toRolloutState(updated);
+    logger.i(`Updating rollout on '${options.track}' from ${JSON.stringify(before)} to ${JSON.stringify(after)}`);
+
+    // 완료되는 릴리스가 이전 완료 릴리스를 대체
+    const nextReleases = releases
+      .filter(release => release === current || !(options.status === 'completed' && release.status === 'completed'))
+      .map(release => (release === current ? updated : release));
+    await updateTrackReleases(appEditId, options, nextReleases);
+    return { before, after };
+  });
+
+  return { editId, ...result };
+}
+
+function assertRolloutTransition(current: TrackRelease, status: ReleaseStatus, userFraction: number | undefined, force: boolean): void {
+  if (status === 'draft') {
+    throw new Error(`A ${current.status} release cannot be moved back to draft`);
+  }
+
+  const currentFraction = current.userFraction ?? undefined;
+  if (!force && userFraction !== undefined && currentFraction !== undefined && userFraction < currentFraction) {
+    throw new Error(`'userFraction' can only increase (current=${currentFraction}, requested=${userFraction}). Set 'forceRollout' to lower it.`);
+  }
+}
+
+function toRolloutState(release: TrackRelease): RolloutState {
+  return {
+    status: release.status,
+    userFraction: release.userFraction,
+    versionCodes: release.versionCodes ?? [],
+  };
+}
+
+/**
+ * 유지할 버전 코드 확인
+ * retainedVersionCodes의 각 버전 코드가 편집의 APK 또는 AAB 목록에 있는지 확인
+ */
+async function assertRetainedVersionCodesExist(appEditId: string, options: EditOptions): Promise<void> {
+  const retainedVersionCodes = options.retainedVersionCodes ?? [];
+  if (retainedVersionCodes.length === 0) {
+    return;
+  }
+
+  const { apks, bundles } = await listEditArtifacts(appEditId, options);
+  const availableVersionCodes = new Set([...apks, ...bundles].map(artifact => artifact.versionCode));
+  const missingVersionCodes = retainedVersionCodes.filter(versionCode => !availableVersionCodes.has(versionCode));
+  if (missingVersionCodes.length > 0) {
+    throw new Error(
+      `retainedVersionCodes not found in edit ${appEditId} (packageName=${options.applicationId}, missingVersionCodes=${missingVersionCodes.join(',')})`
+    );
+  }
+  logger.d(`Retaining versionCodes=${retainedVersionCodes.join(',')} on track ${options.track}`);
+}
+
+/**
+ * 편집 아티팩트 조회
+ * 편집에 포함된 APK와 AAB 목록을 가져옴
+ */
+async function listEditArtifacts(appEditId: string, options: EditOptions): Promise<{ apks: Apk[]; bundles: Bundle[] }> {
+  return {
+    apks: await listApks(appEditId, options),
+    bundles: await listBundles(appEditId, options),
+  };
+}
+
+async function listApks(appEditId: string, options: EditOptions): Promise<Apk[]> {
+  const context = { packageName: options.applicationId, editId: appEditId };
+  const res = await withGoogleApiGuard(
+    'apks.list',
+    context,
+    signal =>
+      androidPublisher.edits.apks.list(
+        {
+          auth: options.auth,
+          editId: appEditId,
+          packageName: options.applicationId,
+        },
+        { signal }
+      ),
+    options
+  );
+  return requireResponseData('apks.list', context, res).apks ?? [];
+}
+
+async function listBundles(appEditId: string, options: EditOptions): Promise<Bundle[]> {
+  const context = { packageName: options.applicationId, editId: appEditId };
+  const res = await withGoogleApiGuard(
+    'bundles.list',
+    context,
+    signal =>
+      androidPublisher.edits.bundles.list(
+        {
+          auth: options.auth,
+          editId: appEditId,
+          packageName: options.applicationId,
+        },
+        { signal }
+      ),
+    options
+  );
+  return requireResponseData('bundles.list', context, res).bundles ?? [];
+}
+
+/**
+ * 트랙 조회
+ * 편집 내 지정된 트랙의 현재 릴리스 목록을 가져옴
+ */
+async function getTrack(appEditId: string, options: EditOptions, track: ReleaseTrack): Promise<Track> {
+  const context = { packageName: options.applicationId, editId: appEditId, track };
+  const res = await withGoogleApiGuard(
+    'tracks.get',
+    context,
+    signal =>
+      androidPublisher.edits.tracks.get(
+        {
+          auth: options.auth,
+          editId: appEditId,
+          packageName: options.applicationId,
+          track,
+        },
+        { signal }
+      ),
+    options
+  );
+  return requireResponseData('tracks.get', context, res);
+}
+
+/**
+ * 트랙 릴리스 갱신
+ * 지정된 릴리스 목록으로 트랙을 업데이트
+ */
+async function updateTrackReleases(appEditId: string, options: EditOptions, releases: TrackRelease[]): Promise<Track> {
+  const context = { packageName: options.applicationId, editId: appEditId, track: options.track };
+  const res = await withGoogleApiGuard(
+    'tracks.update',
+    context,
+    signal =>
+      androidPublisher.edits.tracks.update(
+        {
+          auth: options.auth,
+          editId: appEditId,
+          packageName: options.applicationId,
+          track: options.track,
+          requestBody: {
+            track: options.track,
+            releases,
+          },
+        },
+        { signal }
+      ),
+    options
+  );
+  return requireResponseData('tracks.update', context, res);
+}
+
+/**
+ * 앱 세부정보 조회
+ * 편집에 반영된 기본 언어와 연락처를 가져옴
+ */
+async function getAppDetails(appEditId: string, options: EditCallOptions): Promise<AppDetails> {
+  const context = { packageName: options.applicationId, editId: appEditId };
+  const res = await withGoogleApiGuard(
+    'details.get',
+    context,
+    signal => androidPublisher.edits.details.get({ auth: options.auth, editId: appEditId, packageName: options.applicationId }, { signal }),
+    options
+  );
+  return requireResponseData('details.get', context, res);
+}
+
+/**
+ * 앱 세부정보 갱신
+ * 현재 값과 비교해 바뀌는 항목만 로그에 남기고 edits.details.patch로 보냄
+ */
+async function updateAppDetails(appEditId: string, options: EditOptions): Promise<void> {
+  if (!options.appDetails) {
+    return;
+  }
+  const context = { packageName: options.applicationId, editId: appEditId };
+  const current = await getAppDetails(appEditId, options);
+
+  const changes = Object.entries(options.appDetails).filter(([field, value]) => current[field as keyof AppDetailsUpdate] !== value);
+  if (changes.length === 0) {
+    logger.i('App details are already up to date');
+    return;
+  }
+  logger.i('Updating app details:');
+  for (const [field, value] of changes) {
+    logger.i(`  ${field}: ${current[field as keyof AppDetailsUpdate] ?? '(not set)'} -> ${value}`);
+  }
+
+  const patchRes = await withGoogleApiGuard(
+    'details.patch',
+    context,
+    signal =>
+      androidPublisher.edits.details.patch(
+        { auth: options.auth, editId: appEditId, packageName: options.applicationId, requestBody: Object.fromEntries(changes) },
+        { signal }
+      ),
+    options
+  );
+  requireResponseData('details.patch', context, patchRes);
+}
+
+/**
+ * 스토어 등록정보 갱신
+ * listingsDirectory에서 읽은 언어별 등록정보로 편집의 등록정보를 교체
+ */
+async function updateListings(appEditId: string, options: EditOptions): Promise<void> {
+  for (const listing of options.listings ?? []) {
+    const context = { packageName: options.applicationId, editId: appEditId, language: listing.language };
+    logger.i(`Updating store listing for ${listing.language}`);
+    const res = await withGoogleApiGuard(
+      'listings.update',
+      context,
+      signal =>
+        androidPublisher.edits.listings.update(
+          {
+            auth: options.auth,
+            editId: appEditId,
+            packageName: options.applicationId,
+            language: listing.language,
+            requestBody: listing,
+          },
+          { signal }
+        ),
+      options
+    );
+    requireResponseData('listings.update', context, res);
+  }
+}
+
+/**
+ * 스토어 등록정보 정리
+ * edits.listings.list에는 있지만 listingsDirectory에 없는 언어의 등록정보를 삭제하며, 앱의 기본 언어가 포함되면 실패
+ * validate-remote에서는 삭제할 언어를 알리고 곧 삭제될 편집 안에서만 삭제
+ */
+async function pruneListings(appEditId: string, options: EditOptions): Promise<void> {
+  if (!options.pruneListings) {
+    return;
+  }
+  const extraLanguages = await findPrunableListingLanguages(appEditId, options);
+  if (extraLanguages.length === 0) {
+    logger.i('No store listings to prune');
+    return;
+  }
+
+  logger.i(`${options.validateOnly ? 'Would delete' : 'Deleting'} store listings for: ${extraLanguages.join(', ')}`);
+  const context = { packageName: options.applicationId, editId: appEditId };
+  for (const language of extraLanguages) {
+    const deleteContext = { ...context, language };
+    const deleteRes = await withGoogleApiGuard(
+      'listings.delete',
+      deleteContext,
+      signal =>
+        androidPublisher.edits.listings.delete({ auth: options.auth, editId: appEditId, packageName: options.applicationId, language }, { signal }),
+      options
+    );
+    assertSuccessfulResponseStatus('listings.delete', deleteContext, deleteRes);
+  }
 }
 
-function preflightReleaseArtifacts(options: EditOptions, releaseFiles: string[]) {
-  for (const releaseFile of releaseFiles) {
-    resolveReleaseArtifactFile(releaseFile, 'release artifact');
+/**
+ * 정리할 등록정보 언어 찾기
+ * 편집의 등록정보 중 로컬에 없는 언어를 돌려주고, 기본 언어가 포함되면 아무것도 지우기 전에 실패
+ */
+async function findPrunableListingLanguages(appEditId: string, options: PruneListingsOptions): Promise<string[]> {
+  const context = { packageName: options.applicationId, editId: appEditId };
+  const res = await withGoogleApiGuard(
+    'listings.list',
+    context,
+    signal => androidPublisher.edits.listings.list({ auth: options.auth, editId: appEditId, packageName: options.applicationId }, { signal }),
+    options
+  );
+  const localLanguages = (options.listings ?? []).map(listing => listing.language);
+  const extraLanguages = compact((requireResponseData('listings.list', context, res).listings ?? []).map(listing => listing.language)).filter(
+    language => !localLanguages.includes(language)
+  );
+  if (extraLanguages.length === 0) {
+    return [];
   }
+
+  const { defaultLanguage } = await getAppDetails(appEditId, options);
+  if (defaultLanguage && extraLanguages.includes(defaultLanguage)) {
+    throw new Error(
+      `pruneListings refuses to delete the store listing for the default language ${defaultLanguage}; add it to listingsDirectory or change defaultLanguage`
+    );
+  }
+  return extraLanguages;
+}
+
+/**
+ * 스토어 이미지 동기화
+ * 언어와 이미지 종류마다 edits.images.list의 sha256이 로컬 이미지와 순서까지 같으면 건너뛰고,
+ * 다르면 모두 지운 뒤 파일 이름순으로 다시 업로드
+ */
+async function syncStoreImages(appEditId: string, options: EditOptions): Promise<void> {
+  for (const { language, imageType, images } of options.images ?? []) {
+    const context = { packageName: options.applicationId, editId: appEditId, language, imageType };
+    const listRes = await withGoogleApiGuard(
+      'images.list',
+      context,
+      signal =>
+        androidPublisher.edits.images.list(
+          { auth: options.auth, editId: appEditId, packageName: options.applicationId, language, imageType },
+          { signal }
+        ),
+      options
+    );
+    const remoteHashes = (requireResponseData('images.list', context, listRes).images ?? []).map(image => image.sha256?.toLowerCase());
+    if (remoteHashes.length === images.length && images.every((image, index) => image.sha256 === remoteHashes[index])) {
+      logger.i(`Skipping ${imageType} for ${language}: ${images.length} image(s) unchanged`);
+      continue;
+    }
+
+    logger.i(`Replacing ${remoteHashes.length} ${imageType} image(s) for ${language} with ${images.length} image(s)`);
+    const deleteRes = await withGoogleApiGuard(
+      'images.deleteall',
+      context,
+      signal =>
+        androidPublisher.edits.images.deleteall(
+          { auth: options.auth, editId: appEditId, packageName: options.applicationId, language, imageType },
+          { signal }
+        ),
+      options
+    );
+    assertSuccessfulResponseStatus('images.deleteall', context, deleteRes);
+
+    for (const image of images) {
+      const uploadContext = { ...context, imageFile: safeBasenameForLog(image.filePath) };
+      const res = await uploadMedia(
+        'images.upload',
+        uploadContext,
+        { mimeType: image.mimeType, filePath: image.filePath },
+        `${UPLOAD_API_ROOT}/applications/${options.applicationId}/edits/${appEditId}/listings/${language}/${imageType}`,
+        (media, signal) =>
+          androidPublisher.edits.images.upload(
+            { auth: options.auth, packageName: options.applicationId, editId: appEditId, language, imageType, media },
+            { signal }
+          ),
+        options
+      );
+      requireResponseData('images.upload', uploadContext, res);
+    }
+  }
+}
+
+/**
+ * 릴리스 아티팩트 사전 검증
+ * 편집 생성 전에 파일 경로, 매니페스트의 패키지 이름/버전 코드, 매핑 파일과 디버그 심볼을 확인
+ */
+async function preflightReleaseArtifacts(options: EditOptions, releaseFiles: string[]): Promise<ArtifactMetadata[]> {
+  const artifactFiles = releaseFiles.map(releaseFile => resolveReleaseArtifactFile(releaseFile, 'release artifact'));
   if (options.mappingFile) {
     resolveMappingFilePath(options.mappingFile);
   }
   if (options.debugSymbols) {
     resolveDebugSymbolsPath(options.debugSymbols);
   }
+  for (const files of Object.values(options.deobfuscationFiles ?? {})) {
+    if (files.mappingFile) {
+      resolveMappingFilePath(files.mappingFile);
+    }
+    if (files.debugSymbols) {
+      resolveDebugSymbolsPath(files.debugSymbols);
+    }
+  }
+  return preflightArtifactMetadata(options.applicationId, artifactFiles);
+}
+
+/**
+ * 릴리스 이름 생성
+ * 버전 코드가 가장 큰 아티팩트의 메타데이터로 releaseNameTemplate의 자리표시자를 치환
+ */
+function buildReleaseName(options: EditOptions, artifactMetadata: ArtifactMetadata[]): string | undefined {
+  const latestArtifact = maxBy(artifactMetadata, metadata => metadata.versionCode);
+  if (!options.releaseNameTemplate || !latestArtifact) {
+    return undefined;
+  }
+
+  const values: Record<string, string | undefined> = {
+    versionName: latestArtifact.versionName,
+    versionCode: String(latestArtifact.versionCode),
+  };
+  const missingPlaceholders: string[] = [];
+  const name = options.releaseNameTemplate.replace(/\{([^{}]*)\}/g, (placeholder, key: string) => {
+    const value = values[key];
+    if (value === undefined) {
+      missingPlaceholders.push(placeholder);
+      return placeholder;
+    }
+    return value;
+  });
+
+  if (missingPlaceholders.length > 0) {
+    logger.w(
+      `Unable to fill ${missingPlaceholders.join(', ')} in 'releaseNameTemplate' from ${safeBasenameForLog(latestArtifact.releaseFile)}; using the Play Console default release name`
+    );
+    return undefined;
+  }
+  logger.d(`Generated release name '${name}' from ${safeBasenameForLog(latestArtifact.releaseFile)}`);
+  return name;
+}
+
+/**
+ * 아티팩트별 난독화 해제 파일 조회
+ * 매니페스트가 있으면 릴리스 파일에 짝지어진 파일을, 없으면 공통 mappingFile/debugSymbols를 반환
+ */
+function getDeobfuscationFiles(options: EditOptions, releaseFile: string): ArtifactDeobfuscationFiles {
+  if (!options.deobfuscationFiles) {
+    return { mappingFile: options.mappingFile, debugSymbols: options.debugSymbols };
+  }
+
+  const files = options.deobfuscationFiles[deobfuscationManifestKey(releaseFile)];
+  if (!files) {
+    throw new Error(`No mapping file or debug symbols paired with ${safeBasenameForLog(releaseFile)} in deobfuscationManifest`);
+  }
+  return files;
 }
 
 function resolveReleaseArtifactFile(filePath: string, label: string): string {
@@ -504,21 +1623,24 @@ async function uploadMappingFile(appEditId: string, versionCode: number, options
       logger.d(
         `[${appEditId}, versionCode=${versionCode}, packageName=${options.applicationId}]: Uploading Proguard mapping file @ ${safeBasenameForLog(mappingFile)}`
       );
-      const res = await withGoogleApiGuard(
+      const res = await uploadMedia(
         'deobfuscationfiles.upload.mapping',
         { packageName: options.applicationId, editId: appEditId, versionCode, mappingFile },
-        () =>
-          androidPublisher.edits.deobfuscationfiles.upload({
-            auth: options.auth,
-            packageName: options.applicationId,
-            editId: appEditId,
-            apkVersionCode: versionCode,
-            deobfuscationFileType: 'proguard',
-            media: {
-              mimeType: 'application/octet-stream',
-              body: fs.createReadStream(mappingFile),
+        { mimeType: 'application/octet-stream', filePath: mappingFile },
+        `${UPLOAD_API_ROOT}/applications/${options.applicationId}/edits/${appEditId}/apks/${versionCode}/deobfuscationFiles/proguard`,
+        (media, signal) =>
+          androidPublisher.edits.deobfuscationfiles.upload(
+            {
+              auth: options.auth,
+              packageName: options.applicationId,
+              editId: appEditId,
+              apkVersionCode: versionCode,
+              deobfuscationFileType: 'proguard',
+              media,
             },
-          })
+            { signal }
+          ),
+        options
       );
       assertSuccessfulResponseStatus('deobfuscationfiles.upload.mapping', {
         packageName: options.applicationId,
@@ -551,21 +1673,24 @@ async function uploadDebugSymbolsFile(appEditId: string, versionCode: number, op
       logger.d(
         `[${appEditId}, versionCode=${versionCode}, packageName=${options.applicationId}]: Uploading Debug Symbols file @ ${safeBasenameForLog(debugSymbols.path)}`
       );
-      const res = await withGoogleApiGuard(
+      const res = await uploadMedia(
         'deobfuscationfiles.upload.debugSymbols',
         { packageName: options.applicationId, editId: appEditId, versionCode, debugSymbols: safeBasenameForLog(debugSymbols.path) },
-        () =>
-          androidPublisher.edits.deobfuscationfiles.upload({
-            auth: options.auth,
-            packageName: options.applicationId,
-            editId: appEditId,
-            apkVersionCode: versionCode,
-            deobfuscationFileType: 'nativeCode',
-            media: {
-              mimeType: 'application/octet-stream',
-              body: Readable.from(data),
+        { mimeType: 'application/octet-stream', data, label: safeBasenameForLog(debugSymbols.path) },
+        `${UPLOAD_API_ROOT}/applications/${options.applicationId}/edits/${appEditId}/apks/${versionCode}/deobfuscationFiles/nativeCode`,
+        (media, signal) =>
+          androidPublisher.edits.deobfuscationfiles.upload(
+            {
+              auth: options.auth,
+              packageName: options.applicationId,
+              editId: appEditId,
+              apkVersionCode: versionCode,
+              deobfuscationFileType: 'nativeCode',
+              media,
             },
-          })
+            { signal }
+          ),
+        options
       );
       assertSuccessfulResponseStatus('deobfuscationfiles.upload.debugSymbols', {
         packageName: options.applicationId,
@@ -647,21 +1772,63 @@ async function createDebugSymbolZipFile(debugSymbolsPath: string) {
   return await zip.generateAsync({ type: 'nodebuffer' });
 }
 
+/**
+ * 업로드할 파일 또는 메모리 데이터
+ */
+type UploadMedia = { mimeType: string; filePath: string } | { mimeType: string; data: Buffer; label: string };
+
+/**
+ * 미디어 업로드
+ * 청크 하나보다 큰 내용은 재개 가능 업로드로 보내고, 재시도할 때는 같은 세션에서 서버가 확인한 마지막 바이트부터 이어서 전송
+ * 작은 내용은 한 번의 요청으로 업로드
+ */
+async function uploadMedia<T>(
+  operation: string,
+  context: Record<string, unknown>,
+  media: UploadMedia,
+  resumableUrl: string,
+  upload: (media: { mimeType: string; body: Readable }, signal: AbortSignal) => Promise<GoogleApiResponse<T>>,
+  options: EditOptions
+): Promise<GoogleApiResponse<T>> {
+  const size = 'data' in media ? media.data.length : fs.statSync(media.filePath).size;
+  if (size > RESUMABLE_UPLOAD_CHUNK_BYTES) {
+    const source = 'data' in media ? bufferUploadSource(media.data) : fileUploadSource(media.filePath);
+    const label = 'data' in media ? media.label : safeBasenameForLog(media.filePath);
+    let session: ResumableUploadSession | undefined;
+    const data = await withGoogleApiGuard(
+      operation,
+      context,
+      async signal => {
+        session ??= await startResumableUpload(options.auth, resumableUrl, source, media.mimeType, label, signal);
+        return continueResumableUpload<T>(options.auth, session, RESUMABLE_UPLOAD_CHUNK_BYTES, signal);
+      },
+      options
+    );
+    return { data };
+  }
+
+  return withGoogleApiGuard(
+    operation,
+    context,
+    signal => upload({ mimeType: media.mimeType, body: 'data' in media ? Readable.from(media.data) : fs.createReadStream(media.filePath) }, signal),
+    options
+  );
+}
+
 /**
  * 내부 공유 APK 업로드
  * APK 파일을 내부 공유용으로 업로드
  */
 async function internalSharingUploadApk(options: EditOptions, apkReleaseFile: string): Promise<InternalAppSharingArtifact> {
   const releaseFile = resolveReleaseArtifactFile(apkReleaseFile, 'internal sharing APK');
-  const res = await withGoogleApiGuard('internalappsharingartifacts.uploadapk', { packageName: options.applicationId, releaseFile: apkReleaseFile }, () =>
-    androidPublisher.internalappsharingartifacts.uploadapk({
-      auth: options.auth,
-      packageName: options.applicationId,
-      media: {
-        mimeType: 'application/vnd.android.package-archive',
-        body: fs.createReadStream(releaseFile),
-      },
-    })
+  const res = await uploadMedia(
+    'internalappsharingartifacts.uploadapk',
+    { packageName: options.applicationId, releaseFile: apkReleaseFile },
+    { mimeType: 'application/vnd.android.package-archive', filePath: releaseFile },
+    `${UPLOAD_API_ROOT}/applications/internalappsharing/${options.applicationId}/artifacts/apk`,
+    (media, signal) =>
+      androidPublisher.internalappsharingartifacts.uploadapk({ auth: options.auth, packageName: options.applicationId, media }, { signal }),
+    options
   );
   return requireResponseData('internalappsharingartifacts.uploadapk', { packageName: options.applicationId, releaseFile: apkReleaseFile }, res);
 }
@@ -672,18 +1839,14 @@ async function internalSharingUploadApk(options: EditOptions, apkReleaseFile: st
  */
 async function internalSharingUploadBundle(options: EditOptions, bundleReleaseFile: string): Promise<InternalAppSharingArtifact> {
   const releaseFile = resolveReleaseArtifactFile(bundleReleaseFile, 'internal sharing bundle');
-  const res = await withGoogleApiGuard(
+  const res = await uploadMedia(
     'internalappsharingartifacts.uploadbundle',
     { packageName: options.applicationId, releaseFile: bundleReleaseFile },
-    () =>
-      androidPublisher.internalappsharingartifacts.uploadbundle({
-        auth: options.auth,
-        packageName: options.applicationId,
-        media: {
-          mimeType: 'application/octet-stream',
-          body: fs.createReadStream(releaseFile),
-        },
-      })
+    { mimeType: 'application/octet-stream', filePath: releaseFile },
+    `${UPLOAD_API_ROOT}/applications/internalappsharing/${options.applicationId}/artifacts/bundle`,
+    (media, signal) =>
+      androidPublisher.internalappsharingartifacts.uploadbundle({ auth: options.auth, packageName: options.applicationId, media }, { signal }),
+    options
   );
   return requireResponseData('internalappsharingartifacts.uploadbundle', { packageName: options.applicationId, releaseFile: bundleReleaseFile }, res);
 }
@@ -694,16 +1857,14 @@ async function internalSharingUploadBundle(options: EditOptions, bundleReleaseFi
  */
 async function uploadApk(appEditId: string, options: EditOptions, apkReleaseFile: string): Promise<Apk> {
   const releaseFile = resolveReleaseArtifactFile(apkReleaseFile, 'APK release artifact');
-  const res = await withGoogleApiGuard('apks.upload', { packageName: options.applicationId, editId: appEditId, releaseFile: apkReleaseFile }, () =>
-    androidPublisher.edits.apks.upload({
-      auth: options.auth,
-      packageName: options.applicationId,
-      editId: appEditId,
-      media: {
-        mimeType: 'application/vnd.android.package-archive',
-        body: fs.createReadStream(releaseFile),
-      },
-    })
+  const res = await uploadMedia(
+    'apks.upload',
+    { packageName: options.applicationId, editId: appEditId, releaseFile: apkReleaseFile },
+    { mimeType: 'application/vnd.android.package-archive', filePath: releaseFile },
+    `${UPLOAD_API_ROOT}/applications/${options.applicationId}/edits/${appEditId}/apks`,
+    (media, signal) =>
+      androidPublisher.edits.apks.upload({ auth: options.auth, packageName: options.applicationId, editId: appEditId, media }, { signal }),
+    options
   );
   return requireResponseData('apks.upload', { packageName: options.applicationId, editId: appEditId, releaseFile: apkReleaseFile }, res);
 }
@@ -714,16 +1875,14 @@ async function uploadApk(appEditId: string, options: EditOptions, apkReleaseFile
  */
 async function uploadBundle(appEditId: string, options: EditOptions, bundleReleaseFile: string): Promise<Bundle> {
   const releaseFile = resolveReleaseArtifactFile(bundleReleaseFile, 'AAB release artifact');
-  const res = await withGoogleApiGuard('bundles.upload', { packageName: options.applicationId, editId: appEditId, releaseFile: bundleReleaseFile }, () =>
-    androidPublisher.edits.bundles.upload({
-      auth: options.auth,
-      packageName: options.applicationId,
-      editId: appEditId,
-      media: {
-        mimeType: 'application/octet-stream',
-        body: fs.createReadStream(releaseFile),
-      },
-    })
+  const res = await uploadMedia(
+    'bundles.upload',
+    { packageName: options.applicationId, editId: appEditId, releaseFile: bundleReleaseFile },
+    { mimeType: 'application/octet-stream', filePath: releaseFile },
+    `${UPLOAD_API_ROOT}/applications/${options.applicationId}/edits/${appEditId}/bundles`,
+    (media, signal) =>
+      androidPublisher.edits.bundles.upload({ auth: options.auth, packageName: options.applicationId, editId: appEditId, media }, { signal }),
+    options
   );
   return requireResponseData('bundles.upload', { packageName: options.applicationId, editId: appEditId, releaseFile: bundleReleaseFile }, res);
 }
@@ -735,20 +1894,56 @@ async function uploadBundle(appEditId: string, options: EditOptions, bundleRelea
 async function getOrCreateEdit(options: EditOptions): Promise<string> {
   if (options.existingEditId) {
     logger.d(`Using existing edit: ${options.existingEditId}`);
+    await verifyExistingEdit(options.existingEditId, options);
+    recordEditId(options, options.existingEditId);
     return options.existingEditId;
   }
 
+  const resumedEditId = options.runState?.state.editId;
+  if (resumedEditId) {
+    const resumedEdit = await findEdit(resumedEditId, options);
+    if (resumedEdit && !isEditExpired(resumedEdit.expiryTimeSeconds)) {
+      logger.i(`Resuming edit ${resumedEditId} recorded in stateFile`);
+      reportEditExpiry(resumedEditId, resumedEdit.expiryTimeSeconds);
+      return resumedEditId;
+    }
+    // 사라진 편집에 올렸던 파일과 트랙 변경은 남아 있지 않으므로 기록한 진행 상황을 버리고 새 편집에서 처음부터 진행
+    logger.w(`Edit ${resumedEditId} recorded in stateFile no longer exists or has expired; discarding the recorded progress and starting a new edit`);
+    updateRunState(options, state => {
+      state.editId = undefined;
+      state.artifacts = {};
+      state.trackUpdated = false;
+    });
+  }
+
+  const editId = await insertEdit(options);
+  recordEditId(options, editId);
+  return editId;
+}
+
+/**
+ * 새 편집 생성
+ */
+async function insertEdit(options: EditCallOptions): Promise<string> {
   logger.d('Creating a new edit');
-  const res = await withGoogleApiGuard('edits.insert', { packageName: options.applicationId }, () =>
-    androidPublisher.edits.insert({
-      auth: options.auth,
-      packageName: options.applicationId,
-    })
+  const res = await withGoogleApiGuard(
+    'edits.insert',
+    { packageName: options.applicationId },
+    signal =>
+      androidPublisher.edits.insert(
+        {
+          auth: options.auth,
+          packageName: options.applicationId,
+        },
+        { signal }
+      ),
+    options
   );
   const data = requireResponseData('edits.insert', { packageName: options.applicationId }, res);
 
   if (data.id) {
     logger.d(`Created edit with id: ${data.id}`);
+    reportEditExpiry(data.id, data.expiryTimeSeconds);
     return data.id;
   } else {
     throw Error(
@@ -757,43 +1952,216 @@ async function getOrCreateEdit(options: EditOptions): Promise<string> {
   }
 }
 
+/**
+ * 기존 편집 확인
+ * 만료되었거나 잘못 입력한 편집 ID가 첫 업로드에서야 알기 어려운 오류로 실패하지 않도록 edits.get으로 먼저 조회
+ */
+async function verifyExistingEdit(editId: string, options: EditCallOptions): Promise<void> {
+  const edit = await findEdit(editId, options);
+  if (!edit) {
+    throw new Error(
+      `existingEditId ${editId} was not found (packageName=${options.applicationId}); it may have expired, been committed or deleted, or be mistyped`
+    );
+  }
+  reportEditExpiry(editId, edit.expiryTimeSeconds);
+}
+
+/**
+ * 편집 조회
+ * 없는 편집(404)은 undefined를 반환
+ */
+async function findEdit(editId: string, options: EditCallOptions): Promise<AppEdit | undefined> {
+  const context = { packageName: options.applicationId, editId };
+  const res = await withGoogleApiGuard(
+    'edits.get',
+    context,
+    signal =>
+      androidPublisher.edits
+        .get({ auth: options.auth, packageName: options.applicationId, editId }, { signal })
+        // 없는 편집은 재시도할 필요가 없으므로 아래에서 바로 알림
+        .catch((error: unknown) => (getErrorStatus(error) === 404 ? undefined : Promise.reject(error))),
+    options
+  );
+  if (!res || res.status === 404) {
+    return undefined;
+  }
+  return requireResponseData('edits.get', context, res);
+}
+
+function isEditExpired(expiryTimeSeconds: string | null | undefined): boolean {
+  return !!expiryTimeSeconds && Number(expiryTimeSeconds) <= Math.floor(Date.now() / 1000);
+}
+
+/**
+ * 편집 만료 시각 출력
+ * 여러 작업이 같은 편집을 이어서 쓸 수 있도록 만료 시각을 출력하고, 곧 만료되면 경고
+ */
+function reportEditExpiry(editId: string, expiryTimeSeconds: string | null | undefined): void {
+  if (!expiryTimeSeconds) {
+    return;
+  }
+  core.setOutput('editExpiryTimeSeconds', expiryTimeSeconds);
+
+  const remainingSeconds = Number(expiryTimeSeconds) - Math.floor(Date.now() / 1000);
+  const expiresAt = new Date(Number(expiryTimeSeconds) * 1000).toISOString();
+  if (isEditExpired(expiryTimeSeconds)) {
+    throw new Error(`Edit ${editId} expired at ${expiresAt}; create a new edit and try again`);
+  }
+  if (remainingSeconds < EDIT_EXPIRY_WARNING_SECONDS) {
+    logger.w(
+      `Edit ${editId} expires in ${Math.ceil(remainingSeconds / 60)} minute(s) at ${expiresAt}; the upload fails if it is not committed by then`
+    );
+  } else {
+    logger.d(`Edit ${editId} expires at ${expiresAt}`);
+  }
+}
+
 /**
  * 릴리스 파일 업로드
- * APK/AAB 파일을 Google Play Console에 업로드
+ * APK/AAB 파일을 Google Play Console에 업로드하고 각 버전 코드에 매핑 파일과 디버그 심볼 업로드
+ * Play에 같은 SHA-256의 아티팩트가 이미 있으면 업로드하지 않고 그 버전 코드를 재사용
  */
-async function uploadReleaseFiles(appEditId: string, options: EditOptions, releaseFiles: string[]): Promise<number[]> {
-  const versionCodes: number[] = [];
+async function uploadReleaseFiles(appEditId: string, options: EditOptions, releaseFiles: string[]): Promise<UploadedReleaseFiles> {
+  // 병렬 업로드에서도 입력 순서대로 보고하도록 파일 위치별로 업로드된 버전 코드 기록
   const uploadedVersionCodes: number[] = [];
+  const reusedVersionCodes: number[] = [];
+  const failures: Array<{ releaseFile: string; message: string }> = [];
+  const existingVersionCodes = createVersionCodeLookup(appEditId, options);
 
-  for (const releaseFile of releaseFiles) {
-    logger.d(`Uploading ${releaseFile}`);
-    let versionCode: number;
-
-    try {
-      if (releaseFile.endsWith('.apk')) {
-        const apk = await uploadApk(appEditId, options, releaseFile);
-        versionCode = assertPositiveVersionCode(apk.versionCode, 'APK', releaseFile, appEditId);
-        uploadedVersionCodes.push(versionCode);
-        await uploadMappingFile(appEditId, versionCode, options);
-        await uploadDebugSymbolsFile(appEditId, versionCode, options);
-      } else if (releaseFile.endsWith('.aab')) {
-        const bundle = await uploadBundle(appEditId, options, releaseFile);
-        versionCode = assertPositiveVersionCode(bundle.versionCode, 'AAB', releaseFile, appEditId);
-        uploadedVersionCodes.push(versionCode);
-      } else {
-        throw Error(`${releaseFile} is invalid (missing or invalid file extension).`);
+  try {
+    const versionCodes = await mapWithConcurrency(releaseFiles, options.uploadConcurrency ?? 1, async (releaseFile, index) => {
+      try {
+        let artifactType: 'APK' | 'AAB';
+        if (releaseFile.endsWith('.apk')) {
+          artifactType = 'APK';
+        } else if (releaseFile.endsWith('.aab')) {
+          artifactType = 'AAB';
+        } else {
+          throw Error(`${releaseFile} is invalid (missing or invalid file extension).`);
+        }
+
+        let versionCode: number;
+        const sha256 = await sha256File(resolveReleaseArtifactFile(releaseFile, `${artifactType} release artifact`));
+        const artifactKey = path.resolve(releaseFile);
+        const recorded = options.runState?.state.artifacts[artifactKey];
+        const resumed = recorded?.sha256 === sha256 ? recorded : undefined;
+        const existingVersionCode = resumed ? undefined : (await existingVersionCodes(artifactType)).get(sha256);
+        if (resumed) {
+          logger.i(
+            `Skipping upload of ${safeBasenameForLog(releaseFile)}: the previous run already uploaded it as versionCode=${resumed.versionCode}`
+          );
+          versionCode = resumed.versionCode;
+          reusedVersionCodes[index] = versionCode;
+        } else if (existingVersionCode !== undefined) {
+          logger.i(
+            `Skipping upload of ${safeBasenameForLog(releaseFile)}: Play already has this ${artifactType} as versionCode=${existingVersionCode} (sha256=${sha256})`
+          );
+          versionCode = existingVersionCode;
+          reusedVersionCodes[index] = versionCode;
+        } else {
+          logger.d(`Uploading ${releaseFile}`);
+          const artifact =
+            artifactType === 'APK' ? await uploadApk(appEditId, options, releaseFile) : await uploadBundle(appEditId, options, releaseFile);
+          versionCode = assertPositiveVersionCode(artifact.versionCode, artifactType, releaseFile, appEditId);
+        }
+        uploadedVersionCodes[index] = versionCode;
+        const progress = resumed ?? { sha256, versionCode, mappingUploaded: false, debugSymbolsUploaded: false };
+        updateRunState(options, state => (state.artifacts[artifactKey] = progress));
+
+        // 매핑 파일과 디버그 심볼은 APK와 AAB 버전 코드 모두에 업로드 (이전 실행에서 올린 것은 건너뜀)
+        // Play에서 재사용한 버전 코드는 올라간 파일을 확인할 API가 없으므로 다시 보냄 (같은 버전 코드의 파일을 교체)
+        const artifactOptions = { ...options, ...getDeobfuscationFiles(options, releaseFile) };
+        if (!progress.mappingUploaded) {
+          await uploadMappingFile(appEditId, versionCode, artifactOptions);
+          updateRunState(options, () => (progress.mappingUploaded = true));
+        }
+        if (!progress.debugSymbolsUploaded) {
+          await uploadDebugSymbolsFile(appEditId, versionCode, artifactOptions);
+          updateRunState(options, () => (progress.debugSymbolsUploaded = true));
+        }
+        return versionCode;
+      } catch (error: unknown) {
+        failures.push({ releaseFile, message: normalizeError(error).message });
+        throw error;
       }
-    } catch (error: unknown) {
-      throw new Error(
-        `Failed while uploading ${releaseFile} to edit ${appEditId}; uploadedVersionCodes=${uploadedVersionCodes.join(',') || 'none'}: ${
-          normalizeError(error).message
-        }`
-      );
-    }
+    });
+    return { versionCodes, reusedVersionCodes: compact(reusedVersionCodes) };
+  } catch {
+    // 동시에 진행 중이던 업로드가 함께 실패하면 파일별 사유를 모두 보고
+    const causes = failures.map(failure => (failures.length > 1 ? `${failure.releaseFile}: ${failure.message}` : failure.message));
+    throw new Error(
+      `Failed while uploading ${failures.map(failure => failure.releaseFile).join(', ')} to edit ${appEditId}; uploadedVersionCodes=${
+        compact(uploadedVersionCodes).join(',') || 'none'
+      }: ${causes.join('; ')}`
+    );
+  }
+}
 
-    versionCodes.push(versionCode);
+/**
+ * 실행 상태 갱신
+ * stateFile을 사용할 때만 상태를 바꾸고 바로 저장
+ */
+function updateRunState(options: EditOptions, update: (state: RunState) => void): void {
+  if (options.runState) {
+    update(options.runState.state);
+    saveRunState(options.runState);
   }
+}
 
+/**
+ * 실행 상태에 편집 ID 기록
+ * 다른 편집에서 진행한 단계는 이 편집에 해당하지 않으므로 초기화
+ */
+function recordEditId(options: EditOptions, editId: string): void {
+  if (options.runState?.state.editId === editId) {
+    return;
+  }
+  updateRunState(options, state => {
+    state.editId = editId;
+    state.artifacts = {};
+    state.trackUpdated = false;
+  });
+}
+
+/**
+ * 이전 실행에서 갱신한 트랙 릴리스 찾기
+ * 요청한 버전 코드를 모두 담은 릴리스가 없으면 undefined를 반환해 트랙을 다시 갱신하도록 함
+ */
+async function findUpdatedTrack(appEditId: string, options: EditOptions, versionCodes: number[]): Promise<UpdatedTrack | undefined> {
+  const releases = (await getTrack(appEditId, options, options.track)).releases ?? [];
+  const requestedVersionCodes = without(versionCodes, 0).map(versionCode => versionCode.toString());
+  const release = releases.find(existing => requestedVersionCodes.every(versionCode => existing.versionCodes?.includes(versionCode)));
+  return release ? { releases, release } : undefined;
+}
+
+/**
+ * Play에 있는 아티팩트의 SHA-256별 버전 코드 조회 함수 생성
+ * 실패한 워크플로를 다시 실행할 때 이미 올라간 아티팩트를 다시 업로드하지 않도록 사용
+ * 목록은 아티팩트 종류별로 처음 필요할 때 한 번만 조회하고, 동시 업로드는 같은 조회 결과를 기다림
+ */
+function createVersionCodeLookup(appEditId: string, options: EditOptions): (artifactType: 'APK' | 'AAB') => Promise<Map<string, number>> {
+  const lookups = new Map<'APK' | 'AAB', Promise<Map<string, number>>>();
+  return artifactType => {
+    let lookup = lookups.get(artifactType);
+    if (!lookup) {
+      lookup = listVersionCodesBySha256(appEditId, options, artifactType);
+      lookups.set(artifactType, lookup);
+    }
+    return lookup;
+  };
+}
+
+async function listVersionCodesBySha256(appEditId: string, options: EditOptions, artifactType: 'APK' | 'AAB'): Promise<Map<string, number>> {
+  const artifacts =
+    artifactType === 'APK'
+      ? (await listApks(appEditId, options)).map(apk => ({ sha256: apk.binary?.sha256, versionCode: apk.versionCode }))
+      : await listBundles(appEditId, options);
+  const versionCodes = new Map<string, number>();
+  for (const { sha256, versionCode } of artifacts) {
+    if (sha256 && versionCode) {
+      versionCodes.set(sha256.toLowerCase(), versionCode);
+    }
+  }
   return versionCodes;
 }
 
@@ -807,6 +2175,20 @@ function inferInternalSharingDownloadUrl(applicationId: string, versionCode: num
 
 export const __testables = {
   uploadToPlayStore,
+  executeEdit,
+  commitEdit,
+  validateEdit,
+  promoteRelease,
+  getPromotableRelease,
+  mergeTrackReleases,
+  updateRollout,
+  assertRolloutTransition,
+  getTrack,
+  updateTrackReleases,
+  assertRetainedVersionCodesExist,
+  listEditArtifacts,
+  getDeobfuscationFiles,
+  buildReleaseName,
   uploadInternalSharingRelease,
   validateSelectedTrack,
   addReleasesToTrack,
@@ -823,5 +2205,6 @@ export const __testables = {
   withGoogleApiGuard,
   cleanupEdit,
   isRetryableError,
+  computeRetryDelayMs,
   inferInternalSharingDownloadUrl,
 };
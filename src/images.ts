@@ -0,0 +1,132 @@
+/**
+ * 스토어 이미지 관련 유틸리티
+ * 언어 디렉토리의 images/<imageType>/ 폴더에서 스크린샷과 그래픽을 읽고 Google Play 제한을 확인
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as logger from './utils/logger';
+import { sha256File } from './utils/file-hash';
+import { listLocaleDirectories } from './listings';
+import { assertPathInsideRoot, resolveSecureDirectory, safeBasenameForLog } from './utils/security-utils';
+
+const MIB = 1024 * 1024;
+
+// 이미지 종류별 언어당 최대 개수와 파일 크기
+const IMAGE_LIMITS = {
+  phoneScreenshots: { maxCount: 8, maxBytes: 8 * MIB },
+  sevenInchScreenshots: { maxCount: 8, maxBytes: 8 * MIB },
+  tenInchScreenshots: { maxCount: 8, maxBytes: 8 * MIB },
+  tvScreenshots: { maxCount: 8, maxBytes: 8 * MIB },
+  wearScreenshots: { maxCount: 8, maxBytes: 8 * MIB },
+  icon: { maxCount: 1, maxBytes: 1 * MIB },
+  featureGraphic: { maxCount: 1, maxBytes: 15 * MIB },
+  tvBanner: { maxCount: 1, maxBytes: 15 * MIB },
+} as const;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+export type ImageType = keyof typeof IMAGE_LIMITS;
+
+export interface LocalImage {
+  filePath: string;
+  sha256: string; // edits.images.list의 sha256과 비교해 바뀌지 않은 이미지는 다시 올리지 않음
+  mimeType: string;
+}
+
+export interface StoreImageSet {
+  language: string;
+  imageType: ImageType;
+  images: LocalImage[]; // 파일 이름순 (스크린샷 표시 순서)
+}
+
+/**
+ * 언어별 스토어 이미지 읽기
+ * 언어 디렉토리마다 images/<imageType>/ 폴더의 PNG/JPEG 파일을 읽고, 편집을 만들기 전에 개수와 크기 제한을 확인
+ *
+ * @param listingsDir - 언어 디렉토리가 있는 디렉토리 경로 (예: fastlane/metadata/android)
+ * @returns 언어와 이미지 종류별 이미지 목록
+ */
+export async function readStoreImages(listingsDir: string): Promise<StoreImageSet[]> {
+  logger.d(`Executing readStoreImages`);
+  const listingsRoot = resolveSecureDirectory(listingsDir, 'listingsDirectory');
+
+  const imageSets: StoreImageSet[] = [];
+  for (const { locale, localeDir } of listLocaleDirectories(listingsRoot)) {
+    const imagesDir = path.join(localeDir, 'images');
+    if (!isImageDirectory(imagesDir, listingsRoot)) {
+      continue;
+    }
+
+    for (const imageType of fs.readdirSync(imagesDir).sort()) {
+      const imageTypeDir = path.join(imagesDir, imageType);
+      if (!isImageType(imageType) || !isImageDirectory(imageTypeDir, listingsRoot)) {
+        continue;
+      }
+
+      const images = await readImageFiles(listingsRoot, imageTypeDir, locale, imageType);
+      if (images.length === 0) {
+        logger.d(`No ${imageType} images for Lang(${locale}); skipping`);
+        continue;
+      }
+      imageSets.push({ language: locale, imageType, images });
+    }
+  }
+
+  logger.d(`Found ${imageSets.length} store image set(s).`);
+  return imageSets;
+}
+
+function isImageType(value: string): value is ImageType {
+  return Object.prototype.hasOwnProperty.call(IMAGE_LIMITS, value);
+}
+
+function isImageDirectory(dirPath: string, listingsRoot: string): boolean {
+  const stat = fs.lstatSync(dirPath, { throwIfNoEntry: false });
+  if (stat?.isSymbolicLink()) {
+    throw new Error(`listingsDirectory must not contain symbolic links: ${safeBasenameForLog(dirPath)}`);
+  }
+  if (!stat?.isDirectory()) {
+    return false;
+  }
+  assertPathInsideRoot(fs.realpathSync(dirPath), listingsRoot, 'store images directory');
+  return true;
+}
+
+async function readImageFiles(listingsRoot: string, imageTypeDir: string, locale: string, imageType: ImageType): Promise<LocalImage[]> {
+  const { maxCount, maxBytes } = IMAGE_LIMITS[imageType];
+  // 1.png, 2.png, 10.png 순서가 유지되도록 숫자를 값으로 비교
+  const fileNames = fs.readdirSync(imageTypeDir).sort((a, b) => a.localeCompare(b, 'en', { numeric: true }));
+
+  const images: LocalImage[] = [];
+  for (const fileName of fileNames) {
+    const filePath = path.join(imageTypeDir, fileName);
+    const mimeType = IMAGE_MIME_TYPES[path.extname(fileName).toLowerCase()];
+    if (!mimeType) {
+      logger.d(`Ignoring ${safeBasenameForLog(filePath)}: store images must be PNG or JPEG files`);
+      continue;
+    }
+    const stat = fs.lstatSync(filePath);
+    if (stat.isSymbolicLink()) {
+      throw new Error(`listingsDirectory must not contain symbolic links: ${safeBasenameForLog(filePath)}`);
+    }
+    if (!stat.isFile()) {
+      continue;
+    }
+    if (stat.size > maxBytes) {
+      throw new Error(
+        `${imageType} image for ${locale} is too large: ${safeBasenameForLog(filePath)} is ${stat.size} bytes; Google Play allows at most ${maxBytes}`
+      );
+    }
+    assertPathInsideRoot(fs.realpathSync(filePath), listingsRoot, 'store image');
+    images.push({ filePath, sha256: await sha256File(filePath), mimeType });
+  }
+
+  if (images.length > maxCount) {
+    throw new Error(`${locale} has ${images.length} ${imageType} images; Google Play allows at most ${maxCount}`);
+  }
+  return images;
+}
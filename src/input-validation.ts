@@ -8,6 +8,14 @@ import { isNotNil } from 'es-toolkit/predicate';
 export const RELEASE_STATUSES = ['completed', 'inProgress', 'halted', 'draft'] as const;
 export type ReleaseStatus = (typeof RELEASE_STATUSES)[number];
 
+export const EXISTING_DRAFT_POLICIES = ['keep', 'replace', 'reject'] as const;
+export type ExistingDraftPolicy = (typeof EXISTING_DRAFT_POLICIES)[number];
+
+export const DRY_RUN_MODES = ['false', 'true', 'validate-remote'] as const;
+export type DryRunMode = (typeof DRY_RUN_MODES)[number];
+
+export const RELEASE_NAME_TEMPLATE_PLACEHOLDERS = ['versionName', 'versionCode'] as const;
+
 function isReleaseStatus(status: string | undefined): status is ReleaseStatus {
   return RELEASE_STATUSES.includes(status as ReleaseStatus);
 }
@@ -20,6 +28,24 @@ export function toReleaseStatus(status: string | undefined): ReleaseStatus {
   throw new Error(`Invalid status provided! Must be one of 'completed', 'inProgress', 'halted', 'draft'. Got ${status ?? 'undefined'}`);
 }
 
+export function toExistingDraftPolicy(policy: string | undefined): ExistingDraftPolicy {
+  if (EXISTING_DRAFT_POLICIES.includes(policy as ExistingDraftPolicy)) {
+    return policy as ExistingDraftPolicy;
+  }
+
+  throw new Error(`Invalid existingDrafts provided! Must be one of 'keep', 'replace', 'reject'. Got ${policy ?? 'undefined'}`);
+}
+
+export function toDryRunMode(mode: string | undefined): DryRunMode {
+  // getBooleanInput과 같이 True/TRUE/False/FALSE 표기도 허용
+  const normalized = mode === 'True' || mode === 'TRUE' || mode === 'False' || mode === 'FALSE' ? mode.toLowerCase() : mode;
+  if (DRY_RUN_MODES.includes(normalized as DryRunMode)) {
+    return normalized as DryRunMode;
+  }
+
+  throw new Error(`Invalid dryRun provided! Must be one of 'false', 'true', 'validate-remote'. Got ${mode ?? 'undefined'}`);
+}
+
 /**
  * 사용자 분수(userFraction) 검증
  * 점진적 출시를 위한 사용자 비율이 0과 1 사이의 숫자인지 확인
@@ -79,6 +105,96 @@ export async function validateInAppUpdatePriority(inAppUpdatePriority: number |
   }
 }
 
+/**
+ * 유지할 버전 코드 검증
+ * 새 릴리스와 함께 유지할 버전 코드가 중복 없는 양의 정수인지 확인
+ *
+ * @param retainedVersionCodes - 검증할 버전 코드 배열
+ */
+export async function validateRetainedVersionCodes(retainedVersionCodes: number[] | undefined): Promise<void> {
+  if (isNotNil(retainedVersionCodes)) {
+    const invalidVersionCodes = retainedVersionCodes.filter(versionCode => !Number.isInteger(versionCode) || versionCode <= 0);
+    if (invalidVersionCodes.length > 0) {
+      return Promise.reject(new Error(`'retainedVersionCodes' must be positive integers! Got ${invalidVersionCodes.join(',')}`));
+    }
+    if (new Set(retainedVersionCodes).size !== retainedVersionCodes.length) {
+      return Promise.reject(new Error(`'retainedVersionCodes' must not contain duplicates! Got ${retainedVersionCodes.join(',')}`));
+    }
+  }
+}
+
+/**
+ * 재시도 정책 검증
+ * 최대 시도 횟수가 1에서 10 사이, 기본 지연 시간이 0에서 60000ms 사이의 정수인지 확인
+ *
+ * @param maxAttempts - 첫 시도를 포함한 최대 시도 횟수
+ * @param baseDelayMs - 지수 백오프의 기본 지연 시간(ms)
+ */
+export async function validateRetryPolicy(maxAttempts: number, baseDelayMs: number): Promise<void> {
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > 10) {
+    return Promise.reject(new Error(`'retryMaxAttempts' must be an integer between 1 and 10! Got ${maxAttempts}`));
+  }
+  if (!Number.isInteger(baseDelayMs) || baseDelayMs < 0 || baseDelayMs > 60000) {
+    return Promise.reject(new Error(`'retryBaseDelayMs' must be an integer between 0 and 60000! Got ${baseDelayMs}`));
+  }
+}
+
+/**
+ * 동시 업로드 수 검증
+ * 같은 편집에 동시에 업로드할 아티팩트 수가 1에서 10 사이의 정수인지 확인
+ *
+ * @param uploadConcurrency - 동시에 업로드할 아티팩트 수
+ */
+export async function validateUploadConcurrency(uploadConcurrency: number): Promise<void> {
+  if (!Number.isInteger(uploadConcurrency) || uploadConcurrency < 1 || uploadConcurrency > 10) {
+    return Promise.reject(new Error(`'uploadConcurrency' must be an integer between 1 and 10! Got ${uploadConcurrency}`));
+  }
+}
+
+/**
+ * 시간 제한 검증
+ * 실행 전체 시간 제한이 60초에서 6시간, 호출별 시간 제한이 10초에서 1시간 사이의 정수이고
+ * 호출별 시간 제한이 실행 전체 시간 제한보다 길지 않은지 확인
+ *
+ * @param runTimeoutSeconds - 업로드/승격/출시 실행 전체 시간 제한(초)
+ * @param apiCallTimeoutSeconds - Google Play API 호출 한 번의 시간 제한(초)
+ */
+export async function validateTimeouts(runTimeoutSeconds: number, apiCallTimeoutSeconds: number): Promise<void> {
+  if (!Number.isInteger(runTimeoutSeconds) || runTimeoutSeconds < 60 || runTimeoutSeconds > 21600) {
+    return Promise.reject(new Error(`'runTimeoutSeconds' must be an integer between 60 and 21600! Got ${runTimeoutSeconds}`));
+  }
+  if (!Number.isInteger(apiCallTimeoutSeconds) || apiCallTimeoutSeconds < 10 || apiCallTimeoutSeconds > 3600) {
+    return Promise.reject(new Error(`'apiCallTimeoutSeconds' must be an integer between 10 and 3600! Got ${apiCallTimeoutSeconds}`));
+  }
+  if (apiCallTimeoutSeconds > runTimeoutSeconds) {
+    return Promise.reject(new Error(`'apiCallTimeoutSeconds' (${apiCallTimeoutSeconds}) must not exceed 'runTimeoutSeconds' (${runTimeoutSeconds})`));
+  }
+}
+
+/**
+ * 릴리스 이름 템플릿 검증
+ * 템플릿이 비어 있지 않고 {versionName}, {versionCode} 외의 자리표시자를 쓰지 않는지 확인
+ *
+ * @param releaseNameTemplate - 검증할 릴리스 이름 템플릿
+ */
+export async function validateReleaseNameTemplate(releaseNameTemplate: string | undefined): Promise<void> {
+  if (isNotNil(releaseNameTemplate)) {
+    if (releaseNameTemplate.trim().length === 0) {
+      return Promise.reject(new Error(`'releaseNameTemplate' must not be blank`));
+    }
+    const unknownPlaceholders = [...releaseNameTemplate.matchAll(/\{([^{}]*)\}/g)]
+      .map(match => match[1])
+      .filter(placeholder => !RELEASE_NAME_TEMPLATE_PLACEHOLDERS.includes(placeholder as (typeof RELEASE_NAME_TEMPLATE_PLACEHOLDERS)[number]));
+    if (unknownPlaceholders.length > 0) {
+      return Promise.reject(
+        new Error(
+          `Invalid 'releaseNameTemplate' placeholder(s): ${unknownPlaceholders.map(placeholder => `{${placeholder}}`).join(', ')}. Use {versionName} or {versionCode}`
+        )
+      );
+    }
+  }
+}
+
 /**
  * 릴리스 파일 검증
  * 지정된 릴리스 파일들이 존재하는지 확인
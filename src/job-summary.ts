@@ -0,0 +1,131 @@
+/**
+ * GitHub Actions 작업 요약(job summary) 작성
+ * 업로드/서명 결과를 실행 페이지에서 바로 볼 수 있도록 마크다운으로 기록
+ */
+import * as core from '@actions/core';
+import * as logger from './utils/logger';
+import { maskIdentifier, normalizeUnknownError, safeBasenameForLog } from './utils/security-utils';
+
+export interface UploadSummary {
+  packageName: string;
+  track: string;
+  releaseFiles: string[]; // 업로드한 릴리스 파일 경로
+  editId?: string; // 커밋 또는 검증한 편집 ID (내부 공유는 없음)
+  validateOnly?: boolean; // 커밋 없이 서버 검증만 수행했는지 여부
+  uncommitted?: boolean; // commit: false로 편집을 커밋하지 않고 남겼는지 여부
+  release?: {
+    status: string | null | undefined;
+    userFraction: number | null | undefined;
+    versionCodes: string[];
+  };
+  releaseNoteLocales?: string[]; // 릴리스 노트가 있는 언어 목록
+  reusedVersionCodes?: number[]; // Play에 이미 있어 업로드를 건너뛴 버전 코드
+  changesNotSentForReviewFallback?: boolean; // Play의 요구로 changesNotSentForReview=true로 다시 커밋했는지 여부
+  downloadUrls: string[]; // 내부 공유 다운로드 URL
+}
+
+export interface SignedFileSummary {
+  signedReleaseFile: string;
+  certificateDigests: string[]; // 서명 인증서 SHA-256 다이제스트
+}
+
+/**
+ * 업로드 결과 요약 작성
+ * 아티팩트, 버전 코드, 재사용한 버전 코드, 트랙, 상태, 출시 비율, 릴리스 노트 언어, 내부 공유 링크를 기록
+ *
+ * @param summary - 업로드 결과
+ */
+export async function writeUploadSummary(summary: UploadSummary): Promise<void> {
+  const rows: Array<[string, string]> = [
+    ['Package', summary.packageName],
+    ['Track', summary.track],
+  ];
+  const maskedEditId = maskIdentifier(summary.editId);
+  if (maskedEditId) {
+    rows.push(['Edit', maskedEditId]);
+  }
+  if (summary.release) {
+    rows.push(
+      ['Status', summary.release.status ?? 'unspecified'],
+      ['Rollout fraction', summary.release.userFraction == null ? 'full rollout' : String(summary.release.userFraction)],
+      ['Version codes', summary.release.versionCodes.join(', ')]
+    );
+  }
+  if (summary.reusedVersionCodes?.length) {
+    rows.push(['Reused version codes', summary.reusedVersionCodes.join(', ')]);
+  }
+  if (summary.changesNotSentForReviewFallback) {
+    rows.push(['Sent for review', 'no (Google Play required changesNotSentForReview)']);
+  }
+  if (summary.releaseNoteLocales) {
+    rows.push(['Release notes', summary.releaseNoteLocales.join(', ') || 'none']);
+  }
+
+  const heading = summary.validateOnly
+    ? 'Google Play upload (validated, not committed)'
+    : summary.uncommitted
+      ? 'Google Play upload (edit left open, not committed)'
+      : 'Google Play upload';
+  await writeSummary(() => {
+    core.summary
+      .addHeading(heading, 3)
+      .addTable([
+        [
+          { data: 'Field', header: true },
+          { data: 'Value', header: true },
+        ],
+        ...rows.map(([field, value]) => [field, escapeHtml(value)]),
+      ])
+      .addHeading('Artifacts', 4)
+      .addList(summary.releaseFiles.map(releaseFile => escapeHtml(safeBasenameForLog(releaseFile))));
+    if (summary.downloadUrls.length > 0) {
+      core.summary
+        .addHeading('Internal sharing links', 4)
+        .addList(summary.downloadUrls.map(url => `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`));
+    }
+  });
+}
+
+/**
+ * 서명 결과 요약 작성
+ * 서명된 파일과 서명 인증서 다이제스트를 기록
+ *
+ * @param signedFiles - 서명된 파일과 인증서 다이제스트 목록
+ */
+export async function writeSignSummary(signedFiles: SignedFileSummary[]): Promise<void> {
+  await writeSummary(() => {
+    core.summary.addHeading('Signed release files', 3).addTable([
+      [
+        { data: 'File', header: true },
+        { data: 'Certificate SHA-256', header: true },
+      ],
+      ...signedFiles.map(({ signedReleaseFile, certificateDigests }) => [
+        escapeHtml(safeBasenameForLog(signedReleaseFile)),
+        certificateDigests.map(digest => `<code>${digest}</code>`).join('<br>'),
+      ]),
+    ]);
+  });
+}
+
+/**
+ * 요약 버퍼를 채운 뒤 파일에 기록
+ * GITHUB_STEP_SUMMARY가 없는 로컬 실행에서는 건너뛰고, 기록 실패는 경고로만 남김
+ */
+async function writeSummary(build: () => void): Promise<void> {
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    logger.d('GITHUB_STEP_SUMMARY is not set; skipping the job summary');
+    return;
+  }
+
+  try {
+    build();
+    await core.summary.write();
+  } catch (error: unknown) {
+    core.summary.emptyBuffer();
+    logger.w(`Failed to write the job summary: ${normalizeUnknownError(error).message}`);
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
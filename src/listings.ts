@@ -0,0 +1,133 @@
+/**
+ * 스토어 등록정보 관련 유틸리티
+ * fastlane 형식(metadata/android/<locale>/*.txt)의 언어별 등록정보 처리
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { androidpublisher_v3 } from '@googleapis/androidpublisher';
+import { readFile } from 'fs/promises';
+import * as logger from './utils/logger';
+import { assertPathInsideRoot, resolveSecureDirectory, safeBasenameForLog } from './utils/security-utils';
+import Listing = androidpublisher_v3.Schema$Listing;
+
+export type StoreListing = Listing & { language: string };
+
+const LISTING_LOCALE_PATTERN = /^[A-Za-z]{2,3}(?:-[A-Za-z0-9]{2,8})?$/;
+const LISTING_FILE_MAX_BYTES = 128 * 1024;
+
+// 파일 이름별 등록정보 필드와 Google Play 글자 수 제한 (video는 선택)
+const LISTING_FILES = [
+  { file: 'title.txt', field: 'title', maxLength: 30, required: true },
+  { file: 'short_description.txt', field: 'shortDescription', maxLength: 80, required: true },
+  { file: 'full_description.txt', field: 'fullDescription', maxLength: 4000, required: true },
+  { file: 'video.txt', field: 'video', maxLength: undefined, required: false },
+] as const;
+
+/**
+ * 언어별 스토어 등록정보 읽기
+ * listingsDirectory의 언어 디렉토리마다 title.txt, short_description.txt, full_description.txt, video.txt를 읽음
+ *
+ * @param listingsDir - 언어 디렉토리가 있는 디렉토리 경로 (예: fastlane/metadata/android)
+ * @returns 언어별 등록정보 배열 또는 undefined
+ */
+export async function readStoreListings(listingsDir: string | undefined): Promise<StoreListing[] | undefined> {
+  logger.d(`Executing readStoreListings`);
+  if (!listingsDir) {
+    return undefined;
+  }
+
+  const listingsRoot = resolveSecureDirectory(listingsDir, 'listingsDirectory');
+  const listings: StoreListing[] = [];
+  for (const { locale, localeDir } of listLocaleDirectories(listingsRoot)) {
+    const listing = await readLocaleListing(listingsRoot, localeDir, locale);
+    if (listing) {
+      listings.push(listing);
+    }
+  }
+
+  logger.d(`Found store listings for ${listings.length} locale(s).`);
+  return listings;
+}
+
+/**
+ * 언어 디렉토리 목록
+ * 언어 이름 형식의 하위 디렉토리를 이름순으로 돌려주며, 심볼릭 링크는 거부하고 디렉토리가 아닌 항목은 건너뜀
+ *
+ * @param listingsRoot - resolveSecureDirectory로 확인한 listingsDirectory 경로
+ */
+export function listLocaleDirectories(listingsRoot: string): Array<{ locale: string; localeDir: string }> {
+  const locales = fs
+    .readdirSync(listingsRoot)
+    .filter(value => LISTING_LOCALE_PATTERN.test(value))
+    .sort();
+
+  const localeDirs: Array<{ locale: string; localeDir: string }> = [];
+  for (const locale of locales) {
+    const localeDir = path.join(listingsRoot, locale);
+    const stat = fs.lstatSync(localeDir);
+    if (stat.isSymbolicLink()) {
+      throw new Error(`listingsDirectory must not contain symbolic links: ${safeBasenameForLog(localeDir)}`);
+    }
+    if (!stat.isDirectory()) {
+      continue;
+    }
+    assertPathInsideRoot(fs.realpathSync(localeDir), listingsRoot, 'listings locale directory');
+    localeDirs.push({ locale, localeDir });
+  }
+  return localeDirs;
+}
+
+/**
+ * 한 언어의 등록정보 읽기
+ * edits.listings.update는 언어의 등록정보 전체를 교체하므로 필수 파일이 하나라도 빠지면 실패
+ */
+async function readLocaleListing(listingsRoot: string, localeDir: string, locale: string): Promise<StoreListing | undefined> {
+  const entries = new Set(fs.readdirSync(localeDir));
+  const listing: StoreListing = { language: locale };
+  const missingFiles: string[] = [];
+  let foundFiles = 0;
+
+  for (const { file, field, maxLength, required } of LISTING_FILES) {
+    const text = entries.has(file) ? await readListingFile(listingsRoot, path.join(localeDir, file)) : undefined;
+    if (text === undefined) {
+      if (required) {
+        missingFiles.push(file);
+      }
+      continue;
+    }
+    const length = [...text].length;
+    if (maxLength !== undefined && length > maxLength) {
+      throw new Error(`${file} for ${locale} is ${length} characters; Google Play allows at most ${maxLength}`);
+    }
+    listing[field] = text;
+    foundFiles++;
+  }
+
+  if (foundFiles === 0) {
+    logger.d(`No listing files for Lang(${locale}); skipping`);
+    return undefined;
+  }
+  if (missingFiles.length > 0) {
+    throw new Error(
+      `listingsDirectory locale ${locale} is missing ${missingFiles.join(', ')}; Google Play replaces the whole listing for a language`
+    );
+  }
+  logger.d(`Found store listing for Lang(${locale})`);
+  return listing;
+}
+
+async function readListingFile(listingsRoot: string, filePath: string): Promise<string | undefined> {
+  const stat = fs.lstatSync(filePath);
+  if (stat.isSymbolicLink()) {
+    throw new Error(`listingsDirectory must not contain symbolic links: ${safeBasenameForLog(filePath)}`);
+  }
+  if (!stat.isFile()) {
+    return undefined;
+  }
+  if (stat.size > LISTING_FILE_MAX_BYTES) {
+    throw new Error(`listing file is too large: ${safeBasenameForLog(filePath)}`);
+  }
+  assertPathInsideRoot(fs.realpathSync(filePath), listingsRoot, 'listing file');
+  // 편집기가 붙이는 마지막 줄바꿈까지 등록정보에 들어가지 않도록 앞뒤 공백 제거
+  return (await readFile(filePath, 'utf-8')).trim();
+}
@@ -5,22 +5,45 @@
  * 2. 앱 서명
  * 3. 릴리스 노트 관리
  * 4. 스테이징 트랙 관리
+ * 5. 트랙 간 릴리스 승격
+ * 6. 점진적 출시 관리
  */
 import * as core from '@actions/core';
 import * as fs from 'fs';
-import { runUpload } from './edits';
-import { toReleaseStatus, validateInAppUpdatePriority, validateReleaseFiles, validateStatus, validateUserFraction } from './input-validation';
+import { RetryPolicy, runCommit, runDiscard, runPromote, runPruneListingsPreview, runRollout, runUpload } from './edits';
+import {
+  ReleaseStatus,
+  toDryRunMode,
+  toExistingDraftPolicy,
+  toReleaseStatus,
+  validateInAppUpdatePriority,
+  validateReleaseFiles,
+  validateReleaseNameTemplate,
+  validateRetainedVersionCodes,
+  validateRetryPolicy,
+  validateStatus,
+  validateTimeouts,
+  validateUploadConcurrency,
+  validateUserFraction,
+} from './input-validation';
 import { unlink, writeFile } from 'fs/promises';
 import pTimeout from 'p-timeout';
 import * as io from './utils/io-utils';
 import path from 'path';
-import { signAabFile, signApkFile } from './signing';
+import { readCertificateDigests, signAabFile, signApkFile } from './signing';
 import * as logger from './utils/logger';
+import { registerShutdownCleanup } from './utils/shutdown';
 import { exec } from '@actions/exec';
 import { androidpublisher_v3 } from '@googleapis/androidpublisher';
 import { compact } from 'es-toolkit/array';
 import { isNotNil } from 'es-toolkit/predicate';
 import { readLocalizedReleaseNotes } from './whatsnew';
+import { readStoreListings } from './listings';
+import { readStoreImages, StoreImageSet } from './images';
+import { readAppDetails } from './app-details';
+import { ArtifactDeobfuscationFiles, readDeobfuscationManifest } from './deobfuscation-manifest';
+import { preflightArtifactMetadata } from './artifact-metadata';
+import { SignedFileSummary, writeSignSummary } from './job-summary';
 import {
   createSecureTempDir,
   normalizeUnknownError,
@@ -35,7 +58,14 @@ const SIGNING_KEY_FILE_NAME = 'signingKey.jks';
 const SERVICE_ACCOUNT_JSON_MAX_BYTES = 64 * 1024;
 const RELEASE_NOTES_MAX_BYTES = 128 * 1024;
 const STRICT_NUMBER_PATTERN = /^(?:0|[1-9]\d*)(?:\.\d+)?$/;
+const DEFAULT_RELEASE_NAME_TEMPLATE = '{versionName} ({versionCode})';
+const DEFAULT_RETRY_MAX_ATTEMPTS = '3';
+const DEFAULT_RETRY_BASE_DELAY_MS = '1000';
+const DEFAULT_RUN_TIMEOUT_SECONDS = '3600';
+const DEFAULT_API_CALL_TIMEOUT_SECONDS = '600';
+const DEFAULT_UPLOAD_CONCURRENCY = '1';
 let generatedServiceAccountFile: string | undefined;
+let unregisterServiceAccountCleanup: (() => void) | undefined;
 
 function normalizeError(error: unknown): Error {
   return normalizeUnknownError(error);
@@ -80,25 +110,30 @@ async function cleanupServiceAccountJsonFile(filePath = generatedServiceAccountF
   logger.d('Cleaning up service account json file');
   try {
     await unlink(filePath);
-    if (filePath === generatedServiceAccountFile) {
-      generatedServiceAccountFile = undefined;
-    }
+    forgetGeneratedServiceAccountFile(filePath);
   } catch (error: unknown) {
     const normalized = normalizeError(error);
     if ((normalized as NodeJS.ErrnoException).code === 'ENOENT') {
       logger.d(`Service account json file already removed: ${safeBasenameForLog(filePath)}`);
-      if (filePath === generatedServiceAccountFile) {
-        generatedServiceAccountFile = undefined;
-      }
+      forgetGeneratedServiceAccountFile(filePath);
       return;
     }
     logger.w(`Failed to clean up service account json file ${safeBasenameForLog(filePath)}: ${normalized.message}`);
   }
 }
 
+function forgetGeneratedServiceAccountFile(filePath: string): void {
+  if (filePath !== generatedServiceAccountFile) {
+    return;
+  }
+  generatedServiceAccountFile = undefined;
+  unregisterServiceAccountCleanup?.();
+  unregisterServiceAccountCleanup = undefined;
+}
+
 /**
  * 메인 실행 함수
- * type 파라미터에 따라 upload 또는 sign 작업을 수행
+ * type 파라미터에 따라 upload, sign, promote, rollout, commit 또는 discard 작업을 수행
  */
 export async function run() {
   try {
@@ -107,6 +142,14 @@ export async function run() {
       await uploadRun();
     } else if (type === 'sign') {
       await signRun();
+    } else if (type === 'promote') {
+      await promoteRun();
+    } else if (type === 'rollout') {
+      await rolloutRun();
+    } else if (type === 'commit') {
+      await commitRun();
+    } else if (type === 'discard') {
+      await discardRun();
     } else {
       core.setFailed(`Unknown type: ${type}`);
     }
@@ -130,19 +173,37 @@ export async function uploadRun() {
     const releaseFilesInput = core.getInput('releaseFiles', { required: false });
     const releaseFiles = optionalCommaSeparatedInputValues(releaseFilesInput);
     const releaseName = optionalInputValue(core.getInput('releaseName', { required: false }));
+    const releaseNameTemplate = core.getInput('releaseNameTemplate', { required: false }) || DEFAULT_RELEASE_NAME_TEMPLATE;
     const track = requireInputValue(core.getInput('track', { required: false }), 'track');
     const inAppUpdatePriority = core.getInput('inAppUpdatePriority', { required: false });
     const userFraction = core.getInput('userFraction', { required: false });
     const status = core.getInput('status', { required: false });
     const whatsNewDir = optionalInputValue(core.getInput('whatsNewDirectory', { required: false }));
+    const listingsDir = optionalInputValue(core.getInput('listingsDirectory', { required: false }));
+    const syncImages = core.getBooleanInput('syncImages', { required: false });
+    const pruneListings = core.getBooleanInput('pruneListings', { required: false });
+    const appDetailsFile = optionalInputValue(core.getInput('appDetails', { required: false }));
+    const appDetailsInputs = {
+      contactEmail: optionalInputValue(core.getInput('contactEmail', { required: false })),
+      contactPhone: optionalInputValue(core.getInput('contactPhone', { required: false })),
+      contactWebsite: optionalInputValue(core.getInput('contactWebsite', { required: false })),
+      defaultLanguage: optionalInputValue(core.getInput('defaultLanguage', { required: false })),
+    };
     const mappingFile = optionalInputValue(core.getInput('mappingFile', { required: false }));
     const debugSymbols = optionalInputValue(core.getInput('debugSymbols', { required: false }));
+    const deobfuscationManifest = optionalInputValue(core.getInput('deobfuscationManifest', { required: false }));
     const changesNotSentForReview = core.getBooleanInput('changesNotSentForReview', { required: false });
     const existingEditId = optionalInputValue(core.getInput('existingEditId'));
     const releaseNotesSource = core.getInput('releaseNotesSource', { required: false }) || 'none';
     const releaseNotesPath = optionalInputValue(core.getInput('releaseNotesPath', { required: false }));
     const releaseNotesContent = optionalInputValue(core.getInput('releaseNotes', { required: false }));
-    const dryRun = core.getBooleanInput('dryRun', { required: false });
+    const dryRun = toDryRunMode(core.getInput('dryRun', { required: false }) || 'false');
+    const existingDrafts = toExistingDraftPolicy(core.getInput('existingDrafts', { required: false }) || 'replace');
+    const retainedVersionCodes = optionalCommaSeparatedInputValues(core.getInput('retainedVersionCodes', { required: false }));
+    const uploadConcurrency = core.getInput('uploadConcurrency', { required: false }) || DEFAULT_UPLOAD_CONCURRENCY;
+    const stateFile = optionalInputValue(core.getInput('stateFile', { required: false }));
+    const commit = core.getInput('commit', { required: false }) ? core.getBooleanInput('commit', { required: false }) : true;
+    const changesNotSentForReviewFallback = core.getBooleanInput('changesNotSentForReviewFallback', { required: false });
 
     logger.d('Starting app upload process with the following inputs:');
     logger.d(`  packageName: ${packageName}`);
@@ -150,17 +211,30 @@ export async function uploadRun() {
     logger.d(`  releaseFile: ${safeBasenameForLog(releaseFile)}`);
     logger.d(`  releaseFiles: ${releaseFiles?.map(safeBasenameForLog).join(', ')}`);
     logger.d(`  releaseName: ${releaseName}`);
+    logger.d(`  releaseNameTemplate: ${releaseNameTemplate}`);
     logger.d(`  inAppUpdatePriority: ${inAppUpdatePriority}`);
     logger.d(`  userFraction: ${userFraction}`);
     logger.d(`  status: ${status}`);
     logger.d(`  whatsNewDirectory: ${safeBasenameForLog(whatsNewDir)}`);
+    logger.d(`  listingsDirectory: ${safeBasenameForLog(listingsDir)}`);
+    logger.d(`  syncImages: ${syncImages}`);
+    logger.d(`  pruneListings: ${pruneListings}`);
+    logger.d(`  appDetails: ${safeBasenameForLog(appDetailsFile)}`);
+    logger.d(`  defaultLanguage: ${appDetailsInputs.defaultLanguage}`);
     logger.d(`  mappingFile: ${safeBasenameForLog(mappingFile)}`);
     logger.d(`  debugSymbols: ${safeBasenameForLog(debugSymbols)}`);
+    logger.d(`  deobfuscationManifest: ${safeBasenameForLog(deobfuscationManifest)}`);
     logger.d(`  changesNotSentForReview: ${changesNotSentForReview}`);
+    logger.d(`  changesNotSentForReviewFallback: ${changesNotSentForReviewFallback}`);
     logger.d(`  existingEditId: ${existingEditId ? `${existingEditId.slice(0, 4)}...` : undefined}`);
     logger.d(`  releaseNotesSource: ${releaseNotesSource}`);
     logger.d(`  releaseNotesPath: ${safeBasenameForLog(releaseNotesPath)}`);
     logger.d(`  releaseNotesContent (present): ${!!releaseNotesContent}`);
+    logger.d(`  existingDrafts: ${existingDrafts}`);
+    logger.d(`  retainedVersionCodes: ${retainedVersionCodes?.join(', ')}`);
+    logger.d(`  uploadConcurrency: ${uploadConcurrency}`);
+    logger.d(`  stateFile: ${safeBasenameForLog(stateFile)}`);
+    logger.d(`  commit: ${commit}`);
 
     // 릴리스 노트 가져오기
     let releaseNotes: LocalizedText[] | undefined;
@@ -177,22 +251,9 @@ export async function uploadRun() {
     await validateServiceAccountJson(serviceAccountJsonRaw, serviceAccountJson, useApplicationDefaultCredentials);
     logger.d('Service account JSON validated.');
 
-    // 사용자 분수 검증
-    let userFractionFloat: number | undefined;
-    if (userFraction) {
-      userFractionFloat = parseStrictNumberInput(userFraction, 'userFraction');
-    } else {
-      userFractionFloat = undefined;
-    }
-    logger.d(`Validating user fraction: ${userFractionFloat}`);
-    await validateUserFraction(userFractionFloat);
-    logger.d('User fraction validated.');
-
-    // 릴리스 상태 검증
-    logger.d(`Validating status: ${status}`);
-    const releaseStatus = toReleaseStatus(status);
-    await validateStatus(releaseStatus, userFractionFloat !== undefined);
-    logger.d('Status validated.');
+    const { userFractionFloat, releaseStatus } = await validateRolloutInputs(userFraction, status);
+    const retryPolicy = await readRetryPolicy();
+    const timeouts = await readTimeouts();
 
     // 인앱 업데이트 우선순위 검증 (0-5 사이의 숫자)
     let inAppUpdatePriorityInt: number | undefined;
@@ -205,6 +266,19 @@ export async function uploadRun() {
     await validateInAppUpdatePriority(inAppUpdatePriorityInt);
     logger.d('In-app update priority validated.');
 
+    // 유지할 버전 코드 검증 (양의 정수 목록)
+    const retainedVersionCodeInts = retainedVersionCodes?.map(versionCode => parseStrictIntegerInput(versionCode, 'retainedVersionCodes'));
+    logger.d(`Validating retained version codes: ${retainedVersionCodeInts?.join(', ')}`);
+    await validateRetainedVersionCodes(retainedVersionCodeInts);
+    logger.d('Retained version codes validated.');
+
+    // 동시 업로드 수 검증 (1-10 사이의 정수)
+    const uploadConcurrencyInt = parseStrictIntegerInput(uploadConcurrency, 'uploadConcurrency');
+    await validateUploadConcurrency(uploadConcurrencyInt);
+
+    // 릴리스 이름 템플릿 검증 ({versionName}, {versionCode}만 허용)
+    await validateReleaseNameTemplate(releaseNameTemplate);
+
     // 릴리스 파일 검증 (하위 호환성 유지)
     if (releaseFile) {
       logger.w(`WARNING!! 'releaseFile' is deprecated and will be removed in a future release. Please migrate to 'releaseFiles'`);
@@ -215,7 +289,7 @@ export async function uploadRun() {
     logger.d(`Release files validated: ${validatedReleaseFiles.join(', ')}`);
 
     // 추가 파일 존재 여부 확인
-    logger.d('Checking for additional files (whatsNewDir, mappingFile, debugSymbols).');
+    logger.d('Checking for additional files (whatsNewDir, mappingFile, debugSymbols, deobfuscationManifest).');
     if (isNotNil(whatsNewDir) && whatsNewDir.length > 0 && !fs.existsSync(whatsNewDir)) {
       throw new Error(`Unable to find 'whatsnew' directory @ ${whatsNewDir}`);
     } else if (whatsNewDir) {
@@ -233,22 +307,66 @@ export async function uploadRun() {
     } else if (debugSymbols) {
       logger.d(`'debugSymbols' found @ ${debugSymbols}`);
     }
+
+    // 아티팩트별 매핑 파일/디버그 심볼 매니페스트 (모든 릴리스 파일에 짝이 필요)
+    let deobfuscationFiles: Record<string, ArtifactDeobfuscationFiles> | undefined;
+    if (deobfuscationManifest) {
+      if (mappingFile || debugSymbols) {
+        throw new Error("Provide either 'deobfuscationManifest' or 'mappingFile'/'debugSymbols', not both");
+      }
+      deobfuscationFiles = await readDeobfuscationManifest(deobfuscationManifest, validatedReleaseFiles);
+      logger.d(`'deobfuscationManifest' paired ${Object.keys(deobfuscationFiles).length} release file(s)`);
+    }
     logger.d('Additional file checks complete.');
 
     if (!releaseNotes && whatsNewDir) {
       releaseNotes = await readLocalizedReleaseNotes(whatsNewDir);
     }
+    // 스토어 등록정보 파일도 편집을 만들기 전에 읽어 dry-run에서 함께 검증
+    const listings = await readStoreListings(listingsDir);
+    // 로컬 등록정보가 없으면 모든 언어를 지우게 되므로 정리하지 않음
+    if (pruneListings && !listings?.length) {
+      throw new Error(
+        listingsDir
+          ? 'pruneListings found no store listings in listingsDirectory; refusing to delete every store listing'
+          : "'pruneListings' requires 'listingsDirectory'"
+      );
+    }
+    // 이미지 개수와 크기 제한도 편집을 만들기 전에 확인
+    let images: StoreImageSet[] | undefined;
+    if (syncImages) {
+      if (!listingsDir) {
+        throw new Error("'syncImages' requires 'listingsDirectory'");
+      }
+      images = await readStoreImages(listingsDir);
+    }
+    const appDetails = await readAppDetails(appDetailsFile, appDetailsInputs);
 
     // Dry-run: 위의 모든 검증을 통과한 상태에서 Play API 변경 전에 중단한다 (업로드 없음).
-    if (dryRun) {
+    if (dryRun === 'true') {
+      // 로컬 매니페스트로 패키지 이름과 버전 코드 중복 확인
+      await preflightArtifactMetadata(packageName, validatedReleaseFiles);
       logger.d('Dry-run mode: preflight validations passed; skipping Play API upload.');
+      // 지울 등록정보는 Play에만 있으므로 읽기 전용 호출로 조회해 출력
+      if (pruneListings) {
+        await runWithTimeout('Store listings prune preview', timeouts.runTimeoutMs, signal =>
+          runPruneListingsPreview({
+            packageName,
+            listings,
+            existingEditId,
+            retryPolicy,
+            apiCallTimeoutMs: timeouts.apiCallTimeoutMs,
+            signal,
+          })
+        );
+      }
       core.setOutput('dryRun', 'true');
       return;
     }
 
-    // 업로드 실행 (3.6e+6ms = 1시간 타임아웃)
+    // 업로드 실행 (기본 1시간 타임아웃)
     logger.d('Initiating app upload.');
-    await pTimeout(
+    await runWithTimeout('Upload', timeouts.runTimeoutMs, signal =>
       runUpload({
         packageName,
         track,
@@ -263,11 +381,28 @@ export async function uploadRun() {
         status: releaseStatus,
         releaseFiles: validatedReleaseFiles,
         releaseNotes,
-      }),
-      {
-        milliseconds: 3.6e6,
-      }
+        listings,
+        images,
+        appDetails,
+        pruneListings,
+        existingDrafts,
+        retainedVersionCodes: retainedVersionCodeInts,
+        deobfuscationFiles,
+        releaseNameTemplate,
+        validateOnly: dryRun === 'validate-remote',
+        retryPolicy,
+        apiCallTimeoutMs: timeouts.apiCallTimeoutMs,
+        signal,
+        uploadConcurrency: uploadConcurrencyInt,
+        stateFile,
+        commit,
+        changesNotSentForReviewFallback,
+      })
     );
+    // validate-remote: 서버 검증까지 마친 편집은 커밋 없이 삭제됨
+    if (dryRun === 'validate-remote') {
+      core.setOutput('dryRun', 'true');
+    }
     logger.d('App upload process completed successfully.');
   } catch (error: unknown) {
     core.setFailed(normalizeError(error).message);
@@ -278,6 +413,298 @@ export async function uploadRun() {
   }
 }
 
+/**
+ * 릴리스 승격 실행 함수
+ * 재업로드 없이 원본 트랙의 릴리스를 대상 트랙으로 복사
+ */
+export async function promoteRun() {
+  try {
+    const serviceAccountJson = optionalInputValue(core.getInput('serviceAccountJson', { required: false }));
+    const serviceAccountJsonRaw = optionalInputValue(core.getInput('serviceAccountJsonPlainText', { required: false }));
+    const useApplicationDefaultCredentials = core.getBooleanInput('useApplicationDefaultCredentials', { required: false });
+    const packageName = requireInputValue(core.getInput('packageName', { required: false }), 'packageName');
+    const fromTrack = requireInputValue(core.getInput('fromTrack', { required: false }), 'fromTrack');
+    const track = requireInputValue(core.getInput('track', { required: false }), 'track');
+    const releaseName = optionalInputValue(core.getInput('releaseName', { required: false }));
+    const userFraction = core.getInput('userFraction', { required: false });
+    const status = core.getInput('status', { required: false });
+    const changesNotSentForReview = core.getBooleanInput('changesNotSentForReview', { required: false });
+    const existingEditId = optionalInputValue(core.getInput('existingEditId'));
+    const existingDrafts = toExistingDraftPolicy(core.getInput('existingDrafts', { required: false }) || 'replace');
+
+    logger.d('Starting release promotion with the following inputs:');
+    logger.d(`  packageName: ${packageName}`);
+    logger.d(`  fromTrack: ${fromTrack}`);
+    logger.d(`  track: ${track}`);
+    logger.d(`  releaseName: ${releaseName}`);
+    logger.d(`  userFraction: ${userFraction}`);
+    logger.d(`  status: ${status}`);
+    logger.d(`  changesNotSentForReview: ${changesNotSentForReview}`);
+    logger.d(`  existingEditId: ${existingEditId ? `${existingEditId.slice(0, 4)}...` : undefined}`);
+    logger.d(`  existingDrafts: ${existingDrafts}`);
+
+    await validateServiceAccountJson(serviceAccountJsonRaw, serviceAccountJson, useApplicationDefaultCredentials);
+    const { userFractionFloat, releaseStatus } = await validateRolloutInputs(userFraction, status);
+    const retryPolicy = await readRetryPolicy();
+    const timeouts = await readTimeouts();
+
+    logger.d('Initiating release promotion.');
+    await runWithTimeout('Promotion', timeouts.runTimeoutMs, signal =>
+      runPromote({
+        packageName,
+        fromTrack,
+        track,
+        userFraction: userFractionFloat,
+        name: releaseName,
+        changesNotSentForReview,
+        existingEditId,
+        status: releaseStatus,
+        existingDrafts,
+        retryPolicy,
+        apiCallTimeoutMs: timeouts.apiCallTimeoutMs,
+        signal,
+      })
+    );
+    logger.d('Release promotion completed successfully.');
+  } catch (error: unknown) {
+    core.setFailed(normalizeError(error).message);
+  } finally {
+    if (core.getInput('serviceAccountJsonPlainText', { required: false })) {
+      await cleanupServiceAccountJsonFile();
+    }
+  }
+}
+
+/**
+ * 점진적 출시 관리 실행 함수
+ * 업로드 없이 진행 중이거나 중단된 릴리스의 userFraction 또는 상태를 변경
+ */
+export async function rolloutRun() {
+  try {
+    const serviceAccountJson = optionalInputValue(core.getInput('serviceAccountJson', { required: false }));
+    const serviceAccountJsonRaw = optionalInputValue(core.getInput('serviceAccountJsonPlainText', { required: false }));
+    const useApplicationDefaultCredentials = core.getBooleanInput('useApplicationDefaultCredentials', { required: false });
+    const packageName = requireInputValue(core.getInput('packageName', { required: false }), 'packageName');
+    const track = requireInputValue(core.getInput('track', { required: false }), 'track');
+    const userFraction = core.getInput('userFraction', { required: false });
+    const status = core.getInput('status', { required: false });
+    const forceRollout = core.getBooleanInput('forceRollout', { required: false });
+    const changesNotSentForReview = core.getBooleanInput('changesNotSentForReview', { required: false });
+    const existingEditId = optionalInputValue(core.getInput('existingEditId'));
+
+    logger.d('Starting rollout update with the following inputs:');
+    logger.d(`  packageName: ${packageName}`);
+    logger.d(`  track: ${track}`);
+    logger.d(`  userFraction: ${userFraction}`);
+    logger.d(`  status: ${status}`);
+    logger.d(`  forceRollout: ${forceRollout}`);
+    logger.d(`  changesNotSentForReview: ${changesNotSentForReview}`);
+    logger.d(`  existingEditId: ${existingEditId ? `${existingEditId.slice(0, 4)}...` : undefined}`);
+
+    await validateServiceAccountJson(serviceAccountJsonRaw, serviceAccountJson, useApplicationDefaultCredentials);
+
+    // status 호환성은 현재 릴리스의 userFraction을 확인한 뒤 검증한다
+    const userFractionFloat = userFraction ? parseStrictNumberInput(userFraction, 'userFraction') : undefined;
+    await validateUserFraction(userFractionFloat);
+    const releaseStatus = toReleaseStatus(status);
+    // status 기본값이 completed라서 userFraction만 주면 비율을 바꾸는 대신 출시가 조용히 완료되므로 거부
+    if (releaseStatus === 'completed' && userFractionFloat !== undefined) {
+      throw new Error("Status 'completed' does not support 'userFraction'; set status to 'inProgress' to change the rollout fraction");
+    }
+    const retryPolicy = await readRetryPolicy();
+    const timeouts = await readTimeouts();
+
+    logger.d('Initiating rollout update.');
+    await runWithTimeout('Rollout update', timeouts.runTimeoutMs, signal =>
+      runRollout({
+        packageName,
+        track,
+        userFraction: userFractionFloat,
+        status: releaseStatus,
+        force: forceRollout,
+        changesNotSentForReview,
+        existingEditId,
+        retryPolicy,
+        apiCallTimeoutMs: timeouts.apiCallTimeoutMs,
+        signal,
+      })
+    );
+    logger.d('Rollout update completed successfully.');
+  } catch (error: unknown) {
+    core.setFailed(normalizeError(error).message);
+  } finally {
+    if (core.getInput('serviceAccountJsonPlainText', { required: false })) {
+      await cleanupServiceAccountJsonFile();
+    }
+  }
+}
+
+/**
+ * 편집 커밋 실행 함수
+ * commit: false로 업로드한 여러 작업이 채운 편집을 한 번에 커밋
+ */
+export async function commitRun() {
+  try {
+    const serviceAccountJson = optionalInputValue(core.getInput('serviceAccountJson', { required: false }));
+    const serviceAccountJsonRaw = optionalInputValue(core.getInput('serviceAccountJsonPlainText', { required: false }));
+    const useApplicationDefaultCredentials = core.getBooleanInput('useApplicationDefaultCredentials', { required: false });
+    const packageName = requireInputValue(core.getInput('packageName', { required: false }), 'packageName');
+    const editId = requireInputValue(core.getInput('existingEditId', { required: false }), 'existingEditId');
+    const changesNotSentForReview = core.getBooleanInput('changesNotSentForReview', { required: false });
+
+    logger.d('Starting edit commit with the following inputs:');
+    logger.d(`  packageName: ${packageName}`);
+    logger.d(`  changesNotSentForReview: ${changesNotSentForReview}`);
+    logger.d(`  existingEditId: ${editId.slice(0, 4)}...`);
+
+    await validateServiceAccountJson(serviceAccountJsonRaw, serviceAccountJson, useApplicationDefaultCredentials);
+    const retryPolicy = await readRetryPolicy();
+    const timeouts = await readTimeouts();
+
+    logger.d('Initiating edit commit.');
+    await runWithTimeout('Commit', timeouts.runTimeoutMs, signal =>
+      runCommit({
+        packageName,
+        editId,
+        changesNotSentForReview,
+        retryPolicy,
+        apiCallTimeoutMs: timeouts.apiCallTimeoutMs,
+        signal,
+      })
+    );
+    logger.d('Edit commit completed successfully.');
+  } catch (error: unknown) {
+    core.setFailed(normalizeError(error).message);
+  } finally {
+    if (core.getInput('serviceAccountJsonPlainText', { required: false })) {
+      await cleanupServiceAccountJsonFile();
+    }
+  }
+}
+
+/**
+ * 편집 삭제 실행 함수
+ * 커밋하지 않기로 한 편집을 변경 없이 버림
+ */
+export async function discardRun() {
+  try {
+    const serviceAccountJson = optionalInputValue(core.getInput('serviceAccountJson', { required: false }));
+    const serviceAccountJsonRaw = optionalInputValue(core.getInput('serviceAccountJsonPlainText', { required: false }));
+    const useApplicationDefaultCredentials = core.getBooleanInput('useApplicationDefaultCredentials', { required: false });
+    const packageName = requireInputValue(core.getInput('packageName', { required: false }), 'packageName');
+    const editId = requireInputValue(core.getInput('existingEditId', { required: false }), 'existingEditId');
+
+    logger.d('Starting edit discard with the following inputs:');
+    logger.d(`  packageName: ${packageName}`);
+    logger.d(`  existingEditId: ${editId.slice(0, 4)}...`);
+
+    await validateServiceAccountJson(serviceAccountJsonRaw, serviceAccountJson, useApplicationDefaultCredentials);
+    const retryPolicy = await readRetryPolicy();
+    const timeouts = await readTimeouts();
+
+    logger.d('Initiating edit discard.');
+    await runWithTimeout('Discard', timeouts.runTimeoutMs, signal =>
+      runDiscard({
+        packageName,
+        editId,
+        retryPolicy,
+        apiCallTimeoutMs: timeouts.apiCallTimeoutMs,
+        signal,
+      })
+    );
+    logger.d('Edit discard completed successfully.');
+  } catch (error: unknown) {
+    core.setFailed(normalizeError(error).message);
+  } finally {
+    if (core.getInput('serviceAccountJsonPlainText', { required: false })) {
+      await cleanupServiceAccountJsonFile();
+    }
+  }
+}
+
+/**
+ * 점진적 출시 입력값 검증
+ * userFraction 문자열을 숫자로 변환하고 status와의 호환성을 확인
+ */
+async function validateRolloutInputs(
+  userFraction: string,
+  status: string
+): Promise<{ userFractionFloat: number | undefined; releaseStatus: ReleaseStatus }> {
+  // 사용자 분수 검증
+  let userFractionFloat: number | undefined;
+  if (userFraction) {
+    userFractionFloat = parseStrictNumberInput(userFraction, 'userFraction');
+  } else {
+    userFractionFloat = undefined;
+  }
+  logger.d(`Validating user fraction: ${userFractionFloat}`);
+  await validateUserFraction(userFractionFloat);
+  logger.d('User fraction validated.');
+
+  // 릴리스 상태 검증
+  logger.d(`Validating status: ${status}`);
+  const releaseStatus = toReleaseStatus(status);
+  await validateStatus(releaseStatus, userFractionFloat !== undefined);
+  logger.d('Status validated.');
+
+  return { userFractionFloat, releaseStatus };
+}
+
+/**
+ * Google Play API 재시도 정책 입력값 읽기
+ * 최대 시도 횟수와 지수 백오프 기본 지연 시간을 정수로 변환하고 범위를 검증
+ */
+async function readRetryPolicy(): Promise<RetryPolicy> {
+  const retryMaxAttempts = core.getInput('retryMaxAttempts', { required: false }) || DEFAULT_RETRY_MAX_ATTEMPTS;
+  const retryBaseDelayMs = core.getInput('retryBaseDelayMs', { required: false }) || DEFAULT_RETRY_BASE_DELAY_MS;
+  logger.d(`Validating retry policy: maxAttempts=${retryMaxAttempts}, baseDelayMs=${retryBaseDelayMs}`);
+
+  const retryPolicy = {
+    maxAttempts: parseStrictIntegerInput(retryMaxAttempts, 'retryMaxAttempts'),
+    baseDelayMs: parseStrictIntegerInput(retryBaseDelayMs, 'retryBaseDelayMs'),
+  };
+  await validateRetryPolicy(retryPolicy.maxAttempts, retryPolicy.baseDelayMs);
+  return retryPolicy;
+}
+
+/**
+ * 시간 제한 입력값 읽기
+ * 실행 전체와 Google Play API 호출별 시간 제한을 초 단위 정수로 변환하고 범위를 검증
+ */
+async function readTimeouts(): Promise<{ runTimeoutMs: number; apiCallTimeoutMs: number }> {
+  const runTimeoutSeconds = core.getInput('runTimeoutSeconds', { required: false }) || DEFAULT_RUN_TIMEOUT_SECONDS;
+  const apiCallTimeoutSeconds = core.getInput('apiCallTimeoutSeconds', { required: false }) || DEFAULT_API_CALL_TIMEOUT_SECONDS;
+  logger.d(`Validating timeouts: runTimeoutSeconds=${runTimeoutSeconds}, apiCallTimeoutSeconds=${apiCallTimeoutSeconds}`);
+
+  const runTimeoutSecondsInt = parseStrictIntegerInput(runTimeoutSeconds, 'runTimeoutSeconds');
+  const apiCallTimeoutSecondsInt = parseStrictIntegerInput(apiCallTimeoutSeconds, 'apiCallTimeoutSeconds');
+  await validateTimeouts(runTimeoutSecondsInt, apiCallTimeoutSecondsInt);
+  return { runTimeoutMs: runTimeoutSecondsInt * 1000, apiCallTimeoutMs: apiCallTimeoutSecondsInt * 1000 };
+}
+
+/**
+ * 시간 제한을 두고 Play 실행
+ * 시간이 초과되면 진행 중인 요청을 AbortSignal로 중단하고, 액션이 만든 편집 정리가 끝난 뒤 실패로 처리
+ *
+ * @param operation - 오류 메시지에 쓸 실행 이름
+ * @param milliseconds - 실행 전체 시간 제한
+ * @param run - 중단 신호를 받아 실행하는 함수
+ */
+async function runWithTimeout(operation: string, milliseconds: number, run: (signal: AbortSignal) => Promise<void>): Promise<void> {
+  const controller = new AbortController();
+  const running = run(controller.signal);
+  await pTimeout(running, {
+    milliseconds,
+    fallback: async () => {
+      const timeoutError = new Error(`${operation} timed out after ${milliseconds}ms`);
+      controller.abort(timeoutError);
+      // 중단된 실행이 편집을 삭제할 때까지 기다린 뒤 실패 처리
+      await running.catch(() => undefined);
+      throw timeoutError;
+    },
+  });
+}
+
 /**
  * 서비스 계정 JSON 파일 검증 및 설정
  * @param serviceAccountJsonRaw - 서비스 계정 JSON 원본 텍스트
@@ -304,6 +731,10 @@ async function validateServiceAccountJson(
       mode: 0o600,
     });
     generatedServiceAccountFile = serviceAccountFile;
+    // 워크플로가 취소되어 finally 블록이 실행되지 않아도 자격 증명 파일을 남기지 않도록 등록
+    unregisterServiceAccountCleanup = registerShutdownCleanup('remove service account json file', () =>
+      cleanupServiceAccountJsonFile(serviceAccountFile)
+    );
     core.exportVariable('GOOGLE_APPLICATION_CREDENTIALS', serviceAccountFile);
   } else if (serviceAccountJson) {
     const serviceAccountFile = resolveSecureFile(serviceAccountJson, 'serviceAccountJson', {
@@ -351,6 +782,7 @@ async function signRun() {
 
       // 3. 각 릴리스 파일에 대해 zipalign 및 서명 수행
       const signedReleaseFiles: string[] = [];
+      const signedFileSummaries: SignedFileSummary[] = [];
       let index = 0;
       for (const releaseFile of releaseFiles) {
         logger.d(`Found release to sign: ${releaseFile.name}`);
@@ -368,6 +800,7 @@ async function signRun() {
         core.exportVariable(`SIGNED_RELEASE_FILE_${index}`, signedReleaseFile);
         core.setOutput(`signedReleaseFile${index}`, signedReleaseFile);
         signedReleaseFiles.push(signedReleaseFile);
+        signedFileSummaries.push({ signedReleaseFile, certificateDigests: await readSummaryCertificateDigests(signedReleaseFile) });
         ++index;
       }
 
@@ -383,6 +816,7 @@ async function signRun() {
         core.exportVariable(`SIGNED_RELEASE_FILE`, onlySignedReleaseFile);
         core.setOutput('signedReleaseFile', onlySignedReleaseFile);
       }
+      await writeSignSummary(signedFileSummaries);
       console.log('Releases signed!');
     } else {
       logger.e('No release files (.apk or .aab) could be found. Abort.');
@@ -402,6 +836,21 @@ async function signRun() {
   }
 }
 
+/**
+ * 요약에 넣을 서명 인증서 다이제스트 읽기
+ * 요약은 부가 정보이므로 apksigner나 keytool이 실패해도 서명 단계는 실패시키지 않고 다이제스트를 비워 둠
+ */
+async function readSummaryCertificateDigests(signedReleaseFile: string): Promise<string[]> {
+  try {
+    return await readCertificateDigests(signedReleaseFile);
+  } catch (error: unknown) {
+    logger.w(
+      `Failed to read the signing certificate digest of ${safeBasenameForLog(signedReleaseFile)} for the job summary: ${normalizeError(error).message}`
+    );
+    return [];
+  }
+}
+
 async function getReleaseNotes(source: string, path: string | undefined, content: string | undefined): Promise<string | undefined> {
   if (content) {
     logger.d('Using release notes provided directly.');
@@ -0,0 +1,233 @@
+/**
+ * Google Play 재개 가능(resumable) 업로드
+ * 큰 파일을 청크 단위로 보내고, 실패 후에는 서버가 확인한 마지막 바이트부터 이어서 전송
+ */
+import * as fs from 'fs';
+import * as logger from './utils/logger';
+
+export const UPLOAD_API_ROOT = 'https://androidpublisher.googleapis.com/upload/androidpublisher/v3';
+
+// 청크 크기는 256 KiB의 배수여야 함
+export const RESUMABLE_UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+
+const PROGRESS_STEP_PERCENT = 10;
+const RESUME_INCOMPLETE_STATUS = 308;
+
+export interface UploadRequestOptions {
+  url: string;
+  method: 'POST' | 'PUT';
+  headers: Record<string, string>;
+  data?: Buffer;
+  signal?: AbortSignal;
+  validateStatus?: (status: number) => boolean;
+  responseType?: 'json';
+}
+
+export interface UploadResponse<T> {
+  status: number;
+  headers: Record<string, string | undefined>;
+  data: T;
+}
+
+/**
+ * 업로드 요청을 보낼 HTTP 클라이언트
+ * 실제 실행에서는 인증 헤더를 붙여 주는 GoogleAuth를 사용
+ */
+export interface ResumableUploadClient {
+  request<T>(options: UploadRequestOptions): Promise<UploadResponse<T>>;
+}
+
+/**
+ * 업로드할 내용
+ * 파일 전체를 메모리에 올리지 않도록 필요한 구간만 읽음
+ */
+export interface ResumableUploadSource {
+  size: number;
+  read(start: number, length: number): Promise<Buffer>;
+}
+
+export interface ResumableUploadSession {
+  sessionUrl: string;
+  label: string; // 진행 상황 로그에 표시할 이름
+  source: ResumableUploadSource;
+  confirmedBytes: number; // 서버가 수신을 확인한 바이트 수
+  interrupted: boolean; // 이전 전송이 중간에 실패해 서버에 진행 상태를 다시 물어야 하는지 여부
+  reportedPercent: number;
+}
+
+/**
+ * 파일 업로드 소스 생성
+ *
+ * @param filePath - 업로드할 파일 경로
+ */
+export function fileUploadSource(filePath: string): ResumableUploadSource {
+  return {
+    size: fs.statSync(filePath).size,
+    read: async (start, length) => {
+      const handle = await fs.promises.open(filePath, 'r');
+      try {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, start);
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+  };
+}
+
+/**
+ * 메모리 버퍼 업로드 소스 생성
+ *
+ * @param data - 업로드할 데이터
+ */
+export function bufferUploadSource(data: Buffer): ResumableUploadSource {
+  return {
+    size: data.length,
+    read: (start, length) => Promise.resolve(data.subarray(start, start + length)),
+  };
+}
+
+/**
+ * 재개 가능 업로드 세션 시작
+ * 서버가 Location 헤더로 돌려준 세션 URL로 이후 청크를 전송
+ *
+ * @param client - 요청을 보낼 HTTP 클라이언트
+ * @param url - uploadType 파라미터를 제외한 업로드 엔드포인트
+ * @param source - 업로드할 내용
+ * @param contentType - 업로드할 내용의 MIME 타입
+ * @param label - 진행 상황 로그에 표시할 이름
+ * @param signal - 요청 중단 신호
+ */
+export async function startResumableUpload(
+  client: ResumableUploadClient,
+  url: string,
+  source: ResumableUploadSource,
+  contentType: string,
+  label: string,
+  signal?: AbortSignal
+): Promise<ResumableUploadSession> {
+  if (source.size === 0) {
+    throw new Error(`Cannot start a resumable upload for empty ${label}`);
+  }
+  const res = await client.request<unknown>({
+    url: `${url}?uploadType=resumable`,
+    method: 'POST',
+    headers: {
+      'X-Upload-Content-Type': contentType,
+      'X-Upload-Content-Length': String(source.size),
+    },
+    signal,
+  });
+  const sessionUrl = res.headers.location;
+  if (!sessionUrl) {
+    throw new Error(`Resumable upload for ${label} did not return a session URL`);
+  }
+  logger.d(`Started resumable upload for ${label} (${source.size} bytes)`);
+  return { sessionUrl, label, source, confirmedBytes: 0, interrupted: false, reportedPercent: 0 };
+}
+
+/**
+ * 재개 가능 업로드 진행
+ * 이전 시도가 중간에 실패했다면 서버에 확인된 바이트를 먼저 묻고, 그 다음 바이트부터 청크를 전송
+ *
+ * @param client - 요청을 보낼 HTTP 클라이언트
+ * @param session - startResumableUpload로 시작한 세션
+ * @param chunkBytes - 한 번에 보낼 바이트 수
+ * @param signal - 요청 중단 신호
+ * @returns 업로드 완료 후 서버가 돌려준 응답 본문
+ */
+export async function continueResumableUpload<T>(
+  client: ResumableUploadClient,
+  session: ResumableUploadSession,
+  chunkBytes: number = RESUMABLE_UPLOAD_CHUNK_BYTES,
+  signal?: AbortSignal
+): Promise<T> {
+  const { size } = session.source;
+  try {
+    if (session.interrupted) {
+      const res = await sendUploadRequest<T>(client, session, { 'Content-Range': `bytes */${size}` }, undefined, signal);
+      if (res.status !== RESUME_INCOMPLETE_STATUS) {
+        return completeUpload(session, res.data);
+      }
+      session.interrupted = false;
+      logger.i(`Resuming upload of ${session.label} from byte ${session.confirmedBytes} of ${size}`);
+    }
+
+    for (;;) {
+      const start = session.confirmedBytes;
+      if (start >= size) {
+        throw new Error(`Resumable upload for ${session.label} was not completed after sending all ${size} bytes`);
+      }
+      const chunk = await session.source.read(start, Math.min(chunkBytes, size - start));
+      const res = await sendUploadRequest<T>(
+        client,
+        session,
+        { 'Content-Range': `bytes ${start}-${start + chunk.length - 1}/${size}` },
+        chunk,
+        signal
+      );
+      if (res.status !== RESUME_INCOMPLETE_STATUS) {
+        return completeUpload(session, res.data);
+      }
+      reportProgress(session);
+    }
+  } catch (error: unknown) {
+    session.interrupted = true;
+    throw error;
+  }
+}
+
+/**
+ * 세션 URL로 요청을 보내고 확인된 바이트 수 갱신
+ * 308(Resume Incomplete)은 정상 응답으로 취급
+ */
+async function sendUploadRequest<T>(
+  client: ResumableUploadClient,
+  session: ResumableUploadSession,
+  headers: Record<string, string>,
+  data: Buffer | undefined,
+  signal: AbortSignal | undefined
+): Promise<UploadResponse<T>> {
+  const res = await client.request<T>({
+    url: session.sessionUrl,
+    method: 'PUT',
+    headers,
+    data,
+    signal,
+    responseType: 'json',
+    validateStatus: status => status === RESUME_INCOMPLETE_STATUS || (status >= 200 && status < 300),
+  });
+  if (res.status === RESUME_INCOMPLETE_STATUS) {
+    session.confirmedBytes = parseConfirmedBytes(res.headers.range);
+  }
+  return res;
+}
+
+/**
+ * Range 헤더(bytes=0-N)에서 확인된 바이트 수 계산
+ * 헤더가 없으면 서버가 아무 바이트도 받지 않은 것
+ */
+function parseConfirmedBytes(range: string | undefined): number {
+  const match = /^bytes=0-(\d+)$/.exec(range ?? '');
+  return match ? Number(match[1]) + 1 : 0;
+}
+
+function completeUpload<T>(session: ResumableUploadSession, data: T): T {
+  session.confirmedBytes = session.source.size;
+  reportProgress(session);
+  return data;
+}
+
+/**
+ * 진행 상황 로그
+ * 로그가 너무 많아지지 않도록 PROGRESS_STEP_PERCENT 단위를 넘을 때만 기록
+ */
+function reportProgress(session: ResumableUploadSession): void {
+  const { size } = session.source;
+  const percent = Math.floor((session.confirmedBytes / size) * 100);
+  const due = percent === 100 ? session.reportedPercent < 100 : percent >= session.reportedPercent + PROGRESS_STEP_PERCENT;
+  if (!due) return;
+  session.reportedPercent = percent;
+  logger.i(`Uploading ${session.label}: ${session.confirmedBytes}/${size} bytes (${percent}%)`);
+}
@@ -0,0 +1,121 @@
+/**
+ * 업로드 실행 상태 파일
+ * 실패한 업로드를 다시 실행할 때 끝난 단계를 건너뛰도록 편집 ID와 단계별 진행 상황을 JSON으로 기록
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as logger from './utils/logger';
+import { normalizeUnknownError, resolveSecureDirectory, resolveSecureFile, safeBasenameForLog } from './utils/security-utils';
+
+const MAX_STATE_FILE_BYTES = 1024 * 1024;
+
+export interface ArtifactRunState {
+  sha256: string; // 업로드한 파일의 SHA-256 (파일이 바뀌면 다시 업로드)
+  versionCode: number;
+  mappingUploaded: boolean;
+  debugSymbolsUploaded: boolean;
+}
+
+export interface RunState {
+  packageName: string;
+  track: string;
+  editId?: string; // 아직 편집을 만들기 전이면 없음
+  artifacts: Record<string, ArtifactRunState>; // 릴리스 파일 경로별 진행 상황
+  trackUpdated: boolean;
+}
+
+export interface RunStateFile {
+  path: string;
+  state: RunState;
+}
+
+/**
+ * 실행 상태 파일 열기
+ * 파일이 없거나 다른 패키지/트랙의 상태면 새 상태로 시작
+ *
+ * @param stateFile - 상태 파일 경로
+ * @param packageName - 업로드할 앱 패키지 이름
+ * @param track - 업로드할 트랙
+ */
+export function openRunState(stateFile: string, packageName: string, track: string): RunStateFile {
+  const directory = resolveSecureDirectory(path.dirname(path.resolve(stateFile)), 'stateFile directory');
+  const filePath = path.join(directory, path.basename(stateFile));
+  const fresh: RunState = { packageName, track, artifacts: {}, trackUpdated: false };
+  if (!fs.existsSync(filePath)) {
+    logger.d(`stateFile ${safeBasenameForLog(filePath)} does not exist yet; starting a new run state`);
+    return { path: filePath, state: fresh };
+  }
+
+  const state = parseRunState(
+    fs.readFileSync(resolveSecureFile(filePath, 'stateFile', { extensions: ['.json'], maxBytes: MAX_STATE_FILE_BYTES }), 'utf-8'),
+    filePath
+  );
+  if (state.packageName !== packageName || state.track !== track) {
+    logger.w(
+      `Ignoring stateFile ${safeBasenameForLog(filePath)} recorded for packageName=${state.packageName}, track=${state.track}; starting a new run state`
+    );
+    return { path: filePath, state: fresh };
+  }
+  logger.i(`Resuming from stateFile ${safeBasenameForLog(filePath)} (editId=${state.editId ?? 'none'})`);
+  return { path: filePath, state };
+}
+
+/**
+ * 실행 상태 저장
+ * 중간에 중단되어도 파일이 깨지지 않도록 임시 파일에 쓴 뒤 이름을 바꿈
+ */
+export function saveRunState(file: RunStateFile): void {
+  const tempPath = `${file.path}.tmp`;
+  fs.writeFileSync(tempPath, `${JSON.stringify(file.state, null, 2)}\n`, { mode: 0o600 });
+  fs.renameSync(tempPath, file.path);
+}
+
+/**
+ * 실행 상태 삭제
+ * 편집을 커밋하거나 검증 후 삭제해 더 이어서 진행할 것이 없을 때 사용
+ */
+export function removeRunState(file: RunStateFile): void {
+  fs.rmSync(file.path, { force: true });
+  logger.d(`Removed stateFile ${safeBasenameForLog(file.path)}`);
+}
+
+function parseRunState(raw: string, filePath: string): RunState {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error: unknown) {
+    throw new Error(`stateFile ${safeBasenameForLog(filePath)} is not valid JSON: ${normalizeUnknownError(error).message}`);
+  }
+
+  if (!isRunState(value)) {
+    throw new Error(`stateFile ${safeBasenameForLog(filePath)} is not a run state written by this action; delete it to start over`);
+  }
+  return value;
+}
+
+function isRunState(value: unknown): value is RunState {
+  const state = value as Partial<RunState> | null;
+  return (
+    typeof state === 'object' &&
+    state !== null &&
+    typeof state.packageName === 'string' &&
+    typeof state.track === 'string' &&
+    (state.editId === undefined || typeof state.editId === 'string') &&
+    typeof state.trackUpdated === 'boolean' &&
+    typeof state.artifacts === 'object' &&
+    state.artifacts !== null &&
+    Object.values(state.artifacts).every(isArtifactRunState)
+  );
+}
+
+function isArtifactRunState(value: unknown): value is ArtifactRunState {
+  const artifact = value as Partial<ArtifactRunState> | null;
+  return (
+    typeof artifact === 'object' &&
+    artifact !== null &&
+    typeof artifact.sha256 === 'string' &&
+    typeof artifact.versionCode === 'number' &&
+    typeof artifact.mappingUploaded === 'boolean' &&
+    typeof artifact.debugSymbolsUploaded === 'boolean'
+  );
+}
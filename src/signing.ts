@@ -2,17 +2,20 @@
  * APK/AAB 파일 서명 관련 유틸리티
  * Android 앱 서명을 위한 zipalign, apksigner, jarsigner 도구 사용
  */
-import { exec } from '@actions/exec';
+import { exec, getExecOutput } from '@actions/exec';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as logger from './utils/logger';
 import * as core from '@actions/core';
+import { uniq } from 'es-toolkit/array';
 import { assertPathInsideRoot, normalizeUnknownError, safeBasenameForLog } from './utils/security-utils';
 
 const DEFAULT_BUILD_TOOLS_VERSION = '33.0.0';
 const ANDROID_BUILD_TOOLS_VERSION_PATTERN = /^\d+(?:\.\d+){1,2}(?:[-._A-Za-z0-9]+)?$/;
 const STORE_PASSWORD_ENV = 'ANDROID_SUPPORT_KEYSTORE_PASSWORD';
 const KEY_PASSWORD_ENV = 'ANDROID_SUPPORT_KEY_PASSWORD';
+const APKSIGNER_DIGEST_PATTERN = /certificate SHA-256 digest: [0-9a-fA-F]{64}/g;
+const KEYTOOL_DIGEST_PATTERN = /SHA256: (?:[0-9A-F]{2}:){31}[0-9A-F]{2}/g;
 
 function assertExecutableUnderRoot(executablePath: string, rootPath: string, label: string): string {
   let realExecutablePath: string;
@@ -163,6 +166,40 @@ export async function signAabFile(
   return aabFile;
 }
 
+/**
+ * 서명 인증서 SHA-256 다이제스트 읽기
+ * APK는 apksigner, AAB는 keytool로 서명 인증서를 출력해 다이제스트를 추출
+ *
+ * @param signedFile - 서명된 APK 또는 AAB 파일 경로
+ * @returns 콜론으로 구분된 대문자 SHA-256 다이제스트 목록
+ */
+export async function readCertificateDigests(signedFile: string): Promise<string[]> {
+  let digests: string[];
+  if (signedFile.endsWith('.apk')) {
+    const { apkSigner } = resolveAndroidBuildTools();
+    const { stdout } = await getExecOutput(`"${apkSigner}"`, ['verify', '--print-certs', signedFile], { silent: true });
+    digests = [...stdout.matchAll(APKSIGNER_DIGEST_PATTERN)].map(formatDigest);
+  } else {
+    const keyTool = resolveJavaHomeTool('keytool');
+    const { stdout } = await getExecOutput(`"${keyTool}"`, ['-printcert', '-jarfile', signedFile], { silent: true });
+    digests = [...stdout.matchAll(KEYTOOL_DIGEST_PATTERN)].map(formatDigest);
+  }
+
+  if (digests.length === 0) {
+    throw new Error(`Unable to read the signing certificate digest of ${safeBasenameForLog(signedFile)}`);
+  }
+  return uniq(digests);
+}
+
+function formatDigest(match: RegExpMatchArray): string {
+  // 일치 문자열의 마지막 공백 뒤가 다이제스트
+  return match[0]
+    .slice(match[0].lastIndexOf(' ') + 1)
+    .replace(/:/g, '')
+    .toUpperCase()
+    .replace(/(..)(?!$)/g, '$1:');
+}
+
 export const __testables = {
   resolveAndroidBuildTools,
   resolveJavaHomeTool,
@@ -0,0 +1,31 @@
+/**
+ * 동시 실행 수를 제한해 비동기 작업 실행
+ * 결과는 완료 순서와 관계없이 입력 순서대로 반환
+ * 작업이 실패하면 새 작업은 시작하지 않고, 진행 중인 작업이 끝난 뒤 처음 발생한 오류를 던짐
+ *
+ * @param items - 처리할 항목
+ * @param concurrency - 동시에 실행할 최대 작업 수
+ * @param fn - 항목과 입력 위치를 받아 실행할 작업
+ */
+export async function mapWithConcurrency<T, R>(items: readonly T[], concurrency: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  const errors: unknown[] = [];
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length && errors.length === 0) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index] as T, index);
+      } catch (error: unknown) {
+        errors.push(error);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+  return results;
+}
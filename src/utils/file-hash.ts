@@ -0,0 +1,16 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import { pipeline } from 'stream/promises';
+
+/**
+ * 파일의 SHA-256 해시 계산
+ * 큰 아티팩트도 메모리에 한 번에 올리지 않도록 스트림으로 읽음
+ *
+ * @param filePath - 해시를 계산할 파일 경로
+ * @returns 소문자 16진수 해시
+ */
+export async function sha256File(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+}
@@ -0,0 +1,74 @@
+/**
+ * 종료 신호 처리
+ * 워크플로가 취소되면 러너가 SIGINT/SIGTERM을 보내고 곧 프로세스를 강제 종료하므로,
+ * 신호를 받으면 등록된 정리 작업을 유예 시간 안에서만 실행한 뒤 종료
+ */
+import * as logger from './logger';
+import { normalizeUnknownError } from './security-utils';
+
+export const SHUTDOWN_GRACE_PERIOD_MS = 5000;
+const SHUTDOWN_SIGNALS: readonly NodeJS.Signals[] = ['SIGTERM', 'SIGINT'];
+
+interface ShutdownCleanup {
+  name: string;
+  cleanup: () => Promise<void>;
+}
+
+const cleanups = new Map<symbol, ShutdownCleanup>();
+let shuttingDown = false;
+
+/**
+ * 종료 신호를 받았을 때 실행할 정리 작업 등록
+ * 처음 등록할 때 신호 처리기를 설치하고, 마지막 작업이 해제되면 제거해 평소의 신호 동작을 되돌림
+ *
+ * @param name - 로그에 쓸 정리 작업 이름
+ * @param cleanup - 정리 작업
+ * @returns 정리 작업 등록 해제 함수 (여러 번 호출해도 안전)
+ */
+export function registerShutdownCleanup(name: string, cleanup: () => Promise<void>): () => void {
+  if (cleanups.size === 0) {
+    SHUTDOWN_SIGNALS.forEach(signal => process.on(signal, handleShutdownSignal));
+  }
+  const id = Symbol(name);
+  cleanups.set(id, { name, cleanup });
+  logger.d(`Registered shutdown cleanup: ${name}`);
+
+  return () => {
+    if (!cleanups.delete(id) || cleanups.size > 0) {
+      return;
+    }
+    SHUTDOWN_SIGNALS.forEach(signal => process.off(signal, handleShutdownSignal));
+  };
+}
+
+function handleShutdownSignal(signal: NodeJS.Signals): void {
+  if (shuttingDown) {
+    logger.w(`Received ${signal} again; still cleaning up before exiting`);
+    return;
+  }
+  shuttingDown = true;
+
+  const pending = [...cleanups.values()];
+  logger.w(`Received ${signal}; running ${pending.length} cleanup task(s) within ${SHUTDOWN_GRACE_PERIOD_MS}ms before exiting`);
+  void runShutdownCleanups(pending).finally(() => process.exit(signal === 'SIGINT' ? 130 : 143));
+}
+
+async function runShutdownCleanups(pending: ShutdownCleanup[]): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const gracePeriod = new Promise<boolean>(resolve => {
+    timer = setTimeout(() => resolve(false), SHUTDOWN_GRACE_PERIOD_MS);
+  });
+  const finished = Promise.all(
+    pending.map(({ name, cleanup }) =>
+      cleanup().catch((error: unknown) => logger.w(`Shutdown cleanup '${name}' failed: ${normalizeUnknownError(error).message}`))
+    )
+  ).then(() => true);
+
+  try {
+    if (!(await Promise.race([finished, gracePeriod]))) {
+      logger.w(`Shutdown cleanup did not finish within ${SHUTDOWN_GRACE_PERIOD_MS}ms; exiting anyway`);
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}